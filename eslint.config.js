@@ -0,0 +1,12 @@
+const tseslint = require('@typescript-eslint/eslint-plugin')
+
+module.exports = [
+  ...tseslint.configs['flat/recommended'],
+  {
+    rules: {
+      // `const { seq, ...change } = row` drops a field on purpose
+      '@typescript-eslint/no-unused-vars': ['error', { ignoreRestSiblings: true, caughtErrors: 'none' }],
+      '@typescript-eslint/no-unused-expressions': ['error', { allowShortCircuit: true, allowTernary: true }],
+    },
+  },
+]
@@ -3,11 +3,17 @@ module.exports = {
   testEnvironment: 'node',
   transform: {
     '^.+\\.tsx?$': 'ts-jest',
+    // react-native ships Flow, which its jest setup loads
+    '^.+\\.jsx?$': 'babel-jest',
   },
+  // pnpm nests packages under node_modules/.pnpm/<name>@<version>/node_modules/<name>
+  transformIgnorePatterns: [
+    'node_modules/(?!(\\.pnpm/[^/]+/node_modules/)?((jest-)?react-native|@react-native(-community)?)/)',
+  ],
   moduleFileExtensions: ['ts', 'tsx', 'js', 'jsx', 'json'],
   testMatch: ['**/tests/**/*.(test|spec).(ts|tsx|js)'],
   collectCoverageFrom: [
     'src/**/*.{ts,tsx}',
     '!src/**/*.d.ts',
   ],
-};
\ No newline at end of file
+};
@@ -0,0 +1,42 @@
+import { PSHDatabaseQueryValue } from './PSHDatabaseQuery'
+
+
+// fields are dotted paths, read from index columns where the collection has them
+export interface PSHAggregateSpec {
+  groupBy?: string | string[]
+  sum?: string[]
+  min?: string[]
+  max?: string[]
+  avg?: string[]
+}
+
+export interface PSHAggregateRow {
+  group: Record<string, PSHDatabaseQueryValue>
+  count: number
+  sum: Record<string, number|null>
+  min: Record<string, PSHDatabaseQueryValue>
+  max: Record<string, PSHDatabaseQueryValue>
+  avg: Record<string, number|null>
+}
+
+export type PSHAggregateFunction = 'sum' | 'min' | 'max' | 'avg'
+
+export const AGGREGATE_FUNCTIONS: PSHAggregateFunction[] = ['sum', 'min', 'max', 'avg']
+
+const toGroupBy = (spec: PSHAggregateSpec): string[] => spec.groupBy === undefined ? [] : typeof spec.groupBy === 'string' ? [spec.groupBy] : spec.groupBy
+
+const toFields = (spec: PSHAggregateSpec): string[] => toGroupBy(spec).concat(...AGGREGATE_FUNCTIONS.map(fn => spec[fn] || []))
+
+// result columns are named by position, as paths aren't valid SQL names
+const toRows = (spec: PSHAggregateSpec, results: Array<Record<string, PSHDatabaseQueryValue>>): PSHAggregateRow[] => results.map(result => {
+  const row: PSHAggregateRow = { group: {}, count: result.count as number, sum: {}, min: {}, max: {}, avg: {} }
+  toGroupBy(spec).forEach((field, i) => row.group[field] = result[`g${i}`])
+  AGGREGATE_FUNCTIONS.forEach(fn => (spec[fn] || []).forEach((field, i) => (row[fn] as Record<string, PSHDatabaseQueryValue>)[field] = result[`${fn}${i}`]))
+  return row
+})
+
+export default {
+  toGroupBy,
+  toFields,
+  toRows,
+}
\ No newline at end of file
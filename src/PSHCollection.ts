@@ -1,24 +1,56 @@
 import uuid from 'react-native-uuid'
 import type PSHDatabase from './PSHDatabase'
+import type { PSHGetOptions } from './PSHDatabase'
 import PSHRef from './PSHRef'
 import PSHDeferredWrite from './PSHDeferredWrite'
 import PSHEvent, { PSHEventType } from './events/PSHEvent'
-import PSHDatabaseQuery from './PSHDatabaseQuery'
+import PSHDatabaseQuery, { PSHDatabaseQueryValue, PSHQueryFor, PSHQueryOptions } from './PSHDatabaseQuery'
 import Pea from './Pea'
-import { maybeLog, maybeError, matchesQuery } from './shared'
+import PSHValidation, { PSHCollectionOptions, PSHSchema } from './PSHValidation'
+import PSHValidationError from './PSHValidationError'
+import PSHConflictError from './PSHConflictError'
+import PSHNotFoundError from './PSHNotFoundError'
+import { PSHConflictResolver, PSHSaveOptions } from './PSHConflicts'
+import PSHExport, { PSHImportOptions, PSHImportResult, PSHImportSource } from './PSHExport'
+import PSHLiveQuery, { PSHLiveQueryErrorListener, PSHLiveQueryListener } from './PSHLiveQuery'
+import { PSHHistoryEntry } from './PSHHistory'
+import { PSHRefData } from './PSHRefs'
+import PSHLiveResult, { PSHLiveResultErrorListener, PSHLiveResultListener } from './PSHLiveResult'
+import { PSHAggregateRow, PSHAggregateSpec } from './PSHAggregate'
+import PSHLiveSearch, { PSHLiveSearchErrorListener, PSHLiveSearchListener } from './PSHLiveSearch'
+import { PSHSearchOptions, PSHSearchResult } from './PSHSearch'
 
 
-export default class PSHCollection {
+// untyped collections keep accepting arbitrary updates
+export type PSHUpdate<T> = Pea extends T ? Record<string,unknown> : Partial<T>
+export type PSHUpdater<T> = PSHUpdate<T> | ((existing: T) => T)
+// a document that may not have an id yet
+export type PSHUpsert<T extends Pea> = Omit<T, 'id'> & { id?: string }
+
+export interface PSHBulkResult {
+  count: number
+  ids: string[]
+}
+
+// how many times a conflicting save is resolved, or an update re-applied, before the conflict is surfaced
+const MAX_CONFLICT_ATTEMPTS = 5
+
+export default class PSHCollection<T extends Pea=Pea> {
   db: PSHDatabase
   name: string
+  schema?: PSHSchema<T>
+  resolve?: PSHConflictResolver<T>
   private _initialized = 0
   private _initializePromise: Promise<void>|null = null
 
-  constructor(db: PSHDatabase, name: string) {
+  constructor(db: PSHDatabase, name: string, options?: PSHCollectionOptions<T>) {
     // debug('PSHCollection.constructor', db.dbName, name)
     this.db = db
     this.name = name
-    this.initialize()
+    this.schema = options && options.schema
+    this.resolve = options && options.resolve
+    // a failure is logged, and rejects the calls that wait on it
+    this.initialize().catch(() => undefined)
   }
 
   get qualifiedName() {
@@ -29,9 +61,14 @@ export default class PSHCollection {
     return this._initialized > 0
   }
 
+  // this collection as the write pipeline, live queries and refs hold it, alongside collections of other types
+  get untyped(): PSHCollection<Pea> {
+    return this as PSHCollection<Pea>
+  }
+
   ref(id?: string): PSHRef {
     id = id || uuid.v4() as string
-    return new PSHRef(this, id)
+    return new PSHRef(this.untyped, id)
   }
 
   async initialize() {
@@ -52,12 +89,12 @@ export default class PSHCollection {
         this.db.create(this.name)
           .then(() => {
             const d = Date.now()
-            maybeLog('PSHCollection.initialize/success', this.qualifiedName, `db:${this.db.initialized}`, `this:${this._initialized}`, `now:${d}`)
+            this.db.logger.log('PSHCollection.initialize/success', this.qualifiedName, `db:${this.db.initialized}`, `this:${this._initialized}`, `now:${d}`)
             this._initialized = d
           })
           .then(resolve)
           .catch(e => { 
-            maybeError('PSHCollection.initialize/fail', this.qualifiedName, e)
+            this.db.logger.error('PSHCollection.initialize/fail', this.qualifiedName, e)
             reject(e) 
           })
 
@@ -71,9 +108,20 @@ export default class PSHCollection {
     return this.db.describe(this.name)
   }
 
-  async count() {
+  async count(query?: PSHQueryFor<T>) {
     await this.initialize()
-    return this.db.count(this.name)
+    return this.db.count(this.name, query as PSHDatabaseQuery)
+  }
+
+  // the field's non-null values among matching documents, in order
+  async distinct(field: string, query?: PSHQueryFor<T>): Promise<PSHDatabaseQueryValue[]> {
+    await this.initialize()
+    return this.db.distinct(this.name, field, query as PSHDatabaseQuery)
+  }
+
+  async aggregate(spec: PSHAggregateSpec, query?: PSHQueryFor<T>): Promise<PSHAggregateRow[]> {
+    await this.initialize()
+    return this.db.aggregate(this.name, spec, query as PSHDatabaseQuery)
   }
 
   async drop() {
@@ -81,24 +129,61 @@ export default class PSHCollection {
     await this.db.drop(this.name)
   }
 
-  async all<Data extends Pea>(): Promise<Data[]> {
+  async all<Data extends T=T>(): Promise<Data[]> {
     await this.initialize()
     return this.db.all(this.name)
   }
 
-  async get<Data extends Pea>(id: string): Promise<Data|null> {
+  async get<Data extends T=T>(id: string, options?: PSHGetOptions): Promise<Data|null> {
     await this.initialize()
-    return this.db.get(this.name, id)
+    return this.db.get(this.name, id, options)
   }
 
-  async findOne<T extends Pea>(query: PSHDatabaseQuery): Promise<T|null> {
+  async findOne<Data extends T=T>(query: PSHQueryFor<T>): Promise<Data|null> {
     await this.initialize()
-    return this.db.findOne(this.name, query)
+    return this.db.findOne(this.name, query as PSHDatabaseQuery)
   }
 
-  async find<Data extends Pea>(query: PSHDatabaseQuery): Promise<Data[]> {
+  async find<Data extends T=T>(query: PSHQueryFor<T>, options?: PSHQueryOptions): Promise<Data[]> {
     await this.initialize()
-    return this.db.find(this.name, query)
+    return this.db.find(this.name, query as PSHDatabaseQuery, options)
+  }
+
+  // documents in this collection whose declared references point at the referenced document
+  async refsTo<Data extends T=T>(ref: PSHRef|PSHRefData): Promise<Data[]> {
+    await this.initialize()
+    const backRefs = await this.db.refsTo<Data>(ref, [this.name])
+    return backRefs.map(backRef => backRef.doc).filter((doc, i, docs) => docs.findIndex(d => d.id === doc.id) === i)
+  }
+
+  // ranked full-text search over the collection's `fulltext` indexes
+  async search<Data extends T=T>(text: string, options?: PSHSearchOptions): Promise<PSHSearchResult<Data>[]> {
+    await this.initialize()
+    return this.db.search<Data>(this.name, text, options)
+  }
+
+  // re-encrypts rows written under an older key; resolves with how many were
+  async rotateKeys(): Promise<number> {
+    await this.initialize()
+    return this.db.rotateKeys(this.name)
+  }
+
+  // prior versions of a document, newest first; needs `history` on for the collection
+  async history<Data extends T=T>(id: string): Promise<PSHHistoryEntry<Data>[]> {
+    await this.initialize()
+    return this.db.history<Data>(this.name, id)
+  }
+
+  // saves a prior version, by its revision, as the document's newest one
+  async revert<Data extends T=T>(id: string, rev: number): Promise<Data> {
+    await this.initialize()
+    const current = await this.db.get<Data>(this.name, id)
+    if (current && current.rev === rev) return current
+    const entry = (await this.db.history<Data>(this.name, id)).find(e => e.doc.rev === rev)
+    if (!entry) {
+      throw new PSHNotFoundError(this.qualifiedName, id, `${this.qualifiedName}/${id} has no version ${rev}`)
+    }
+    return this.db.save(this.name, { ...entry.doc, saved: undefined }, { expectedRev: current ? current.rev : 0 })
   }
 
   async dateSaved(id: string) {
@@ -106,24 +191,70 @@ export default class PSHCollection {
     return this.db.dateSaved(this.name, id)
   }
 
-  toWrite<Data extends Pea>(id: string, ob: Data): PSHDeferredWrite {
+  toWrite<Data extends T=T>(id: string, ob: Data): PSHDeferredWrite {
     return this.db.toWrite(this.name, id, ob)
   }
 
-  async save<Data extends Pea>(ob: Data): Promise<Data> {
-    maybeLog('PSHCollection.save', this.qualifiedName, ob.id, ob)
+  validate(ob: T) {
+    if (!this.schema) return
+    const issues = PSHValidation.check(this.schema, ob)
+    if (issues.length > 0) {
+      throw new PSHValidationError(this.qualifiedName, ob.id, issues)
+    }
+  }
+
+  async save<Data extends T=T>(ob: Data, options?: PSHSaveOptions<Data>): Promise<Data> {
+    this.db.logger.log('PSHCollection.save', this.qualifiedName, ob.id, ob)
+    this.validate(ob)
+    // queued right away, so reads that follow see it; its batch initializes the collection
+    if (!(options && options.expectedRev !== undefined) && this.db.writesBehind(this.name)) {
+      return this.db.save(this.name, ob)
+    }
     await this.initialize()
-    return this.db.save(this.name, ob)
+    const { expectedRev, base, resolve = this.resolve as PSHConflictResolver<Data>|undefined } = { ...options }
+    let doc = ob
+    let rev = expectedRev
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.db.save(this.name, doc, { expectedRev: rev })
+      } catch (e) {
+        if (!(e instanceof PSHConflictError) || !resolve || attempt >= MAX_CONFLICT_ATTEMPTS) throw e
+        const resolved = resolve({ local: ob, current: e.current as Data|null, base })
+        if (!resolved) throw e
+        this.db.logger.log('PSHCollection.save/resolved conflict', this.qualifiedName, ob.id, e.actualRev)
+        this.validate(resolved)
+        doc = resolved
+        rev = e.actualRev
+      }
+    }
   }
 
-  async update(id: string, updates: Record<string,unknown>) {
-    maybeLog('PSHCollection.update', this.qualifiedName, id, updates)
+  // compare-and-set: a concurrent write in between re-reads the document and applies `updates` again
+  async update(id: string, updates: PSHUpdater<T>): Promise<T> {
+    this.db.logger.log('PSHCollection.update', this.qualifiedName, id, updates)
     await this.initialize()
-    const existing = await this.get(id)
-    if (!existing) {
-      throw Error(`PSHCollection.update: ${this.qualifiedName} missing value for id ${id}`)
+    for (let attempt = 1; ; attempt++) {
+      await this.db.settle(this.name)
+      const existing = await this.get(id)
+      if (!existing) {
+        throw new PSHNotFoundError(this.qualifiedName, id)
+      }
+      const updated = typeof updates === 'function' ? updates(existing) : { ...existing, ...updates } as T
+      this.validate(updated)
+      try {
+        return await this.db.save(this.name, updated, { expectedRev: existing.rev })
+      } catch (e) {
+        if (!(e instanceof PSHConflictError) || attempt >= MAX_CONFLICT_ATTEMPTS) throw e
+        this.db.logger.log('PSHCollection.update/retrying', this.qualifiedName, id, e.actualRev)
+      }
     }
-    return this.save({ ...existing, ...updates })
+  }
+
+  // saves by natural key: the document with the same `keyFields` values, which need a unique index, gets `doc` merged in
+  async upsertBy<Data extends T=T>(keyFields: string|string[], doc: PSHUpsert<Data>): Promise<Data> {
+    this.db.logger.log('PSHCollection.upsertBy', this.qualifiedName, keyFields, doc)
+    await this.initialize()
+    return this.db.upsertBy<Data>(this.name, typeof keyFields === 'string' ? [keyFields] : keyFields, doc)
   }
 
   async delete(id: string) {
@@ -131,9 +262,42 @@ export default class PSHCollection {
     await this.db.delete(this.name, id)
   }
 
-  async deleteOne(query: PSHDatabaseQuery) {
+  async deleteOne(query: PSHQueryFor<T>): Promise<string|null> {
+    await this.initialize()
+    return this.db.deleteOne(this.name, query as PSHDatabaseQuery)
+  }
+
+  async deleteMany(query: PSHQueryFor<T>): Promise<PSHBulkResult> {
+    await this.initialize()
+    return this.db.deleteMany(this.name, query as PSHDatabaseQuery)
+  }
+
+  async updateMany(query: PSHQueryFor<T>, updates: PSHUpdater<T>): Promise<PSHBulkResult> {
+    await this.initialize()
+    return this.db.updateMany<T>(this.name, query as PSHDatabaseQuery, updates)
+  }
+
+  async saveMany(docs: T[]): Promise<PSHBulkResult> {
+    docs.forEach(doc => this.validate(doc))
+    await this.initialize()
+    return this.db.saveMany<T>(this.name, docs)
+  }
+
+  async *export(query?: PSHQueryFor<T>): AsyncGenerator<string> {
+    await this.initialize()
+    yield PSHExport.toLine(PSHExport.header())
+    yield* this.db.exportCollection(this.name, query as PSHDatabaseQuery)
+  }
+
+  // imports every document of the source into this collection
+  async import(source: PSHImportSource, options?: PSHImportOptions): Promise<PSHImportResult> {
+    await this.initialize()
+    return this.db.import(source, { ...options, into: this.name })
+  }
+
+  async purgeExpired(): Promise<number> {
     await this.initialize()
-    await this.db.deleteOne(this.name, query)
+    return this.db.purgeExpired(this.name)
   }
 
   async wipe() {
@@ -141,37 +305,70 @@ export default class PSHCollection {
     await this.db.wipe(this.name)
   }
 
-  on<DataType extends Pea=Pea, Event extends PSHEvent<DataType>=PSHEvent<DataType>>(type: PSHEventType, call: (event: Event) => void): () => void {
-    maybeLog('PSHCollection.on', this.qualifiedName, type)
+  on<DataType extends T=T, Event extends PSHEvent<DataType>=PSHEvent<DataType>>(type: PSHEventType, call: (event: Event) => void): () => void {
+    this.db.logger.log('PSHCollection.on', this.qualifiedName, type)
     const ret = this.db.events.on(this.name, type, call)
-    maybeLog('PSHCollection.on/registered', this.qualifiedName, type, ret)
+    this.db.logger.log('PSHCollection.on/registered', this.qualifiedName, type, ret)
     return ret
   }
 
-  onDoc<Data extends Pea=Pea>(id: string, call: (object: Data|undefined) => void): () => void {
-    this.get<Data>(id).then(initialDoc => {
-      if (initialDoc) {
-        try {
-          call(initialDoc)
-        } catch (error) {
-          maybeError('PSHCollection.onDoc callback error:', error)
-        }
-      }
-    })
-    return this.db.events.onDocument<Data>(this.name, id, 'write', (event) => call(event.data))
-  }
-
-  onQuery<Object extends Pea=Pea>(query: PSHDatabaseQuery, call: (results: Object[]) => void|Promise<void>): () => void {
-    maybeLog('PSHCollection.onQuery', this.qualifiedName, query)
-    this.find<Object>(query).then(initialData => {
-      maybeLog('PSHCollection.onQuery/initialData', initialData.length)
-      call(initialData)
-    })
-    return this.on<Object>('write', async (event) => {
-      if (event.data && matchesQuery(event.data, query)) {
-        const results = await this.find<Object>(query)
-        call(results)
+  onDoc<Data extends T=T>(id: string, call: (object: Data|undefined) => void, onError?: (error: Error) => void): () => void {
+    let stopped = false
+    const notify = (doc: Data|undefined) => {
+      try {
+        call(doc)
+      } catch (error) {
+        this.db.logger.error('PSHCollection.onDoc callback error:', error)
       }
-    })
+    }
+    // a write or delete that lands before the initial read supersedes it
+    let superseded = false
+    this.get<Data>(id)
+      .then(initialDoc => { if (!stopped && !superseded) notify(initialDoc || undefined) })
+      .catch(error => {
+        this.db.logger.error('PSHCollection.onDoc initial read error:', error)
+        if (!stopped && onError) onError(error)
+      })
+    const unsubscribers = [
+      this.db.events.onDocument<Data>(this.name, id, 'write', (event) => { superseded = true; notify(event.data) }),
+      this.db.events.onDocument<Data>(this.name, id, 'delete', () => { superseded = true; notify(undefined) }),
+      this.db.events.onBatch(this.name, batch => {
+        if (batch.reload) {
+          superseded = false
+          this.get<Data>(id).then(doc => { if (!stopped && !superseded) notify(doc || undefined) }).catch(error => { if (!stopped && onError) onError(error) })
+        }
+      })
+    ]
+    return () => {
+      stopped = true
+      unsubscribers.forEach(unsubscribe => unsubscribe())
+    }
+  }
+
+  onQuery<Object extends T=T>(query: PSHQueryFor<T>, call: PSHLiveQueryListener<Object>, options?: PSHQueryOptions, onError?: PSHLiveQueryErrorListener): () => void {
+    this.db.logger.log('PSHCollection.onQuery', this.qualifiedName, query, options)
+    const live = new PSHLiveQuery<Object>(this.untyped, query as PSHDatabaseQuery, call, options, onError).start()
+    return () => live.stop()
+  }
+
+  onCount(query: PSHQueryFor<T>, call: PSHLiveResultListener<number>, onError?: PSHLiveResultErrorListener): () => void {
+    const live = new PSHLiveResult(this.untyped, () => this.count(query), call, onError).start()
+    return () => live.stop()
+  }
+
+  onDistinct(field: string, call: PSHLiveResultListener<PSHDatabaseQueryValue[]>, query?: PSHQueryFor<T>, onError?: PSHLiveResultErrorListener): () => void {
+    const live = new PSHLiveResult(this.untyped, () => this.distinct(field, query), call, onError).start()
+    return () => live.stop()
+  }
+
+  onAggregate(spec: PSHAggregateSpec, call: PSHLiveResultListener<PSHAggregateRow[]>, query?: PSHQueryFor<T>, onError?: PSHLiveResultErrorListener): () => void {
+    const live = new PSHLiveResult(this.untyped, () => this.aggregate(spec, query), call, onError).start()
+    return () => live.stop()
+  }
+
+  onSearch<Object extends T=T>(text: string, call: PSHLiveSearchListener<Object>, options?: PSHSearchOptions, onError?: PSHLiveSearchErrorListener): () => void {
+    this.db.logger.log('PSHCollection.onSearch', this.qualifiedName, text, options)
+    const live = new PSHLiveSearch<Object>(this.untyped, text, call, options, onError).start()
+    return () => live.stop()
   }
 }
\ No newline at end of file
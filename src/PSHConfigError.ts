@@ -0,0 +1,10 @@
+import PSHError from './PSHError'
+
+
+// a database or collection configured in a way that can't work, found as it's set up
+export default class PSHConfigError extends PSHError {
+  constructor(message: string, collection?: string) {
+    super(message, { collection })
+    this.name = 'PSHConfigError'
+  }
+}
\ No newline at end of file
@@ -0,0 +1,22 @@
+import PSHError from './PSHError'
+import Pea from './Pea'
+
+
+export default class PSHConflictError<T extends Pea=Pea> extends PSHError {
+  readonly collection: string
+  readonly id: string
+  readonly expectedRev: number
+  readonly actualRev: number
+  // the stored document, or null when it doesn't exist
+  readonly current: T|null
+
+  constructor(collection: string, id: string, expectedRev: number, actualRev: number, current: T|null) {
+    super(`${collection}/${id} expected revision ${expectedRev} but found ${actualRev}`, { collection, id })
+    this.name = 'PSHConflictError'
+    this.collection = collection
+    this.id = id
+    this.expectedRev = expectedRev
+    this.actualRev = actualRev
+    this.current = current
+  }
+}
\ No newline at end of file
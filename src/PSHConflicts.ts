@@ -0,0 +1,46 @@
+import { isEqual } from 'underscore'
+import Pea from './Pea'
+
+
+export interface PSHConflict<T extends Pea=Pea> {
+  // the document being saved
+  local: T
+  // what's stored now, or null if it was deleted
+  current: T|null
+  // the revision `local` was edited from, when the caller has it
+  base?: T
+}
+
+// returns the document to save over `current`, or null to give up and surface the conflict; it's
+// typed as a method so that a collection of a narrower type is still a PSHCollection<Pea>
+export type PSHConflictResolver<T extends Pea=Pea> = { resolve(conflict: PSHConflict<T>): T|null }['resolve']
+
+export interface PSHSaveOptions<T extends Pea=Pea> {
+  // fail with a PSHConflictError unless the stored revision is this one; 0 means the document must not exist yet
+  expectedRev?: number
+  base?: T
+  // overrides the collection's resolver for this save
+  resolve?: PSHConflictResolver<T>
+}
+
+const lastWriteWins = <T extends Pea>({ local }: PSHConflict<T>): T => local
+
+const fieldsOf = (doc: Pea): Record<string, unknown> => ({ ...doc })
+
+// applies the fields `local` changed from `base` over `current`; without a base every field of `local` counts as changed
+const mergeFields = <T extends Pea>({ local, current, base }: PSHConflict<T>): T => {
+  if (!current) return local
+  const fields = fieldsOf(local)
+  const baseFields = base && fieldsOf(base)
+  const changed = Object.keys(fields).filter(key => !baseFields || !isEqual(fields[key], baseFields[key]))
+  const removed = baseFields ? Object.keys(baseFields).filter(key => !(key in fields)) : []
+  const merged = fieldsOf(current)
+  changed.forEach(key => merged[key] = fields[key])
+  removed.forEach(key => delete merged[key])
+  return { ...merged, id: local.id } as T
+}
+
+export default {
+  lastWriteWins,
+  mergeFields,
+}
\ No newline at end of file
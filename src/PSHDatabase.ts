@@ -1,64 +1,227 @@
-import { get, union, uniq } from 'underscore'
+import { get, isEqual, omit, union, uniq } from 'underscore'
 
 import SQLColumnInfo from './types/sqlite/SQLColumnInfo'
 
 import PSHSQLiteWrapper from './PSHSQLiteWrapper'
-import PSHTransaction from './PSHTransaction'
-import PSHCollection from './PSHCollection'
+import PSHStorageAdapter, { PSHStorageAdapterFactory, PSHStorageConnectOptions } from './PSHStorageAdapter'
+import PSHTransaction, { PSHTransactionOptions } from './PSHTransaction'
+import PSHOplog from './PSHOplog'
+import PSHHistory, { PSHHistoryEntry, PSHHistoryOptions } from './PSHHistory'
+import PSHMetadata from './PSHMetadata'
+import PSHMigrations, { PSHMigrationProgress, PSHMigrationSpec } from './PSHMigrations'
+import PSHCollection, { PSHBulkResult, PSHUpdater, PSHUpsert } from './PSHCollection'
+import { PSHSaveOptions } from './PSHConflicts'
+import { PSHCollectionOptions } from './PSHValidation'
 import PSHIndexing, { PSHIndexSpec } from './PSHIndexing'
 import PSHDeferredWrite from './PSHDeferredWrite'
-import PSHDatabaseQuery from './PSHDatabaseQuery'
+import PSHDatabaseQuery, { PSHDatabaseQueryValue, PSHQueryExplanation, PSHQueryOptions } from './PSHDatabaseQuery'
+import PSHExport, { PSHImportOptions, PSHImportResult, PSHImportSource } from './PSHExport'
+import PSHSearch, { PSHSearchOptions, PSHSearchResult } from './PSHSearch'
+import PSHAggregate, { PSHAggregateRow, PSHAggregateSpec } from './PSHAggregate'
+import PSHRef from './PSHRef'
+import PSHRefs, { PSHBackRef, PSHPopulate, PSHRefData, PSHReferrer, PSHRefSpecs } from './PSHRefs'
 import PSHColumnDef from './PSHColumnDef'
+import PSHQueryPlan, { PSHQueryPlanRow } from './PSHQueryPlan'
+import PSHInstrumentedAdapter, { PSHInstrumentationOptions, PSHQueryStats } from './PSHInstrumentedAdapter'
+import PSHEncryption, { PSHEncryptionConfig } from './PSHEncryption'
+import PSHWriteQueue, { PSHWriteBehindOptions } from './PSHWriteQueue'
+import PSHDocumentCache, { PSHCacheOptions, PSHCacheStats } from './PSHDocumentCache'
+import PSHError from './PSHError'
+import PSHStorageFailure from './PSHStorageFailure'
 import Pea from './Pea'
-import { maybeLog, maybeError, maybeWarn, toSQLQueryable } from './shared'
+import { checkCollectionName, checkFieldPath, checkIndexPath, debugLogger, fieldColumn, project, PSHLogger, PSHSQLQueryable, queryFields, quoteName, toOrderTerms, toSQLAggregate, toSQLCount, toSQLDistinct, toSQLQueryable } from './shared'
 import PSHEventsLight from './events/PSHEventsLight'
+import PSHEvent from './events/PSHEvent'
 
 
+const CORE_COLUMNS = ['id', 'json', 'date', '_version', '_rev']
+const BATCH_SIZE = 500
+// SQLite caps bound parameters at 999 on older builds
+const DELETE_CHUNK_SIZE = 500
+
 export default class PSHDatabase {
   private static _promises: Record<string,Promise<PSHDatabase>> = {}
   
+  // a connect that fails is forgotten before its caller hears of it, so the next one tries again
   static async connect({ name, config }: { name: string, config?: PSHDatabaseConfig }) {
     let promise = this._promises[name]
     if (!promise) {
-      this._promises[name] = promise = new Promise<PSHDatabase>((resolve, reject) => {
-        maybeLog('PSHDatabase.connect', name)
-        const description = `P-Shooter Backing Store ${name}`
-        const params = { name: `${name}.db`, version: '1.0', description }
-        PSHSQLiteWrapper.connect(params)
-          .then(sqlDb => new PSHDatabase(sqlDb, config).initialize().then(resolve))
-          .catch(reject)
-      })
+      const logger = debugLogger(config && config.logger)
+      logger.log('PSHDatabase.connect', name)
+      const connectAdapter = config && config.adapter || PSHSQLiteWrapper.connect
+      const connecting: Promise<PSHDatabase> = promise = new Promise<PSHStorageAdapter>(resolve => resolve(connectAdapter(toConnectOptions(name))))
+        .then(sqlDb => new PSHDatabase(sqlDb, name, config).initialize())
+        .catch(e => {
+          logger.error('PSHDatabase.connect failed', name, e)
+          if (PSHDatabase._promises[name] === connecting) delete PSHDatabase._promises[name]
+          throw e
+        })
+      this._promises[name] = connecting
     }
     return promise
   }
 
+  // the databases connected, or connecting, in this process
+  static listDatabases(): string[] {
+    return Object.keys(this._promises)
+  }
+
+  /**
+   * Deletes a database: the file itself where the adapter can, its tables otherwise. One that's
+   * open is closed first, its queued saves written, and deleted through its own adapter.
+   */
+  static async deleteDatabase(name: string, adapter?: PSHStorageAdapterFactory) {
+    const connected: Promise<PSHDatabase>|undefined = this._promises[name]
+    const open = connected ? await connected.catch(() => undefined) : undefined
+    if (open) {
+      await open.close()
+    }
+    const connectAdapter: PSHStorageAdapterFactory = adapter || open && open.config.adapter || PSHSQLiteWrapper.connect
+    const sqlDb = await connectAdapter(toConnectOptions(name))
+    const logger = open ? open.logger : debugLogger()
+    logger.log('PSHDatabase.deleteDatabase', name)
+    if (sqlDb.drop) {
+      await sqlDb.drop()
+    } else {
+      await dropTables(sqlDb, logger)
+    }
+    if (sqlDb.close) {
+      await sqlDb.close()
+    }
+  }
+
   private readonly config: PSHDatabaseConfig
+  // debug output, to the configured logger
+  readonly logger: PSHLogger
+  readonly sqlDb: PSHInstrumentedAdapter
+  private readonly key: string
   private _initialized = 0
-  private collections: Record<string,PSHCollection> = {}
+  private _closed = false
+  private collections: Record<string,PSHCollection<Pea>> = {}
+  readonly meta: PSHMetadata
+  readonly oplog?: PSHOplog
+  readonly encryption?: PSHEncryption
+  private readonly writes?: PSHWriteQueue
+  private readonly histories: Record<string, PSHHistory> = {}
+  private readonly caches: Record<string, PSHDocumentCache> = {}
   events = new PSHEventsLight()
 
   get initialized() {
     return this._initialized
   }
   
-  private constructor(readonly sqlDb: PSHSQLiteWrapper, config?: PSHDatabaseConfig) {
+  private constructor(adapter: PSHStorageAdapter, key: string, config?: PSHDatabaseConfig) {
+    this.key = key
     this.config = { ...config }
+    validateConfig(this.config)
+    this.logger = debugLogger(this.config.logger)
+    const sqlDb = this.sqlDb = new PSHInstrumentedAdapter(adapter, this.config.instrumentation, this.logger)
+    this.meta = new PSHMetadata(sqlDb)
+    if (this.config.encryption) {
+      const encryption = this.encryption = new PSHEncryption(this.config.encryption)
+      Object.keys(this.config.encryption.collections).forEach(colName => {
+        // expiry and reference lookups are SQL filters on these paths
+        if (this.ttlForCollection(colName) !== undefined) encryption.checkOpen(colName, ['expiresAt'], 'expire')
+        encryption.checkOpen(colName, Object.keys(this.refsFor(colName)).flatMap(path => [`${path}.id`, `${path}.collection`]), 'declare references')
+        encryption.checkIndices(colName, this.indicesForCollection(colName))
+      })
+    }
+    if (this.config.oplog) {
+      this.oplog = new PSHOplog(sqlDb, this.encryption)
+    }
+    if (this.config.writeBehind) {
+      this.writes = new PSHWriteQueue(this, this.config.writeBehind)
+    }
+    Object.entries(this.config.history || {}).forEach(([colName, options]) => this.histories[colName] = new PSHHistory(sqlDb, colName, options))
+    Object.entries(this.config.cache || {}).forEach(([colName, options]) => {
+      const cache = this.caches[colName] = new PSHDocumentCache(colName, options)
+      this.events.onBatch(colName, batch => batch.reload ? cache.clear() : batch.events.forEach(event => cache.delete(event.id)))
+    })
+    Object.entries(this.config.migrations || {}).forEach(([colName, spec]) => PSHMigrations.validate(colName, spec))
   }
 
   get dbName() {
-    return this.sqlDb.sqlDb._db._name
+    return this.sqlDb.name
+  }
+
+  get closed() {
+    return this._closed
+  }
+
+  /**
+   * Writes queued saves, then closes the connection and drops every listener. Collections of
+   * this database, and live queries on them, reject from then on; connecting by the same name
+   * opens a fresh one, so logging out and back in doesn't reach the previous user's data.
+   */
+  async close() {
+    if (this._closed) return
+    await this.flush()
+    this._closed = true
+    this.logger.log('PSHDatabase.close', this.dbName)
+    const connected = PSHDatabase._promises[this.key]
+    if (connected && await connected.catch(() => undefined) === this && PSHDatabase._promises[this.key] === connected) {
+      delete PSHDatabase._promises[this.key]
+    }
+    this.events.clear()
+    this.collections = {}
+    Object.values(this.caches).forEach(cache => cache.clear())
+    await this.sqlDb.close()
   }
 
-  col(name: string) {
+  col<T extends Pea=Pea>(name: string, options?: PSHCollectionOptions<T>): PSHCollection<T> {
+    if (this._closed) {
+      throw new PSHError(`${this.dbName} is closed`)
+    }
     if (!this.collections[name]) {
+      checkCollectionName(name)
       // debug('PSHDatabase.col', name, `@${this.dbName}`)
-      this.collections[name] = new PSHCollection(this, name)
+      this.collections[name] = new PSHCollection<T>(this, name, options).untyped
+    } else if (options) {
+      const col = this.collections[name] as PSHCollection<T>
+      if (options.schema) col.schema = options.schema
+      if (options.resolve) col.resolve = options.resolve
     }
-    return this.collections[name]
+    return this.collections[name] as PSHCollection<T>
+  }
+
+  async count(colName: string, query: PSHDatabaseQuery = {}) {
+    await this.settle(colName)
+    const [sql, args] = toSQLCount(colName, this.scoped(colName, query), this.indexedPaths(colName))
+    const [{ total }] = await this.sqlDb.query<{ total: number }>(sql, args)
+    return total
+  }
+
+  async distinct(colName: string, field: string, query: PSHDatabaseQuery = {}): Promise<PSHDatabaseQueryValue[]> {
+    if (this.encryption) this.encryption.checkReadable(colName, [field])
+    await this.settle(colName)
+    const [sql, args] = toSQLDistinct(colName, field, this.scoped(colName, query), this.indexedPaths(colName))
+    const rows = await this.sqlDb.query<{ value: PSHDatabaseQueryValue }>(sql, args)
+    return rows.map(row => row.value)
   }
 
-  async count(colName: string) {
-    return this.sqlDb.count(`SELECT count(*) FROM ${colName}`)
+  // one row per group, or a single row for the whole query without `groupBy`
+  async aggregate(colName: string, spec: PSHAggregateSpec, query: PSHDatabaseQuery = {}): Promise<PSHAggregateRow[]> {
+    if (this.encryption) this.encryption.checkReadable(colName, PSHAggregate.toFields(spec))
+    await this.settle(colName)
+    const [sql, args] = toSQLAggregate(colName, this.scoped(colName, query), spec, this.indexedPaths(colName))
+    const rows = await this.sqlDb.query<Record<string, PSHDatabaseQueryValue>>(sql, args)
+      .catch(e => { this.logger.error('PSHDatabase.aggregate/error', sql, e); throw e })
+    return PSHAggregate.toRows(spec, rows)
+  }
+
+  // statements run, rows, time and errors per collection since the database opened or `resetStats`
+  stats(): Record<string, PSHQueryStats> {
+    return this.sqlDb.stats()
+  }
+
+  resetStats() {
+    this.sqlDb.resetStats()
+    Object.values(this.caches).forEach(cache => cache.resetStats())
+  }
+
+  // hits, misses and evictions of the collections that cache documents
+  cacheStats(): Record<string, PSHCacheStats> {
+    return Object.fromEntries(Object.entries(this.caches).map(([colName, cache]) => [colName, cache.stats()]))
   }
 
   async describe(colName: string) {
@@ -67,143 +230,745 @@ export default class PSHDatabase {
 
   private async initialize(force?: boolean) {
     if (this._initialized === 0 || force) {
-      maybeLog('PSHDatabase.initialize', this.dbName)
+      this.logger.log('PSHDatabase.initialize', this.dbName)
+      await this.meta.initialize()
+      if (this.oplog) {
+        await this.oplog.initialize()
+      }
       await Promise.all(this.collectionsToInitialize().map(c => this.create(c)))
+      for (const [colName, spec] of Object.entries(this.config.migrations || {})) {
+        if (spec.strategy !== 'lazy') {
+          await this.migrate(colName, spec)
+        }
+      }
+      // an expired cache shouldn't keep the database from opening
+      await this.purgeExpired().catch(e => this.logger.error('PSHDatabase.initialize/purgeExpired', this.dbName, e))
+      for (const history of Object.values(this.histories)) {
+        await history.prune().catch(e => this.logger.error('PSHDatabase.initialize/pruneHistory', this.dbName, history.colName, e))
+      }
       this._initialized = Date.now()
     }
     return this
   }
 
   async reset() {
-    const tables = await this.tables()
-    let failedTables: string[] = []
-    for (const table of tables.filter(t => t !== 'sqlite_sequence')) {
-      await this.sqlDb.run(`DROP TABLE IF EXISTS ${table}`).catch(() => { if (!failedTables.includes(table)) { failedTables.push(table) }})
-    }
-
-    for (const table of failedTables.reverse()) {
-      maybeLog('PSHDatabase.reset/retry drop', table)
-      await this.sqlDb.run(`DROP TABLE IF EXISTS ${table}`)
-        .then(() => failedTables = failedTables.filter(t => t !== table))
-        .catch(() => maybeWarn('PSHDatabase.reset/failed drop', table))
-    }
+    await dropTables(this.sqlDb, this.logger)
+    // every cached document is gone, whether or not its collection was opened here
+    Object.values(this.caches).forEach(cache => cache.clear())
+    const reloaded = Object.keys(this.collections)
     this.collections = {}
     await this.initialize(true)
+    reloaded.forEach(colName => this.emitReload(colName))
+  }
+
+  private emitReload(colName: string) {
+    this.events.emitBatch({ col: colName, date: Date.now(), events: [], reload: true })
   }
 
   private collectionsToInitialize(): string[] {
-    return this.config && this.config.indices ? Object.keys(this.config.indices) : []
+    return union(Object.keys(this.config.indices || {}), Object.keys(this.config.migrations || {}), Object.keys(this.config.ttl || {}), Object.keys(this.config.history || {}), Object.keys(this.config.refs || {}))
+  }
+
+  private ttlForCollection(name: string): number|undefined {
+    return this.config.ttl && this.config.ttl[name]
+  }
+
+  // the query live documents match, for collections that expire
+  private unexpired(colName: string, now = Date.now()): PSHDatabaseQuery|undefined {
+    const ttl = this.ttlForCollection(colName)
+    if (ttl === undefined) return undefined
+    return { $or: [{ expiresAt: ['>', now] }, ttl > 0 ? { expiresAt: null, saved: ['>', now - ttl] } : { expiresAt: null }] }
+  }
+
+  // not simply the negation of `unexpired`, which is NULL rather than true for a missing `expiresAt`
+  private expired(colName: string, now = Date.now()): PSHDatabaseQuery|undefined {
+    const ttl = this.ttlForCollection(colName)
+    if (ttl === undefined) return undefined
+    return ttl > 0 ? { $or: [{ expiresAt: ['<=', now] }, { expiresAt: null, saved: ['<=', now - ttl] }] } : { expiresAt: ['<=', now] }
+  }
+
+  isExpired(colName: string, doc: Pea, now = Date.now()) {
+    const ttl = this.ttlForCollection(colName)
+    if (ttl === undefined) return false
+    if (typeof doc.expiresAt === 'number') return doc.expiresAt <= now
+    return ttl > 0 && doc.saved !== undefined && doc.saved + ttl <= now
+  }
+
+  /**
+   * Deletes expired documents in batches, emitting a delete event for each, from one
+   * collection or every collection with a ttl. Runs on initialize; reads hide expired
+   * documents in between.
+   */
+  async purgeExpired(colName?: string): Promise<number> {
+    const names = colName ? [colName] : Object.keys(this.config.ttl || {})
+    let purged = 0
+    for (const name of names) {
+      const expired = this.expired(name)
+      if (!expired) continue
+      const [sql, args] = toSQLQueryable(name, expired, { orderBy: 'id', limit: BATCH_SIZE }, this.indexedPaths(name))
+      for (;;) {
+        const rows = await this.sqlDb.query<Wrapped>(sql, args)
+        if (rows.length === 0) break
+        const tx = this.transaction()
+        rows.forEach(row => tx.delete(this.col(name), row.id))
+        await tx.execute()
+        purged += rows.length
+        if (rows.length < BATCH_SIZE) break
+      }
+    }
+    if (purged > 0) {
+      this.logger.log('PSHDatabase.purgeExpired', this.dbName, colName || 'all', purged)
+    }
+    return purged
   }
 
-  private indicesForCollection(name: string) {
-    return this.config && this.config.indices && this.config.indices[name] || []
+  private migrationsForCollection(name: string): PSHMigrationSpec|undefined {
+    return this.config.migrations && this.config.migrations[name]
+  }
+
+  private async migrate(colName: string, spec: PSHMigrationSpec) {
+    const metaKey = `version.${colName}`
+    const applied = await this.meta.get<number>(metaKey)
+    if (applied !== undefined && applied >= spec.version) {
+      return
+    }
+    const outdated = `FROM ${quoteName(colName)} WHERE (_version IS NULL OR _version < ?)`
+    const [{ total }] = await this.sqlDb.query<{ total: number }>(`SELECT count(*) AS total ${outdated}`, [spec.version])
+    this.logger.log('PSHDatabase.migrate', this.dbName, colName, 'to version', spec.version, total, 'documents')
+    const report = (done: number) => this.config.onMigrationProgress && this.config.onMigrationProgress({ collection: colName, version: spec.version, done, total })
+    const unwrapLatest = this.unwrapper(colName)
+    const paths = this.fulltextPaths(colName)
+    let after = ''
+    let done = 0
+    report(done)
+    for (;;) {
+      const batch = await this.sqlDb.query<Wrapped>(`SELECT id, json, date, _version, _rev ${outdated} AND id > ? ORDER BY id LIMIT ?`, [spec.version, after, BATCH_SIZE])
+      if (batch.length === 0) break
+      // rewritten in place at the same revision and date: an upgrade isn't an edit to sync, keep or announce
+      await this.sqlDb.transaction(tx => batch.forEach(wrapper => {
+        const doc = unwrapLatest(wrapper)
+        const writes = [this.toWrite(colName, wrapper.id, doc, wrapper._rev || 0, wrapper.date)]
+        if (paths.length > 0) {
+          writes.push({ sql: `DELETE FROM ${quoteName(PSHIndexing.toFulltextTable(colName))} WHERE id = ?`, args: [wrapper.id] }, this.toFulltextWrite(colName, wrapper.id, doc, paths))
+        }
+        writes.forEach(({ sql, args }) => tx.executeSql(sql, args))
+      }))
+      after = batch[batch.length - 1].id
+      done += batch.length
+      report(done)
+    }
+    await this.meta.set(metaKey, spec.version)
+  }
+
+  unwrapper<Data extends Pea>(colName: string) {
+    const spec = this.migrationsForCollection(colName)
+    const encryption = this.encryption && this.encryption.encrypts(colName) ? this.encryption : undefined
+    return (wrapper: Wrapped): Data => {
+      const ob = unwrap<Data>(wrapper, encryption && (stored => encryption.decrypt(colName, stored)))
+      const version = wrapper._version || 0
+      return spec && version < spec.version ? { ...PSHMigrations.upgrade(ob, version, spec), saved: wrapper.date, rev: ob.rev } : ob
+    }
+  }
+
+  // like `unwrapper`, reusing cached documents still at the row's revision and caching the rest;
+  // made before the rows are read, so that a change landing meanwhile keeps them out of the cache
+  private reader<Data extends Pea>(colName: string): (wrapper: Wrapped) => Data {
+    const unwrap = this.unwrapper<Data>(colName)
+    const cache = this.caches[colName]
+    if (!cache) return unwrap
+    const generation = cache.generation
+    return wrapper => cache.revision<Data>(wrapper.id, wrapper._rev || 0, wrapper.date) || cache.set(unwrap(wrapper), generation)
+  }
+
+  private indicesForCollection(name: string): PSHIndexSpec[] {
+    const configured = this.config.indices && this.config.indices[name] || []
+    // reverse lookups query each declared reference by id
+    const refIndices = Object.keys(this.refsFor(name)).map(path => PSHIndexing.make(`${path}.id`)).filter(ix => !configured.some(c => isEqual(c, ix)))
+    return configured.concat(refIndices)
+  }
+
+  refsFor(colName: string): PSHRefSpecs {
+    return this.config.refs && this.config.refs[colName] || {}
+  }
+
+  // the declared references to a collection, from every collection
+  referrersOf(colName: string): PSHReferrer[] {
+    return Object.entries(this.config.refs || {}).flatMap(([collection, specs]) => Object.entries(specs)
+      .filter(([, spec]) => spec.to === colName)
+      .map(([path, spec]) => ({ collection, path, onDelete: spec.onDelete })))
+  }
+
+  // wipe and drop remove rows wholesale, without following cascades; a restricting reference from another collection still stops them
+  private async checkUnreferenced(colName: string) {
+    for (const referrer of this.referrersOf(colName).filter(r => r.onDelete === 'restrict' && r.collection !== colName)) {
+      const referring = this.col(referrer.collection)
+      const [found] = await referring.find({ [`${referrer.path}.collection`]: colName }, { limit: 1 })
+      if (found) {
+        throw new PSHError(`${referring.qualifiedName}/${found.id} still refers to ${this.col(colName).qualifiedName} by ${referrer.path}`, { collection: referring.qualifiedName, id: found.id })
+      }
+    }
+  }
+
+  // documents whose declared references point at the referenced document
+  async refsTo<Data extends Pea>(ref: PSHRef|PSHRefData, collections?: string[]): Promise<PSHBackRef<Data>[]> {
+    const { collection, id } = ref instanceof PSHRef ? ref.toJSON() : ref
+    const backRefs: PSHBackRef<Data>[] = []
+    for (const referrer of this.referrersOf(collection).filter(r => !collections || collections.includes(r.collection))) {
+      const docs = await this.col(referrer.collection).find<Data>({ [`${referrer.path}.id`]: id, [`${referrer.path}.collection`]: collection })
+      docs.forEach(doc => backRefs.push({ collection: referrer.collection, path: referrer.path, doc }))
+    }
+    return backRefs
+  }
+
+  async populate<Data extends Pea>(colName: string, docs: Data[], populate: PSHPopulate): Promise<Data[]> {
+    return PSHRefs.populate(this, colName, docs, populate)
+  }
+
+  // the indexes kept in columns of the collection's table, as opposed to its full-text table
+  private columnIndices(name: string) {
+    return this.indicesForCollection(name).filter(ix => !ix.fulltext)
+  }
+
+  private indexedPaths(name: string): string[] {
+    return uniq(union(...this.columnIndices(name).map(PSHIndexing.toPaths)))
+  }
+
+  private fulltextPaths(name: string): string[] {
+    return fulltextPaths(this.indicesForCollection(name))
   }
 
   private async columns(name: string): Promise<PSHColumnDef[]> {
-    return this.sqlDb.query<SQLColumnInfo>(`PRAGMA table_info(${name})`).then(cols => cols.map(c => ({ name: c.name, type: c.type })))
+    return this.sqlDb.query<SQLColumnInfo>(`PRAGMA table_info(${quoteName(name)})`).then(cols => cols.map(c => ({ name: c.name, type: c.type })))
   }
 
   async create(colName: string) {
     // const qName = this.qualified(colName)
     // log('PSHDatabase.create', qName)
-    const createSQL = `CREATE TABLE IF NOT EXISTS ${colName} (id VARCHAR(32) PRIMARY KEY, json TEXT NOT NULL, date INTEGER NOT NULL)`
+    const existingColumns = await this.columns(colName)
+    const createSQL = `CREATE TABLE IF NOT EXISTS ${quoteName(colName)} (id VARCHAR(32) PRIMARY KEY, json TEXT NOT NULL, date INTEGER NOT NULL, _version INTEGER, _rev INTEGER)`
     await this.sqlDb.run(createSQL)
+    if (existingColumns.length > 0 && !existingColumns.find(c => c.name === '_version')) {
+      await this.addColumn(colName, '_version INTEGER')
+    }
+    if (existingColumns.length > 0 && !existingColumns.find(c => c.name === '_rev')) {
+      // rows that predate revisions start at 1, like any saved document
+      await this.addColumn(colName, '_rev INTEGER')
+      await this.sqlDb.run(`UPDATE ${quoteName(colName)} SET _rev = 1 WHERE _rev IS NULL`)
+    }
+    if (this.histories[colName]) {
+      await this.histories[colName].initialize()
+    }
 
-    const indices = this.indicesForCollection(colName)
-    const existingColumns = await this.columns(colName)
+    const specs = this.indicesForCollection(colName)
+    const metaKey = `indices.${colName}`
+    const applied = existingColumns.length > 0 ? await this.meta.get<PSHIndexSpec[]>(metaKey) : undefined
+    if (applied && JSON.stringify(applied) === JSON.stringify(specs)) {
+      return
+    }
+
+    const indices = specs.filter(ix => !ix.fulltext)
     const indexColumns = uniq(union(...indices.map(PSHIndexing.toColumns)), false, col => col.name)
-    maybeLog('PSHDatabase.create', this.dbName, colName, 'existing columns', existingColumns.map(c => c.name))
-    maybeLog('PSHDatabase.create', this.dbName, colName, 'to-index columns', indexColumns.map(c => c.name))
-    const addColumn = async (colDef: PSHColumnDef) => this.sqlDb.try(`ALTER TABLE ${colName} ADD COLUMN ${colDef.name}`)
-    await Promise.all(indexColumns.filter(colDef => !existingColumns.find(c => c.name === colDef.name)).map(addColumn))
+    // without a recorded schema, every non-core column on an existing table was put there for an index
+    const appliedColumns = applied
+      ? uniq(union(...applied.filter(ix => !ix.fulltext).map(PSHIndexing.toColumns)), false, col => col.name).map(c => c.name)
+      : existingColumns.map(c => c.name).filter(name => !CORE_COLUMNS.includes(name))
+    const staleColumns = appliedColumns.filter(name => !indexColumns.find(c => c.name === name) && existingColumns.find(c => c.name === name))
+    const backfillColumns = existingColumns.length > 0 ? indexColumns.filter(c => !applied || !appliedColumns.includes(c.name)) : []
+    this.logger.log('PSHDatabase.create', this.dbName, colName, 'existing columns', existingColumns.map(c => c.name))
+    this.logger.log('PSHDatabase.create', this.dbName, colName, 'to-index columns', indexColumns.map(c => c.name))
+
+    const indexNames = indices.map(ix => PSHIndexing.toIndexName(ix, colName))
+    const existingIndexes = await this.sqlDb.query<{ name: string, origin: string }>(`PRAGMA index_list(${quoteName(colName)})`)
+    const staleIndexes = existingIndexes.filter(ix => ix.origin === 'c' && !indexNames.includes(ix.name)).map(ix => ix.name)
+    for (const index of staleIndexes) {
+      this.logger.log('PSHDatabase.create', this.dbName, colName, 'dropping index', index)
+      await this.sqlDb.run(`DROP INDEX IF EXISTS ${quoteName(index)}`)
+    }
+    for (const column of staleColumns) {
+      this.logger.log('PSHDatabase.create', this.dbName, colName, 'dropping column', column)
+      // DROP COLUMN needs SQLite 3.35; older engines keep the column but not its data
+      if (!await this.sqlDb.try(`ALTER TABLE ${quoteName(colName)} DROP COLUMN ${quoteName(column)}`)) {
+        await this.sqlDb.run(`UPDATE ${quoteName(colName)} SET ${quoteName(column)} = NULL`)
+      }
+    }
+
+    const addColumns = indexColumns.filter(colDef => !existingColumns.find(c => c.name === colDef.name))
+    await Promise.all(addColumns.map(colDef => this.addColumn(colName, quoteName(colDef.name))))
+    if (backfillColumns.length > 0) {
+      await this.backfill(colName, backfillColumns)
+    }
     const UNQ = (ix: PSHIndexSpec) => ix.unique ? 'UNIQUE' : ''
     await Promise.all(indices.map(ix => this.sqlDb.run(`CREATE ${UNQ(ix)} INDEX IF NOT EXISTS ${PSHIndexing.toIndex(ix, colName)}`)))
+    const paths = fulltextPaths(specs)
+    if (!applied || JSON.stringify(fulltextPaths(applied)) !== JSON.stringify(paths)) {
+      await this.rebuildFulltext(colName, paths)
+    }
+    await this.meta.set(metaKey, specs)
+  }
+
+  // the document a stored row holds, decrypted
+  private stored(colName: string, json: string): Record<string, unknown> {
+    const ob: Record<string, unknown> = JSON.parse(json)
+    return this.encryption ? this.encryption.decrypt(colName, ob) : ob
+  }
+
+  // encrypted paths are indexed by their blind hashes
+  private indexValues(colName: string, ob: object, columns: PSHColumnDef[]): unknown[] {
+    const encryption = this.encryption
+    return columns.map(c => {
+      const path = PSHIndexing.fieldToIndexPath(c.name)
+      const value = get(ob, path.split('.'))
+      return encryption && encryption.isEncrypted(colName, path) ? encryption.hash(value) : value
+    })
+  }
+
+  // a concurrent create may have added the column already; anything else is a real failure
+  private async addColumn(colName: string, definition: string) {
+    await this.sqlDb.run(`ALTER TABLE ${quoteName(colName)} ADD COLUMN ${definition}`).catch(e => {
+      if (!`${e.message}`.includes('duplicate column name')) throw e
+      this.logger.log('PSHDatabase.addColumn: duplicate column name', colName, definition)
+    })
+  }
+
+  // FTS5 tables can't be altered, so new full-text paths mean a new table filled from the documents
+  private async rebuildFulltext(colName: string, paths: string[]) {
+    const table = quoteName(PSHIndexing.toFulltextTable(colName))
+    await this.sqlDb.run(`DROP TABLE IF EXISTS ${table}`)
+    if (paths.length === 0) return
+    this.logger.log('PSHDatabase.rebuildFulltext', this.dbName, colName, paths)
+    await this.sqlDb.run(`CREATE VIRTUAL TABLE ${table} USING fts5(id UNINDEXED, ${paths.map(path => quoteName(PSHIndexing.indexPathToField(path))).join(', ')})`)
+      .catch(e => { throw new PSHStorageFailure(`${colName} has a full-text index, which needs SQLite with FTS5 (${e.message})`, { collection: colName, sql: e.sql, cause: e }) })
+    let after = ''
+    for (;;) {
+      const batch = await this.sqlDb.query<Wrapped>(`SELECT id, json FROM ${quoteName(colName)} WHERE id > ? ORDER BY id LIMIT ?`, [after, BATCH_SIZE])
+      if (batch.length === 0) break
+      await this.sqlDb.transaction(tx => batch.forEach(row => {
+        const { sql, args } = this.toFulltextWrite(colName, row.id, this.stored(colName, row.json), paths)
+        tx.executeSql(sql, args)
+      }))
+      after = batch[batch.length - 1].id
+    }
+  }
+
+  private toFulltextWrite(colName: string, id: string, ob: object, paths: string[]): PSHDeferredWrite {
+    const columns = ['id'].concat(paths.map(path => quoteName(PSHIndexing.indexPathToField(path))))
+    return {
+      sql: `INSERT INTO ${quoteName(PSHIndexing.toFulltextTable(colName))} (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')})`,
+      args: [id as unknown].concat(paths.map(path => fulltextValue(ob, path)))
+    }
+  }
+
+  private async backfill(colName: string, columns: PSHColumnDef[]) {
+    this.logger.log('PSHDatabase.backfill', this.dbName, colName, columns.map(c => c.name))
+    const sql = `UPDATE ${quoteName(colName)} SET ${columns.map(c => `${quoteName(c.name)} = ?`).join(', ')} WHERE id = ?`
+    let after = ''
+    let count = 0
+    for (;;) {
+      const batch = await this.sqlDb.query<Wrapped>(`SELECT id, json FROM ${quoteName(colName)} WHERE id > ? ORDER BY id LIMIT ?`, [after, BATCH_SIZE])
+      if (batch.length === 0) break
+      await this.sqlDb.transaction(tx => batch.forEach(row => tx.executeSql(sql, this.indexValues(colName, this.stored(colName, row.json), columns).concat([row.id]))))
+      after = batch[batch.length - 1].id
+      count += batch.length
+    }
+    this.logger.log('PSHDatabase.backfill', this.dbName, colName, 'done', count)
   }
 
   async drop(colName: string) {
-    await this.sqlDb.run(`DROP TABLE IF EXISTS ${colName}`)
+    await this.checkUnreferenced(colName)
+    if (this.oplog && (await this.tables()).includes(colName)) {
+      const { sql, args } = this.oplog.toAppendDeleteAll(colName)
+      await this.sqlDb.run(sql, args)
+    }
+    await this.sqlDb.run(`DROP TABLE IF EXISTS ${quoteName(colName)}`)
+    await this.sqlDb.run(`DROP TABLE IF EXISTS ${quoteName(PSHIndexing.toFulltextTable(colName))}`)
+    await this.sqlDb.run(`DROP TABLE IF EXISTS ${quoteName(PSHHistory.toTable(colName))}`)
+    await this.meta.delete(`indices.${colName}`)
+    await this.meta.delete(`version.${colName}`)
+    this.emitReload(colName)
   }
 
   async all<Data extends Pea>(colName: string): Promise<Data[]> {
-    const allJson = await this.sqlDb.query<Wrapped>(`SELECT id, json, date FROM ${colName}`)
-    return allJson.map(unwrap<Data>).filter(x => !!x)
+    await this.settle(colName)
+    const read = this.reader<Data>(colName)
+    const allJson = await this.sqlDb.query<Wrapped>(`SELECT id, json, date, _version, _rev FROM ${quoteName(colName)}`)
+    const now = Date.now()
+    return allJson.map(read).filter(x => !!x && !this.isExpired(colName, x, now))
   }
   
-  async get<Data extends Pea>(colName: string, id: string): Promise<Data|null> {
-    return this.sqlDb.get<Wrapped>(`SELECT id, json, date FROM ${colName} WHERE id = ?`, [id]).then(x => x ? unwrap<Data>(x) : null)
+  async get<Data extends Pea>(colName: string, id: string, options?: PSHGetOptions): Promise<Data|null> {
+    const queued = this.writes ? this.writes.get<Data>(colName, id) : undefined
+    const cache = this.caches[colName]
+    const generation = cache ? cache.generation : 0
+    const cached = queued === undefined && cache ? cache.get<Data>(id) : undefined
+    const unwrap = this.unwrapper<Data>(colName)
+    const found = queued || cached || await this.sqlDb.get<Wrapped>(`SELECT id, json, date, _version, _rev FROM ${quoteName(colName)} WHERE id = ?`, [id])
+      .then(x => x ? (cache ? cache.set(unwrap(x), generation) : unwrap(x)) : null)
+    const doc = found && !this.isExpired(colName, found) ? found : null
+    if (doc && options && options.populate) {
+      const [populated] = await this.populate(colName, [doc], options.populate)
+      return populated
+    }
+    return doc
   }
 
-  async explain(colName: string, query: PSHDatabaseQuery) {
-    const [querySql, args] = toSQLQueryable(colName, query)
-    const explainQuery = `explain query plan ${querySql}`
-    const ret = await this.sqlDb.query<object>(explainQuery, args)
-    maybeLog('explain', colName, query, ret)
+  async explain(colName: string, query: PSHDatabaseQuery, options?: PSHQueryOptions): Promise<PSHQueryExplanation> {
+    const indexed = this.indexedPaths(colName)
+    const [sql, args] = this.toQuery(colName, query, options)
+    const rows = await this.sqlDb.query<PSHQueryPlanRow>(`EXPLAIN QUERY PLAN ${sql}`, args)
+    const plan = rows.map(r => r.detail)
+    // "SEARCH col USING INDEX name (a=? AND b>?)" names the columns an index constrained
+    const searched = plan.map(PSHQueryPlan.toStep).flatMap(step => step.constraints || [])
+    const fields = queryFields(query, options)
+    const isIndexed = (field: string) => {
+      const column = fieldColumn(field, indexed)
+      return !!column && searched.includes(column)
+    }
+    return {
+      sql,
+      args,
+      plan,
+      steps: PSHQueryPlan.toSteps(rows),
+      indexed: fields.filter(isIndexed),
+      scanned: fields.filter(f => !isIndexed(f))
+    }
+  }
+
+  // the query limited to documents that haven't expired, matching blind indexes by their hashes
+  private scoped(colName: string, query: PSHDatabaseQuery): PSHDatabaseQuery {
+    const blind = this.encryption ? this.encryption.toBlindQuery(colName, query, this.indexedPaths(colName)) : query
+    const unexpired = this.unexpired(colName)
+    return unexpired ? { $and: [blind, unexpired] } : blind
+  }
+
+  toQuery(colName: string, query: PSHDatabaseQuery, options?: PSHQueryOptions): PSHSQLQueryable {
+    if (this.encryption) {
+      this.encryption.checkReadable(colName, toOrderTerms(options && options.orderBy).map(([field]) => field))
+    }
+    return toSQLQueryable(colName, this.scoped(colName, query), options, this.indexedPaths(colName))
   }
 
   async findOne<Data extends Pea>(colName: string, query: PSHDatabaseQuery): Promise<Data|null> {
-    const [sql, args] = toSQLQueryable(colName, query)
+    const [sql, args] = this.toQuery(colName, query)
+    await this.settle(colName)
+    const read = this.reader<Data>(colName)
     const matches = await this.sqlDb.query<Wrapped>(sql, args)
-      .then(rs => rs.map(unwrap<Data>))
-      .catch(e => { maybeError('PSHDatabase.findOne/error(query)', sql, e); throw e })
+      .then(rs => rs.map(read))
+      .catch(e => { this.logger.error('PSHDatabase.findOne/error(query)', sql, e); throw e })
     if (matches.length > 1) {
-      maybeWarn('PSHDatabase.findOne removing', matches.length-1, 'dupes for', colName, query)
-      await Promise.all(matches.slice(1).map(t => this.delete(colName, t.id!)))
+      this.logger.warn('PSHDatabase.findOne found', matches.length, 'matches for', colName, query)
+      if (this.config.onDuplicates) {
+        this.config.onDuplicates({ collection: colName, query, ids: matches.map(match => match.id) })
+      }
     }
-
-    // debug('PSHDatabase.findOne', sql, args)
-    return this.sqlDb.get<Wrapped>(sql, args).then(x => x ? unwrap<Data>(x) : null).catch(e => { maybeError('PSHDatabase.findOne/error', sql, e); throw e })
+    return matches.length > 0 ? matches[0] : null
   }
 
-  async find<Data extends Pea>(colName: string, query: PSHDatabaseQuery): Promise<Data[]> {
-    const [sql, args] = toSQLQueryable(colName, query)
+  async find<Data extends Pea>(colName: string, query: PSHDatabaseQuery, options?: PSHQueryOptions): Promise<Data[]> {
+    const [sql, args] = this.toQuery(colName, query, options)
+    await this.settle(colName)
     // log('PSHDatabase.find', sql, args)
-    return this.sqlDb.query<Wrapped>(sql, args).then(res => res.map(unwrap<Data>)).catch(e => { maybeError('PSHDatabase.find/error', sql, e); throw e })
+    const fields = options && options.fields
+    const read = this.reader<Data>(colName)
+    const docs = await this.sqlDb.query<Wrapped>(sql, args)
+      .then(res => res.map(read).map(ob => project(ob, fields)))
+      .catch(e => { this.logger.error('PSHDatabase.find/error', sql, e); throw e })
+    return options && options.populate ? this.populate(colName, docs, options.populate) : docs
   }
 
   async dateSaved(colName: string, id: string) {
-    const record = await this.sqlDb.get<{ date: number }>(`SELECT date FROM ${colName} WHERE id = ?`, [id])
+    await this.settle(colName)
+    const record = await this.sqlDb.get<{ date: number }>(`SELECT date FROM ${quoteName(colName)} WHERE id = ?`, [id])
     return record ? record.date : null
   }
 
-  async save<Data extends Pea>(colName: string, ob: Data): Promise<Data> {
-    const { sql, args } = this.toWrite(colName, ob.id, ob)
-    await this.sqlDb.run(sql, args)
-    this.events.emit({ col: colName, id: ob.id, type: 'write', date: Date.now(), data: ob })
-    return ob
+  async save<Data extends Pea>(colName: string, ob: Data, options?: PSHSaveOptions<Data>): Promise<Data> {
+    // a save that checks the stored revision can't wait to be written
+    if (this.writes && this.writesBehind(colName) && !(options && options.expectedRev !== undefined)) {
+      return this.writes.save(this.col<Data>(colName), ob)
+    }
+    const tx = this.transaction()
+    tx.save(this.col<Data>(colName), ob, options && options.expectedRev)
+    const [event] = await tx.execute()
+    return { ...ob, rev: event.data!.rev }
+  }
+
+  async upsertBy<Data extends Pea>(colName: string, keyFields: string[], doc: PSHUpsert<Data>): Promise<Data> {
+    const tx = this.transaction()
+    tx.upsertBy(this.col<Data>(colName), keyFields, doc)
+    const [event] = await tx.execute()
+    return event.data as Data
   }
 
   async delete(colName: string, id: string) {
-    maybeLog('PSHDB: delete', { colName, id })
-    await this.sqlDb.run(`DELETE FROM ${colName} WHERE id = ?`, [id])
-    this.events.emit({ col: colName, id, type: 'delete', date: Date.now() })
+    this.logger.log('PSHDB: delete', { colName, id })
+    const tx = this.transaction()
+    tx.delete(this.col(colName), id)
+    await tx.execute()
+  }
+
+  async deleteOne(colName: string, query: PSHDatabaseQuery): Promise<string|null> {
+    const tx = this.transaction()
+    tx.deleteMany(this.col(colName), query, { limit: 1 })
+    const events = await tx.execute()
+    return events.length > 0 ? events[0].id : null
+  }
+
+  async deleteMany(colName: string, query: PSHDatabaseQuery): Promise<PSHBulkResult> {
+    const tx = this.transaction()
+    tx.deleteMany(this.col(colName), query)
+    return toBulkResult(await tx.execute())
+  }
+
+  async updateMany<Data extends Pea>(colName: string, query: PSHDatabaseQuery, updates: PSHUpdater<Data>): Promise<PSHBulkResult> {
+    const tx = this.transaction()
+    tx.updateMany(this.col<Data>(colName), query, updates)
+    return toBulkResult(await tx.execute())
+  }
+
+  async saveMany<Data extends Pea>(colName: string, docs: Data[]): Promise<PSHBulkResult> {
+    const tx = this.transaction()
+    docs.forEach(doc => tx.save(this.col<Data>(colName), doc))
+    return toBulkResult(await tx.execute())
+  }
+
+  async *export(collections?: string[]): AsyncGenerator<string> {
+    yield PSHExport.toLine(PSHExport.header())
+    const names = collections || (await this.tables()).filter(name => !name.startsWith('_psh_') && !name.startsWith('sqlite_'))
+    for (const name of names) {
+      await this.col(name).initialize()
+      yield* this.exportCollection(name)
+    }
+  }
+
+  // pages through the collection by id, so exports don't hold whole collections in memory
+  async *exportCollection(colName: string, query: PSHDatabaseQuery = {}): AsyncGenerator<string> {
+    yield PSHExport.toLine({ kind: 'collection', name: colName, indices: this.indicesForCollection(colName) })
+    let after = ''
+    for (;;) {
+      const page = await this.find(colName, { $and: [query, { id: ['>', after] }] }, { orderBy: 'id', limit: BATCH_SIZE })
+      for (const doc of page) {
+        yield PSHExport.toLine({ kind: 'doc', col: colName, doc: omit(doc, 'rev') as Pea })
+      }
+      if (page.length < BATCH_SIZE) break
+      after = page[page.length - 1].id
+    }
   }
 
-  async deleteOne(colName: string, query: PSHDatabaseQuery) {
-    const keys = Object.keys(query)
-    const args = keys.map(k => query[k])
-    const sql = `DELETE FROM ${colName} WHERE ${keys.map(k => `${k} = ?`).join(' AND ')}`
-    // debug('PSHDatabase.deleteOne/sql', sql, args)
-    await this.sqlDb.run(sql, args)
+  /**
+   * Imports documents written by `export`, validated and saved in batches with their `saved`
+   * dates. Replacing wipes a collection before its first document; a failure stops the import
+   * with the batches before it already saved.
+   */
+  async import(source: PSHImportSource, options?: PSHImportOptions): Promise<PSHImportResult> {
+    const { mode = 'merge', collections, into, batchSize = BATCH_SIZE, onProgress } = { ...options }
+    const tx = this.transaction({ keepSaved: true })
+    const imported: string[] = []
+    const done: Record<string, number> = {}
+    // documents of the batch being built, counted as done once it's saved
+    const queued: Record<string, number> = {}
+    const report = (colName: string) => onProgress && onProgress({ collection: colName, done: done[colName] })
+    const saved = () => Object.keys(queued).forEach(colName => {
+      done[colName] += queued[colName]
+      delete queued[colName]
+      report(colName)
+    })
+    const begin = async (colName: string, indices?: PSHIndexSpec[]) => {
+      if (indices && JSON.stringify(indices) !== JSON.stringify(this.indicesForCollection(colName))) {
+        this.logger.warn('PSHDatabase.import: index config differs from the export for', colName)
+      }
+      if (imported.includes(colName)) return
+      imported.push(colName)
+      done[colName] = 0
+      if (mode === 'replace') {
+        await this.col(colName).wipe()
+      }
+    }
+    const included = (colName: string) => !collections || collections.includes(colName)
+    const count = await tx.executeAsyncBatch(PSHExport.readRecords(source), async record => {
+      if (record.kind === 'collection' && included(record.name)) {
+        await begin(into || record.name, record.indices)
+      } else if (record.kind === 'doc' && included(record.col)) {
+        const colName = into || record.col
+        await begin(colName)
+        tx.save(this.col(colName), record.doc)
+        queued[colName] = (queued[colName] || 0) + 1
+      }
+    }, batchSize, saved)
+    imported.filter(colName => done[colName] === 0).forEach(report)
+    this.logger.log('PSHDatabase.import', this.dbName, imported, count)
+    return { count, collections: imported }
   }
 
   async wipe(colName: string) {
-    await this.sqlDb.try(`DELETE FROM ${colName}`)
+    await this.checkUnreferenced(colName)
+    const history = this.histories[colName]
+    const records = [this.oplog && this.oplog.toAppendDeleteAll(colName), history && history.toRecordAll()]
+    const fulltext = this.fulltextPaths(colName).length > 0
+    await this.sqlDb.transaction(tx => {
+      records.forEach(record => record && tx.executeSql(record.sql, record.args))
+      tx.executeSql(`DELETE FROM ${quoteName(colName)}`)
+      if (fulltext) tx.executeSql(`DELETE FROM ${quoteName(PSHIndexing.toFulltextTable(colName))}`)
+    })
+    this.emitReload(colName)
   }
 
-  toWrite<Data extends Pea>(colName: string, id: string, ob: Data): PSHDeferredWrite {
-    const json = JSON.stringify({ ...ob, id })
-    const now = Date.now()
+  /**
+   * Re-encrypts a collection's rows, its history and its oplog entries under the current key, in
+   * batches. Rows the key provider can't decrypt stop it; the batches before stay rotated.
+   */
+  async rotateKeys(colName: string): Promise<number> {
+    if (!this.encryption || !this.encryption.encrypts(colName)) {
+      throw new PSHError(`${colName} isn't encrypted`, { collection: colName })
+    }
+    let count = await this.reencrypt(colName, quoteName(colName), 'id', '')
+    const history = this.histories[colName]
+    if (history) {
+      count += await this.reencrypt(colName, history.table, 'seq', 0)
+    }
+    if (this.oplog) {
+      count += await this.reencrypt(colName, PSHOplog.TABLE, 'seq', 0, ' AND col = ? AND json IS NOT NULL', [colName])
+    }
+    this.logger.log('PSHDatabase.rotateKeys', this.dbName, colName, count)
+    return count
+  }
+
+  // a row written in between keeps what was written, as its json no longer matches
+  private async reencrypt(colName: string, table: string, key: string, start: string|number, filter = '', filterArgs: unknown[] = []) {
+    const encryption = this.encryption!
+    const sql = `UPDATE ${table} SET json = ? WHERE ${key} = ? AND json = ?`
+    let after = start
+    let count = 0
+    for (;;) {
+      const batch = await this.sqlDb.query<{ pk: string|number, json: string }>(
+        `SELECT ${key} AS pk, json FROM ${table} WHERE ${key} > ?${filter} ORDER BY ${key} LIMIT ?`,
+        ([after] as unknown[]).concat(filterArgs, [BATCH_SIZE])
+      )
+      if (batch.length === 0) break
+      const updates = batch.map(row => [encryption.reencrypt(colName, row.json), row.pk, row.json]).filter(([json]) => json !== undefined)
+      if (updates.length > 0) {
+        await this.sqlDb.transaction(tx => updates.forEach(args => tx.executeSql(sql, args)))
+      }
+      after = batch[batch.length - 1].pk
+      count += updates.length
+    }
+    return count
+  }
+
+  // prior versions of a document, newest first, for collections with `history` on
+  async history<Data extends Pea>(colName: string, id: string): Promise<PSHHistoryEntry<Data>[]> {
+    const history = this.histories[colName]
+    if (!history) {
+      throw new PSHError(`${colName} doesn't keep history`, { collection: colName })
+    }
+    const unwrap = this.unwrapper<Data>(colName)
+    const rows = await history.rows(id)
+    return rows.map(row => ({ doc: unwrap(row), replaced: row.replaced, change: row.change }))
+  }
+
+  async search<Data extends Pea>(colName: string, text: string, options?: PSHSearchOptions): Promise<PSHSearchResult<Data>[]> {
+    const paths = this.fulltextPaths(colName)
+    const { fields = paths, limit = 20, offset = 0, snippet = {} } = { ...options }
+    const unsearchable = fields.filter(field => !paths.includes(field))
+    if (paths.length === 0 || unsearchable.length > 0) {
+      throw new PSHError(`${colName} has no full-text index on ${unsearchable.length > 0 ? unsearchable.join(', ') : 'any field'}`, { collection: colName })
+    }
+    const match = PSHSearch.toMatchQuery(text, fields.length < paths.length ? fields.map(PSHIndexing.indexPathToField) : undefined)
+    if (!match) return []
+    await this.settle(colName)
+    const table = quoteName(PSHIndexing.toFulltextTable(colName))
+    // column 0 is the id; -1 lets FTS5 pick the best-matching column
+    const column = fields.length === 1 ? paths.indexOf(fields[0]) + 1 : -1
+    const { open = '<b>', close = '</b>', ellipsis = '…', tokens = 12 } = snippet
+    const sql = `SELECT id, bm25(${table}) AS score, snippet(${table}, ?, ?, ?, ?, ?) AS snippet FROM ${table} WHERE ${table} MATCH ? ORDER BY rank LIMIT ? OFFSET ?`
+    const hits = await this.sqlDb.query<{ id: string, score: number, snippet: string|null }>(sql, [column, open, close, ellipsis, tokens, match, limit, offset])
+      .catch(e => { this.logger.error('PSHDatabase.search/error', sql, match, e); throw e })
+    const docs = await this.find<Data>(colName, { id: ['in', hits.map(hit => hit.id)] })
+    const byId = new Map(docs.map(doc => [doc.id, doc]))
+    return hits.filter(hit => byId.has(hit.id)).map(hit => ({ doc: byId.get(hit.id)!, score: -hit.score, snippet: hit.snippet || '' }))
+  }
+
+  // the record write plus, when the oplog is on and the change is local, its oplog entry
+  toWrites<Data extends Pea>(colName: string, id: string, ob: Data, rev: number, remote?: boolean, date?: number): PSHDeferredWrite[] {
+    const history = this.histories[colName]
+    const writes = (history ? history.toRecord([id], 'write') : []).concat([this.toWrite(colName, id, ob, rev, date)])
+    const paths = this.fulltextPaths(colName)
+    if (paths.length > 0) {
+      writes.push({ sql: `DELETE FROM ${quoteName(PSHIndexing.toFulltextTable(colName))} WHERE id = ?`, args: [id] }, this.toFulltextWrite(colName, id, ob, paths))
+    }
+    if (this.oplog && !remote) {
+      writes.push(this.oplog.toAppend(colName, id, 'write', { ...ob, id }))
+    }
+    return writes
+  }
+
+  toDeletes(colName: string, ids: string[], remote?: boolean): PSHDeferredWrite[] {
+    const deletes: PSHDeferredWrite[] = []
+    for (let i = 0; i < ids.length; i += DELETE_CHUNK_SIZE) {
+      const chunk = ids.slice(i, i + DELETE_CHUNK_SIZE)
+      if (this.histories[colName]) {
+        deletes.push(...this.histories[colName].toRecord(chunk, 'delete'))
+      }
+      deletes.push({ sql: `DELETE FROM ${quoteName(colName)} WHERE id IN (${chunk.map(() => '?').join(', ')})`, args: chunk })
+      if (this.fulltextPaths(colName).length > 0) {
+        deletes.push({ sql: `DELETE FROM ${quoteName(PSHIndexing.toFulltextTable(colName))} WHERE id IN (${chunk.map(() => '?').join(', ')})`, args: chunk })
+      }
+    }
+    if (this.oplog && !remote) {
+      const oplog = this.oplog
+      ids.forEach(id => deletes.push(oplog.toAppend(colName, id, 'delete')))
+    }
+    return deletes
+  }
+
+  // a lookup per unique index for another document with the same values; NULLs never conflict
+  uniqueChecks(colName: string, id: string, ob: Pea): PSHUniqueCheck[] {
+    return this.columnIndices(colName).filter(ix => ix.unique).flatMap(ix => {
+      const columns = PSHIndexing.toColumns(ix)
+      const values = this.indexValues(colName, ob, columns)
+      if (values.some(value => value === null || value === undefined)) return []
+      return [{
+        index: PSHIndexing.toIndexName(ix, colName),
+        fields: PSHIndexing.toPaths(ix),
+        values,
+        sql: `SELECT id FROM ${quoteName(colName)} WHERE ${columns.map(c => `${quoteName(c.name)} = ?`).join(' AND ')} AND id != ? LIMIT 1`,
+        args: values.concat([id])
+      }]
+    })
+  }
+
+  // finds the document with the key values through the unique index on exactly those fields
+  toUniqueLookup(colName: string, keyFields: string[], ob: object): PSHSQLQueryable {
+    const ix = this.columnIndices(colName).find(ix => ix.unique && isEqual(PSHIndexing.toPaths(ix).slice().sort(), keyFields.slice().sort()))
+    if (!ix) {
+      throw new PSHError(`${colName} has no unique index on ${keyFields.join(', ')}`, { collection: colName })
+    }
+    const columns = PSHIndexing.toColumns(ix)
+    const values = this.indexValues(colName, ob, columns)
+    if (values.some(value => value === null || value === undefined)) {
+      throw new PSHError(`${colName} needs a value for each of ${keyFields.join(', ')}`, { collection: colName })
+    }
+    return [`SELECT id, json, date, _version, _rev FROM ${quoteName(colName)} WHERE ${columns.map(c => `${quoteName(c.name)} = ?`).join(' AND ')} LIMIT 1`, values as PSHDatabaseQueryValue[]]
+  }
+
+  // without a revision, SQLite bumps the stored one
+  toWrite<Data extends Pea>(colName: string, id: string, ob: Data, rev?: number, date?: number): PSHDeferredWrite {
+    const doc = { ...omit(ob, 'rev'), id }
+    const json = JSON.stringify(this.encryption ? this.encryption.encrypt(colName, doc) : doc)
+    const now = date || Date.now()
     
-    const indices = this.indicesForCollection(colName)
+    const indices = this.columnIndices(colName)
     const indexColumns = uniq(union(...indices.map(PSHIndexing.toColumns)), false, col => col.name)
-    const indexedColumnValues: unknown[] = indexColumns.map(c => get(ob, PSHIndexing.fieldToIndexPath(c.name).split('.')))
-    const allColumns = ['id', 'json', 'date'].concat(indexColumns.map(c => c.name))
-    const allValues = ([id, json, now] as unknown[]).concat(indexedColumnValues)
-    const onConflictKeys = ['json', 'date'].concat(indexColumns.map(c => c.name))
-    const onConflictValues = ([json, now] as unknown[]).concat(indexedColumnValues)
+    const spec = this.migrationsForCollection(colName)
+    const version = spec ? spec.version : 0
+    const indexedColumnValues = this.indexValues(colName, ob, indexColumns)
+    const allColumns = ['id', 'json', 'date', '_version', '_rev'].concat(indexColumns.map(c => quoteName(c.name)))
+    const allValues = ([id, json, now, version, rev !== undefined ? rev : 1] as unknown[]).concat(indexedColumnValues)
+    const onConflictKeys = ['json', 'date', '_version'].concat(indexColumns.map(c => quoteName(c.name)))
+    const onConflictValues = ([json, now, version] as unknown[]).concat(indexedColumnValues)
+    const onConflictRev = rev !== undefined ? '_rev = ?' : '_rev = COALESCE(_rev, 0) + 1'
     
-    const sql = `INSERT INTO ${colName} (${allColumns.join(', ')}) VALUES (${new Array(allColumns.length).fill('?').join(', ')}) ON CONFLICT DO UPDATE SET ${onConflictKeys.map(k => `${k} = ?`).join(', ')}`
-    const args = allValues.concat(onConflictValues)
+    const sql = `INSERT INTO ${quoteName(colName)} (${allColumns.join(', ')}) VALUES (${new Array(allColumns.length).fill('?').join(', ')}) ON CONFLICT DO UPDATE SET ${onConflictKeys.map(k => `${k} = ?`).concat([onConflictRev]).join(', ')}`
+    const args = allValues.concat(onConflictValues, rev !== undefined ? [rev] : [])
     return { sql, args }
   }
 
@@ -212,19 +977,132 @@ export default class PSHDatabase {
     return res.map(r => r.name)
   }
 
-  transaction() {
-    return new PSHTransaction(this.sqlDb)
+  // queued saves are written ahead of the transaction
+  transaction(options?: PSHTransactionOptions) {
+    return new PSHTransaction(this.sqlDb, this.events, { before: () => this.flush(), logger: this.logger, ...options })
+  }
+
+  // writes the saves the write-behind queue holds, as an app going to the background should
+  async flush() {
+    if (this.writes) {
+      await this.writes.flush()
+    }
+  }
+
+  writesBehind(colName: string) {
+    return !!this.writes && this.writes.applies(colName)
+  }
+
+  // reads that SQL answers see queued saves by writing them first, as do updates that need their revision
+  async settle(colName: string) {
+    if (this.writes && this.writes.has(colName)) {
+      await this.writes.flush()
+    }
   }
 }
 
 export interface PSHDatabaseConfig {
   indices?: Record<string, PSHIndexSpec[]>
+  adapter?: PSHStorageAdapterFactory
+  migrations?: Record<string, PSHMigrationSpec>
+  onMigrationProgress?: (progress: PSHMigrationProgress) => void
+  // record local writes and deletes in a persistent oplog, as sync requires
+  oplog?: boolean
+  // collections whose documents expire this many ms after they're saved, or by their own
+  // `expiresAt`; 0 leaves expiry to `expiresAt` alone
+  ttl?: Record<string, number>
+  // collections that keep the versions their saves and deletes replace
+  history?: Record<string, PSHHistoryOptions>
+  // paths holding a reference to another document, by collection; each path's id is indexed
+  refs?: Record<string, PSHRefSpecs>
+  // collections stored encrypted, with the keys and cipher to do it
+  encryption?: PSHEncryptionConfig
+  // where debug output goes, once `setDebug` turns it on; the console by default
+  logger?: PSHLogger
+  // timing of every statement, and plans for slow ones
+  instrumentation?: PSHInstrumentationOptions
+  // collections whose parsed documents are kept in memory, up to a size, as changes allow
+  cache?: Record<string, PSHCacheOptions>
+  // saves that are queued and written in batches; reads still see them
+  writeBehind?: PSHWriteBehindOptions
+  // called when `findOne` matches more than one document; it returns the first
+  onDuplicates?: (duplicates: PSHDuplicates) => void
+}
+
+export interface PSHDuplicates {
+  collection: string
+  query: PSHDatabaseQuery
+  ids: string[]
+}
+
+export interface PSHUniqueCheck {
+  index: string
+  fields: string[]
+  values: unknown[]
+  sql: string
+  args: unknown[]
+}
+
+export interface PSHGetOptions {
+  populate?: PSHPopulate
 }
 
-const unwrap = <Data extends Pea>(wrapper: Wrapped): Data => ({ ...JSON.parse(wrapper.json), saved: wrapper.date, id: wrapper.id || 'WTAF' } as Data)
+const toConnectOptions = (name: string): PSHStorageConnectOptions => ({ name: `${name}.db`, version: '1.0', description: `P-Shooter Backing Store ${name}` })
+
+// tables that fail to drop, as FTS shadow tables do ahead of their own table, are retried after the rest
+const dropTables = async (sqlDb: PSHStorageAdapter, logger: PSHLogger) => {
+  const tables = await sqlDb.tables()
+  let failedTables: string[] = []
+  for (const table of tables.filter(t => t !== 'sqlite_sequence')) {
+    await sqlDb.run(`DROP TABLE IF EXISTS ${quoteName(table)}`).catch(() => { if (!failedTables.includes(table)) { failedTables.push(table) }})
+  }
+
+  for (const table of failedTables.reverse()) {
+    logger.log('PSHDatabase.dropTables/retry drop', table)
+    await sqlDb.run(`DROP TABLE IF EXISTS ${quoteName(table)}`)
+      .then(() => failedTables = failedTables.filter(t => t !== table))
+      .catch(() => logger.warn('PSHDatabase.dropTables/failed drop', table))
+  }
+}
+
+// every name in the config ends up in SQL, so they're checked before any is generated
+const validateConfig = (config: PSHDatabaseConfig) => {
+  const { indices = {}, migrations = {}, ttl = {}, history = {}, refs = {} } = config
+  const byCollection: object[] = [indices, migrations, ttl, history, refs]
+  byCollection.forEach(entries => Object.keys(entries).forEach(checkCollectionName))
+  Object.entries(indices).forEach(([colName, specs]) => specs.forEach(ix => PSHIndexing.toPaths(ix).forEach(path => checkIndexPath(path, colName))))
+  Object.entries(refs).forEach(([colName, specs]) => Object.entries(specs).forEach(([path, spec]) => {
+    checkIndexPath(path, colName)
+    checkCollectionName(spec.to)
+  }))
+  Object.entries(config.encryption ? config.encryption.collections : {}).forEach(([colName, spec]) => {
+    checkCollectionName(colName)
+    if (spec.fields) spec.fields.forEach(checkFieldPath)
+  })
+}
+
+const toBulkResult = (events: PSHEvent[]): PSHBulkResult => {
+  const ids = uniq(events.map(e => e.id))
+  return { count: ids.length, ids }
+}
+
+const fulltextPaths = (specs: PSHIndexSpec[]): string[] => uniq(union(...specs.filter(ix => ix.fulltext).map(PSHIndexing.toPaths)))
+
+// text, or the text in an array, as one string for FTS5 to tokenize
+const fulltextValue = (ob: object, path: string): string|null => {
+  const value = get(ob, path.split('.'))
+  const parts = (Array.isArray(value) ? value : [value]).filter(v => typeof v === 'string' || typeof v === 'number')
+  return parts.length > 0 ? parts.join(' ') : null
+}
+
+
+// `decrypt` opens what an encrypted collection stores
+const unwrap = <Data extends Pea>(wrapper: Wrapped, decrypt: (stored: Record<string, unknown>) => object = stored => stored): Data => ({ ...decrypt(JSON.parse(wrapper.json)), saved: wrapper.date, rev: wrapper._rev || 0, id: wrapper.id || 'WTAF' } as Data)
 
-interface Wrapped {
+export interface Wrapped {
   id: string
   json: string
   date: number
+  _version?: number|null
+  _rev?: number|null
 }
\ No newline at end of file
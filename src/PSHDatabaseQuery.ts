@@ -1,5 +1,60 @@
+import type Pea from './Pea'
+import type { PSHPopulate } from './PSHRefs'
+import type { PSHQueryPlanStep } from './PSHQueryPlan'
+
 export type PSHDatabaseQueryOperator = '=' | '>' | '<' | '>=' | '<=' | '!=' | 'in' | 'not in' | 'like'
-export type PSHDatabaseQueryCondition = [PSHDatabaseQueryOperator, PSHDatabaseQueryValue] | PSHDatabaseQueryValue
+export type PSHDatabaseQueryCondition = [PSHDatabaseQueryOperator, PSHDatabaseQueryValue|PSHDatabaseQueryValue[]] | PSHDatabaseQueryValue
 export type PSHDatabaseQueryValue = string | number | boolean | null
-type PSHDatabaseQuery = Record<string,PSHDatabaseQueryCondition>
-export default PSHDatabaseQuery
\ No newline at end of file
+
+export interface PSHDatabaseQueryGroups {
+  $or?: PSHDatabaseQuery[]
+  $and?: PSHDatabaseQuery[]
+  $not?: PSHDatabaseQuery
+}
+
+type PSHDatabaseQuery = { [field: string]: PSHDatabaseQueryCondition | PSHDatabaseQuery | PSHDatabaseQuery[] | undefined } & PSHDatabaseQueryGroups
+export default PSHDatabaseQuery
+
+export type PSHQueryDirection = 'asc' | 'desc'
+export type PSHQueryOrder = string | [string, PSHQueryDirection]
+
+export interface PSHQueryOptions {
+  orderBy?: PSHQueryOrder | PSHQueryOrder[]
+  limit?: number
+  offset?: number
+  fields?: string[]
+  // replaces references with the documents they reference
+  populate?: PSHPopulate
+}
+export interface PSHQueryExplanation {
+  sql: string
+  args: PSHDatabaseQueryValue[]
+  plan: string[]
+  // the plan as a tree of parsed steps
+  steps: PSHQueryPlanStep[]
+  indexed: string[]
+  scanned: string[]
+}
+type Depth = [never, 0, 1, 2, 3]
+
+// dotted paths into a document type, four levels deep; arrays are leaves (queried by membership)
+export type PSHPath<T, D extends number = 4> = [D] extends [never] ? never : T extends object ? {
+  [K in keyof T & string]: NonNullable<T[K]> extends PSHDatabaseQueryValue | unknown[] ? K : K | `${K}.${PSHPath<NonNullable<T[K]>, Depth[D]>}`
+}[keyof T & string] : never
+
+export type PSHPathValue<T, P extends string> = P extends `${infer K}.${infer Rest}`
+  ? K extends keyof T ? PSHPathValue<NonNullable<T[K]>, Rest> : never
+  : P extends keyof T ? T[P] : never
+
+type PSHConditionValue<V> = NonNullable<V> extends Array<infer E> ? E : NonNullable<V>
+
+export type PSHTypedCondition<V> = PSHConditionValue<V> | null | [PSHDatabaseQueryOperator, PSHConditionValue<V> | null | PSHConditionValue<V>[]]
+
+export type PSHTypedQuery<T> = { [P in PSHPath<T>]?: PSHTypedCondition<PSHPathValue<T, P>> } & {
+  $or?: PSHTypedQuery<T>[]
+  $and?: PSHTypedQuery<T>[]
+  $not?: PSHTypedQuery<T>
+}
+
+// untyped collections keep accepting any field
+export type PSHQueryFor<T> = Pea extends T ? PSHDatabaseQuery : PSHTypedQuery<T>
\ No newline at end of file
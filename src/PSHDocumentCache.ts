@@ -0,0 +1,100 @@
+import Pea from './Pea'
+
+
+export interface PSHCacheOptions {
+  // documents kept before the least recently read is evicted
+  maxSize?: number
+}
+
+export interface PSHCacheStats {
+  hits: number
+  misses: number
+  evictions: number
+  size: number
+}
+
+const MAX_SIZE = 500
+
+const freeze = <T>(value: T): T => {
+  if (value && typeof value === 'object' && !Object.isFrozen(value)) {
+    Object.values(value).forEach(freeze)
+    Object.freeze(value)
+  }
+  return value
+}
+
+/**
+ * Parsed documents of one collection by id, least recently read evicted first. Entries are
+ * frozen, since every reader shares them. `PSHDatabase` drops them as write, delete and reload
+ * events arrive; a read that started before one can't store what it read, which `generation`
+ * tells apart.
+ */
+export default class PSHDocumentCache {
+  readonly colName: string
+  options: PSHCacheOptions
+  private docs = new Map<string, Pea>()
+  private counters = { hits: 0, misses: 0, evictions: 0 }
+  private _generation = 0
+
+  constructor(colName: string, options: PSHCacheOptions = {}) {
+    this.colName = colName
+    this.options = options
+  }
+
+  get generation() {
+    return this._generation
+  }
+
+  get<Data extends Pea>(id: string): Data|undefined {
+    const doc = this.docs.get(id)
+    if (!doc) {
+      this.counters.misses += 1
+      return undefined
+    }
+    this.counters.hits += 1
+    this.docs.delete(id)
+    this.docs.set(id, doc)
+    return doc as Data
+  }
+
+  // the cached document if it's still the stored revision, so the row needn't be parsed again
+  revision<Data extends Pea>(id: string, rev: number, saved: number): Data|undefined {
+    const doc = this.docs.get(id)
+    if (doc && doc.rev === rev && doc.saved === saved) return this.get<Data>(id)
+    this.counters.misses += 1
+    return undefined
+  }
+
+  // the document, frozen; it's kept unless entries were dropped since `generation` was read
+  set<Data extends Pea>(doc: Data, generation: number): Data {
+    freeze(doc)
+    if (generation !== this._generation) return doc
+    this.docs.delete(doc.id)
+    this.docs.set(doc.id, doc)
+    const maxSize = this.options.maxSize || MAX_SIZE
+    for (const id of this.docs.keys()) {
+      if (this.docs.size <= maxSize) break
+      this.docs.delete(id)
+      this.counters.evictions += 1
+    }
+    return doc
+  }
+
+  delete(id: string) {
+    this._generation += 1
+    this.docs.delete(id)
+  }
+
+  clear() {
+    this._generation += 1
+    this.docs.clear()
+  }
+
+  stats(): PSHCacheStats {
+    return { ...this.counters, size: this.docs.size }
+  }
+
+  resetStats() {
+    this.counters = { hits: 0, misses: 0, evictions: 0 }
+  }
+}
\ No newline at end of file
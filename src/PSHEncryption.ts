@@ -0,0 +1,207 @@
+import { get, isArray } from 'underscore'
+import PSHDatabaseQuery, { PSHDatabaseQueryCondition, PSHDatabaseQueryOperator, PSHDatabaseQueryValue } from './PSHDatabaseQuery'
+import PSHError from './PSHError'
+import PSHConfigError from './PSHConfigError'
+import PSHIndexing, { PSHIndexSpec } from './PSHIndexing'
+import { fieldToIndexPath } from './shared'
+
+
+export interface PSHKey {
+  id: string
+  // whatever the cipher needs; it's never stored
+  material: unknown
+}
+
+export interface PSHKeyProvider {
+  // the key new writes are encrypted with
+  current(): PSHKey
+  // an older key, for rows written before a rotation
+  key(id: string): PSHKey|undefined
+  // the key blind indexes hash with; it isn't rotated, since every stored hash depends on it
+  hashKey?(): PSHKey
+}
+
+/**
+ * Encrypts and decrypts text under a key. It's called while statements are queued inside a
+ * SQLite transaction, so it has to be synchronous.
+ */
+export interface PSHCipher {
+  encrypt(plaintext: string, key: PSHKey): string
+  decrypt(ciphertext: string, key: PSHKey): string
+  // deterministic: equal values hash the same, which is what lets a blind index match them
+  hash(value: string, key: PSHKey): string
+}
+
+// without `fields`, the whole document apart from its id
+export interface PSHEncryptionSpec {
+  fields?: string[]
+}
+
+export interface PSHEncryptionConfig {
+  keys: PSHKeyProvider
+  cipher: PSHCipher
+  collections: Record<string, PSHEncryptionSpec>
+}
+
+// an encrypted value, or whole document, as stored
+interface PSHSealed {
+  $sealed: string
+  key: string
+}
+
+const EXACT_OPERATORS: PSHDatabaseQueryOperator[] = ['=', '!=', 'in', 'not in']
+const OPEN_PATHS = ['id', 'saved', 'rev']
+
+const isSealed = (value: unknown): value is PSHSealed => !!value && typeof value === 'object' && typeof (value as PSHSealed).$sealed === 'string'
+
+const asFields = (value: unknown): Record<string, unknown> => value && typeof value === 'object' ? value as Record<string, unknown> : {}
+
+const setPath = (ob: Record<string, unknown>, path: string[], value: unknown): Record<string, unknown> => {
+  const [head, ...rest] = path
+  return { ...ob, [head]: rest.length === 0 ? value : setPath(asFields(ob[head]), rest, value) }
+}
+
+const overlaps = (a: string, b: string) => a === b || a.startsWith(`${b}.`) || b.startsWith(`${a}.`)
+
+/**
+ * Encrypts a collection's stored JSON, whole or by field, and decrypts it as it's read.
+ * Rows name the key they were sealed with, so they stay readable across a rotation until
+ * `PSHDatabase.rotateKeys` re-encrypts them. Encrypted fields can only be indexed blind:
+ * the column holds a keyed hash, which exact matches are translated to.
+ */
+export default class PSHEncryption {
+  readonly config: PSHEncryptionConfig
+
+  constructor(config: PSHEncryptionConfig) {
+    this.config = config
+  }
+
+  encrypts(colName: string) {
+    return !!this.config.collections[colName]
+  }
+
+  private fields(colName: string): string[]|undefined {
+    const spec = this.config.collections[colName]
+    return spec && spec.fields
+  }
+
+  isEncrypted(colName: string, path: string) {
+    if (!this.encrypts(colName) || OPEN_PATHS.includes(path)) return false
+    const fields = this.fields(colName)
+    return !fields || fields.some(field => overlaps(field, path))
+  }
+
+  // encrypted paths can only be indexed by opting into a blind index, and never for full text
+  checkIndices(colName: string, indices: PSHIndexSpec[]) {
+    indices.forEach(ix => PSHIndexing.toPaths(ix).forEach(path => {
+      const encrypted = this.isEncrypted(colName, path)
+      if (encrypted && (ix.fulltext || !ix.blind)) {
+        throw new PSHConfigError(`${colName}.${path} is encrypted, so it can only have a blind index`, colName)
+      }
+      if (!encrypted && ix.blind) {
+        throw new PSHConfigError(`${colName}.${path} isn't encrypted, so its index can't be blind`, colName)
+      }
+      if (encrypted && !this.config.keys.hashKey) {
+        throw new PSHConfigError(`${colName}.${path} has a blind index, which needs a key provider with hashKey`, colName)
+      }
+    }))
+  }
+
+  // paths the database reads in SQL for `feature`, which ciphertext can't answer
+  checkOpen(colName: string, paths: string[], feature: string) {
+    const encrypted = paths.find(path => this.isEncrypted(colName, path))
+    if (encrypted) {
+      throw new PSHConfigError(`${colName}.${encrypted} is encrypted, so documents in ${colName} can't ${feature}`, colName)
+    }
+  }
+
+  private seal(value: unknown): PSHSealed {
+    const key = this.config.keys.current()
+    return { $sealed: this.config.cipher.encrypt(JSON.stringify(value), key), key: key.id }
+  }
+
+  private unseal(colName: string, id: string, sealed: PSHSealed): unknown {
+    const key = this.config.keys.key(sealed.key)
+    if (!key) {
+      throw new PSHError(`${colName}/${id} is encrypted with key ${sealed.key}, which the key provider doesn't have`, { collection: colName, id })
+    }
+    return JSON.parse(this.config.cipher.decrypt(sealed.$sealed, key))
+  }
+
+  // the document as it's stored
+  encrypt<T extends { id: string }>(colName: string, ob: T): object {
+    if (!this.encrypts(colName)) return ob
+    const fields = this.fields(colName)
+    if (!fields) {
+      const { id, ...rest } = ob
+      return { id, ...this.seal(rest) }
+    }
+    return fields.reduce((sealed, field) => {
+      const path = field.split('.')
+      const value = get(sealed, path)
+      return value === undefined || isSealed(value) ? sealed : setPath(sealed, path, this.seal(value))
+    }, asFields(ob))
+  }
+
+  // rows written before the collection was encrypted are read as they are
+  decrypt(colName: string, ob: Record<string, unknown>): Record<string, unknown> {
+    const id = String(ob.id)
+    if (isSealed(ob)) {
+      return { ...asFields(this.unseal(colName, id, ob)), id }
+    }
+    return (this.fields(colName) || []).reduce((opened, field) => {
+      const path = field.split('.')
+      const value = get(opened, path)
+      return isSealed(value) ? setPath(opened, path, this.unseal(colName, id, value)) : opened
+    }, ob)
+  }
+
+  // stored JSON that isn't sealed under the current key, re-encrypted; undefined when it already is
+  reencrypt(colName: string, json: string): string|undefined {
+    const ob: Record<string, unknown> = JSON.parse(json)
+    const current = this.config.keys.current().id
+    const fields = this.fields(colName)
+    const stale = fields
+      ? fields.some(field => {
+        const value = get(ob, field.split('.'))
+        return value !== undefined && (!isSealed(value) || value.key !== current)
+      })
+      : !isSealed(ob) || ob.key !== current
+    return stale ? JSON.stringify(this.encrypt(colName, this.decrypt(colName, ob) as { id: string })) : undefined
+  }
+
+  hash(value: unknown): string|null {
+    if (value === null || value === undefined) return null
+    return this.config.cipher.hash(JSON.stringify(value), this.config.keys.hashKey!())
+  }
+
+  /**
+   * The query with values for blind-indexed paths swapped for their hashes. Only exact matches
+   * can be answered that way; anything else on an encrypted path throws.
+   */
+  toBlindQuery(colName: string, query: PSHDatabaseQuery, blind: string[]): PSHDatabaseQuery {
+    if (!this.encrypts(colName)) return query
+    return Object.fromEntries(Object.entries(query).map(([k, v]) => {
+      if (v === undefined) return [k, v]
+      if (k === '$or' || k === '$and') return [k, (v as PSHDatabaseQuery[]).map(q => this.toBlindQuery(colName, q, blind))]
+      if (k === '$not') return [k, this.toBlindQuery(colName, v as PSHDatabaseQuery, blind)]
+      const path = fieldToIndexPath(k)
+      if (!this.isEncrypted(colName, path)) return [k, v]
+      const condition = v as PSHDatabaseQueryCondition
+      const [operator, operand] = isArray(condition) ? condition : ['=', condition]
+      if (!blind.includes(path) || !EXACT_OPERATORS.includes(operator as PSHDatabaseQueryOperator)) {
+        throw new PSHError(`${colName}.${path} is encrypted, so it can only be matched exactly through a blind index`, { collection: colName })
+      }
+      const hashed = isArray(operand) ? (operand as PSHDatabaseQueryValue[]).map(value => this.hash(value)) : this.hash(operand)
+      return [k, isArray(condition) ? [operator, hashed] : hashed]
+    }))
+  }
+
+  // ordering, distinct values and aggregates need plaintext, which SQL never sees
+  checkReadable(colName: string, fields: string[]) {
+    const encrypted = fields.find(field => this.isEncrypted(colName, fieldToIndexPath(field)))
+    if (encrypted) {
+      throw new PSHError(`${colName}.${encrypted} is encrypted, so it can't be sorted or aggregated`, { collection: colName })
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,30 @@
+export interface PSHErrorContext {
+  collection?: string
+  id?: string
+  // the statement that failed, for storage errors
+  sql?: string
+  args?: unknown[]
+  cause?: unknown
+}
+
+/**
+ * The base of every error the database throws on purpose, carrying whatever it knows
+ * about where the error happened.
+ */
+export default class PSHError extends Error {
+  readonly collection?: string
+  readonly id?: string
+  readonly sql?: string
+  readonly args?: unknown[]
+  readonly cause?: unknown
+
+  constructor(message: string, context: PSHErrorContext = {}) {
+    super(message)
+    this.name = 'PSHError'
+    this.collection = context.collection
+    this.id = context.id
+    this.sql = context.sql
+    this.args = context.args
+    this.cause = context.cause
+  }
+}
\ No newline at end of file
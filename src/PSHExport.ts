@@ -0,0 +1,87 @@
+import { PSHIndexSpec } from './PSHIndexing'
+import PSHImportError from './PSHImportError'
+import Pea from './Pea'
+
+
+const FORMAT = 'p-shooter'
+const VERSION = 1
+
+/**
+ * One line of an export: a header, then for each collection a `collection` record with
+ * its index config followed by its documents (with their `saved` dates).
+ */
+export type PSHExportRecord =
+  | { kind: 'header', format: typeof FORMAT, version: number, date: number }
+  | { kind: 'collection', name: string, indices: PSHIndexSpec[] }
+  | { kind: 'doc', col: string, doc: Pea }
+
+export type PSHImportMode = 'merge' | 'replace'
+
+// text, or chunks of it cut anywhere, such as a file read as a stream
+export type PSHImportSource = string | Iterable<string> | AsyncIterable<string>
+
+export interface PSHImportProgress {
+  collection: string
+  done: number
+}
+
+export interface PSHImportOptions {
+  // merge (the default) saves over existing documents; replace wipes each imported collection first
+  mode?: PSHImportMode
+  // only import these collections of the source
+  collections?: string[]
+  // import every document into this collection, whichever one it was exported from
+  into?: string
+  batchSize?: number
+  onProgress?: (progress: PSHImportProgress) => void
+}
+
+export interface PSHImportResult {
+  count: number
+  collections: string[]
+}
+
+const header = (): PSHExportRecord => ({ kind: 'header', format: FORMAT, version: VERSION, date: Date.now() })
+
+const toLine = (record: PSHExportRecord) => JSON.stringify(record) + '\n'
+
+const parse = (line: string, lineNumber: number): PSHExportRecord => {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(line)
+  } catch (e) {
+    throw new PSHImportError(`PSHExport: line ${lineNumber} is not JSON`, lineNumber)
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new PSHImportError(`PSHExport: line ${lineNumber} is not a JSON object`, lineNumber)
+  }
+  const record = parsed as PSHExportRecord
+  if (record.kind === 'header' && (record.format !== FORMAT || record.version > VERSION)) {
+    throw new PSHImportError(`PSHExport: unsupported format ${record.format} version ${record.version}`, lineNumber)
+  }
+  if (!['header', 'collection', 'doc'].includes(record.kind)) {
+    throw new PSHImportError(`PSHExport: line ${lineNumber} has unknown kind ${record.kind}`, lineNumber)
+  }
+  return record
+}
+
+async function* readRecords(source: PSHImportSource): AsyncGenerator<PSHExportRecord> {
+  let buffer = ''
+  let lineNumber = 0
+  for await (const chunk of typeof source === 'string' ? [source] : source) {
+    buffer += chunk
+    const lines = buffer.split('\n')
+    buffer = lines.pop()!
+    for (const line of lines) {
+      lineNumber++
+      if (line.trim()) yield parse(line, lineNumber)
+    }
+  }
+  if (buffer.trim()) yield parse(buffer, lineNumber + 1)
+}
+
+export default {
+  header,
+  toLine,
+  readRecords,
+}
\ No newline at end of file
@@ -0,0 +1,105 @@
+import PSHStorageAdapter from './PSHStorageAdapter'
+import PSHDeferredWrite from './PSHDeferredWrite'
+import { PSHEventType } from './events/PSHEvent'
+import type { Wrapped } from './PSHDatabase'
+import Pea from './Pea'
+import { quoteName } from './shared'
+
+
+export interface PSHHistoryOptions {
+  // versions kept per document
+  keep?: number
+  // how long, in ms, a version is kept after it's replaced
+  maxAge?: number
+}
+
+export interface PSHHistoryEntry<Data extends Pea=Pea> {
+  // the version as it was saved, with its `rev` and `saved`
+  doc: Data
+  // when a write or delete replaced it
+  replaced: number
+  change: PSHEventType
+}
+
+export interface PSHHistoryRow extends Wrapped {
+  replaced: number
+  change: PSHEventType
+}
+
+/**
+ * Prior versions of a collection's documents, in a companion table. The stored row is
+ * copied over in the same SQLite transaction as the write or delete that replaces it, in its
+ * stored form, so versions from before a migration are upgraded as they're read.
+ */
+export default class PSHHistory {
+  sqlDb: PSHStorageAdapter
+  colName: string
+  options: PSHHistoryOptions
+
+  constructor(sqlDb: PSHStorageAdapter, colName: string, options: PSHHistoryOptions) {
+    this.sqlDb = sqlDb
+    this.colName = colName
+    this.options = { ...options }
+  }
+
+  static toTable(colName: string) {
+    return `_psh_history_${colName}`
+  }
+
+  // quoted, ready for SQL
+  get table() {
+    return quoteName(PSHHistory.toTable(this.colName))
+  }
+
+  async initialize() {
+    await this.sqlDb.run(`CREATE TABLE IF NOT EXISTS ${this.table} (seq INTEGER PRIMARY KEY AUTOINCREMENT, id TEXT NOT NULL, json TEXT NOT NULL, date INTEGER NOT NULL, _version INTEGER, _rev INTEGER, replaced INTEGER NOT NULL, change TEXT NOT NULL)`)
+    await this.sqlDb.run(`CREATE INDEX IF NOT EXISTS ${quoteName(`${PSHHistory.toTable(this.colName)}_id`)} ON ${this.table} (id, seq)`)
+  }
+
+  // copies the stored versions of the documents, ahead of the statements that replace them
+  toRecord(ids: string[], change: PSHEventType): PSHDeferredWrite[] {
+    const record = {
+      sql: `INSERT INTO ${this.table} (id, json, date, _version, _rev, replaced, change) SELECT id, json, date, _version, _rev, ?, ? FROM ${quoteName(this.colName)} WHERE id IN (${ids.map(() => '?').join(', ')})`,
+      args: [Date.now(), change as unknown].concat(ids)
+    }
+    return [record].concat(ids.flatMap(id => this.toPrune(id)))
+  }
+
+  toRecordAll(): PSHDeferredWrite {
+    return {
+      sql: `INSERT INTO ${this.table} (id, json, date, _version, _rev, replaced, change) SELECT id, json, date, _version, _rev, ?, 'delete' FROM ${quoteName(this.colName)}`,
+      args: [Date.now()]
+    }
+  }
+
+  private toPrune(id: string): PSHDeferredWrite[] {
+    const { keep, maxAge } = this.options
+    const prunes: PSHDeferredWrite[] = []
+    if (keep !== undefined) {
+      prunes.push({
+        sql: `DELETE FROM ${this.table} WHERE id = ? AND seq <= (SELECT seq FROM ${this.table} WHERE id = ? ORDER BY seq DESC LIMIT 1 OFFSET ?)`,
+        args: [id, id, keep]
+      })
+    }
+    if (maxAge !== undefined) {
+      prunes.push({ sql: `DELETE FROM ${this.table} WHERE id = ? AND replaced < ?`, args: [id, Date.now() - maxAge] })
+    }
+    return prunes
+  }
+
+  // newest first
+  async rows(id: string): Promise<PSHHistoryRow[]> {
+    const { keep = -1, maxAge } = this.options
+    const since = maxAge !== undefined ? Date.now() - maxAge : 0
+    return this.sqlDb.query<PSHHistoryRow>(
+      `SELECT id, json, date, _version, _rev, replaced, change FROM ${this.table} WHERE id = ? AND replaced >= ? ORDER BY seq DESC LIMIT ?`,
+      [id, since, keep]
+    )
+  }
+
+  // versions replaced longer ago than `maxAge`, which writes only prune for the document they touch
+  async prune() {
+    if (this.options.maxAge === undefined) return
+    await this.sqlDb.run(`DELETE FROM ${this.table} WHERE replaced < ?`, [Date.now() - this.options.maxAge])
+  }
+}
\ No newline at end of file
@@ -0,0 +1,13 @@
+import PSHError from './PSHError'
+
+
+// an import source that isn't a PSHExport, or is one of a newer version
+export default class PSHImportError extends PSHError {
+  readonly line?: number
+
+  constructor(message: string, line?: number) {
+    super(message)
+    this.name = 'PSHImportError'
+    this.line = line
+  }
+}
\ No newline at end of file
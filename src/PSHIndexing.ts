@@ -1,27 +1,38 @@
 import PSHColumnDef from './PSHColumnDef'
-import { dataTypeToColumnType, PSHDataType } from './shared'
+import { dataTypeToColumnType, fieldToIndexPath, indexPathToField, PSHDataType, quoteName } from './shared'
 
 
-const indexPathToField = (path: string) => path.replace('.', '__')
-const fieldToIndexPath = (field: string) => field.replace('__', '.')
 const toFieldName = (ix: PSHIndexSpec): string => ix.fields.map(({ path }) => indexPathToField(path)).join('___')
-const toIndex = (ix: PSHIndexSpec, colName: string): string => `${toFieldName(ix)} ON ${colName} (${ix.fields.map(ip => indexPathToField(ip.path)).join(', ')})`
+// index names are database-wide, so they carry the collection name
+const toIndexName = (ix: PSHIndexSpec, colName: string): string => `${colName}__${toFieldName(ix)}`
+const toIndex = (ix: PSHIndexSpec, colName: string): string => `${quoteName(toIndexName(ix, colName))} ON ${quoteName(colName)} (${ix.fields.map(ip => quoteName(indexPathToField(ip.path))).join(', ')})`
+const toPaths = (ix: PSHIndexSpec): string[] => ix.fields.map(({ path }) => path)
 const toColumns = (ix: PSHIndexSpec): PSHColumnDef[] => ix.fields.map(({ path, type }) => ({ name: indexPathToField(path), type: dataTypeToColumnType(type) }))
+// a collection's full-text paths share one FTS5 table
+const toFulltextTable = (colName: string): string => `_psh_fts_${colName}`
 
 export interface BasicIndexParams {
   path: string
   type?: PSHDataType
   unique?: boolean
+  fulltext?: boolean
+  blind?: boolean
 }
 
 export interface CompoundIndexParams {
   fields: PSHIndexFieldSpec[],
   unique?: boolean
+  fulltext?: boolean
+  blind?: boolean
 }
 
 export interface PSHIndexSpec {
   fields: PSHIndexField[]
   unique: boolean
+  // searched with `search` rather than queried; text and arrays of text are tokenized
+  fulltext?: boolean
+  // over encrypted fields: the columns hold keyed hashes, so only exact matches use it
+  blind?: boolean
 }
 
 export interface PSHIndexFieldSpec {
@@ -45,24 +56,36 @@ const make = (params: BasicIndexParams|CompoundIndexParams|string): PSHIndexSpec
 
   const basic = params as BasicIndexParams
   if (basic.path) {
-    return {
+    return withFlags({
       fields: [{ path: basic.path, type: basic.type || 'V32' }],
       unique: basic.unique || false
-    }
+    }, basic)
   }
 
   const compound = params as CompoundIndexParams
-  return {
+  return withFlags({
     fields: compound.fields.map(({ path, type }) => ({ path, type: type || 'V32' })),
     unique: compound.unique || false
-  }
+  }, compound)
 }
 
+// only specs with a flag set carry it, so recorded schemas of other indexes stay the same
+const withFlags = (ix: PSHIndexSpec, { fulltext, blind }: { fulltext?: boolean, blind?: boolean }): PSHIndexSpec => {
+  if (fulltext) return { ...ix, unique: false, fulltext: true }
+  return blind ? { ...ix, blind: true } : ix
+}
+
+const fulltext = (...paths: string[]): PSHIndexSpec => make({ fields: paths.map(path => ({ path })), fulltext: true })
+
 export default {
   indexPathToField,
   fieldToIndexPath,
   toFieldName,
+  toIndexName,
   toIndex,
   toColumns,
+  toPaths,
+  toFulltextTable,
   make,
+  fulltext,
 }
\ No newline at end of file
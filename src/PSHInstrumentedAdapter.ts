@@ -0,0 +1,222 @@
+import PSHStorageAdapter, {
+  PSHResultSet, PSHStatementCallback, PSHStatementErrorCallback,
+  PSHStorageError, PSHStorageTransaction, PSHTableDescription
+} from './PSHStorageAdapter'
+import PSHQueryPlan, { PSHQueryPlanRow, PSHQueryPlanStep } from './PSHQueryPlan'
+import SQLColumnInfo from './types/sqlite/SQLColumnInfo'
+import PSHError from './PSHError'
+import { debugLogger, PSHLogger, quoteName } from './shared'
+
+
+export type PSHQueryOperation = 'query' | 'run' | 'try' | 'transaction'
+
+export interface PSHQueryEvent {
+  sql: string
+  args: unknown[]
+  operation: PSHQueryOperation
+  // the collection whose table (or history or full-text table) the statement names first
+  collection?: string
+  // ms, from when the statement could start to its result
+  duration: number
+  // rows read, or changed by a write
+  rows: number
+  error?: PSHStorageError
+  // for slow queries, how SQLite ran them
+  plan?: PSHQueryPlanStep[]
+}
+
+export interface PSHInstrumentationOptions {
+  // every statement, once it's done
+  onQuery?: (event: PSHQueryEvent) => void
+  // statements that take at least this many ms have their plan captured
+  slowQueryMs?: number
+  // defaults to a warning through the logger
+  onSlowQuery?: (event: PSHQueryEvent) => void
+}
+
+export interface PSHQueryStats {
+  statements: number
+  rows: number
+  // total ms
+  duration: number
+  slow: number
+  errors: number
+}
+
+const TABLE = /\b(?:FROM|INTO|UPDATE|TABLE(?: IF (?:NOT )?EXISTS)?|ON|table_info|index_list)\s*\(?\s*"((?:[^"]|"")+)"/i
+const COMPANION = /^_psh_(?:fts|history)_(.+)$/
+
+const toCollection = (sql: string): string|undefined => {
+  const match = sql.match(TABLE)
+  if (!match) return undefined
+  const table = match[1].replace(/""/g, '"')
+  const companion = table.match(COMPANION)
+  return companion ? companion[1] : table
+}
+
+const EXPLAINABLE = /^\s*(SELECT|UPDATE|DELETE)\b/i
+
+/**
+ * Times every statement an adapter runs, inside transactions too, and keeps counts per
+ * collection. Slow statements are explained with the adapter itself, so the plan arrives a
+ * little after the statement's own event.
+ */
+export default class PSHInstrumentedAdapter implements PSHStorageAdapter {
+  readonly adapter: PSHStorageAdapter
+  options: PSHInstrumentationOptions
+  private readonly logger: PSHLogger
+  private counters: Record<string, PSHQueryStats> = {}
+  private closed = false
+
+  constructor(adapter: PSHStorageAdapter, options: PSHInstrumentationOptions = {}, logger: PSHLogger = debugLogger()) {
+    this.adapter = adapter
+    this.options = options
+    this.logger = logger
+  }
+
+  get name() {
+    return this.adapter.name
+  }
+
+  // every statement after this rejects, so whatever still holds the database finds out
+  async close() {
+    this.closed = true
+    if (this.adapter.close) {
+      await this.adapter.close()
+    }
+  }
+
+  private checkOpen() {
+    if (this.closed) {
+      throw new PSHError(`${this.name} is closed`)
+    }
+  }
+
+  // counts since the adapter was created or last reset, by collection
+  stats(): Record<string, PSHQueryStats> {
+    return Object.fromEntries(Object.entries(this.counters).map(([colName, stats]) => [colName, { ...stats }]))
+  }
+
+  resetStats() {
+    this.counters = {}
+  }
+
+  private record(event: PSHQueryEvent) {
+    const slow = this.options.slowQueryMs !== undefined && event.duration >= this.options.slowQueryMs
+    if (event.collection) {
+      const stats = this.counters[event.collection] = this.counters[event.collection] || { statements: 0, rows: 0, duration: 0, slow: 0, errors: 0 }
+      stats.statements += 1
+      stats.rows += event.rows
+      stats.duration += event.duration
+      if (slow) stats.slow += 1
+      if (event.error) stats.errors += 1
+    }
+    this.notify(this.options.onQuery, event)
+    if (slow) {
+      this.explain(event).then(plan => {
+        const report = this.options.onSlowQuery || ((e: PSHQueryEvent) => this.logger.warn('PSHInstrumentedAdapter: slow query', e.duration, 'ms', e.sql, e.plan))
+        this.notify(report, plan ? { ...event, plan } : event)
+      })
+    }
+  }
+
+  private notify(listener: ((event: PSHQueryEvent) => void)|undefined, event: PSHQueryEvent) {
+    if (!listener) return
+    try {
+      listener(event)
+    } catch (e) {
+      this.logger.error('PSHInstrumentedAdapter listener error:', e)
+    }
+  }
+
+  private async explain(event: PSHQueryEvent): Promise<PSHQueryPlanStep[]|undefined> {
+    if (!EXPLAINABLE.test(event.sql)) return undefined
+    return this.adapter.query<PSHQueryPlanRow>(`EXPLAIN QUERY PLAN ${event.sql}`, event.args)
+      .then(PSHQueryPlan.toSteps)
+      .catch(e => { this.logger.error('PSHInstrumentedAdapter.explain', event.sql, e); return undefined })
+  }
+
+  private async timed<T>(operation: PSHQueryOperation, sql: string, args: unknown[]|undefined, run: () => Promise<T>, rows: (result: T) => number): Promise<T> {
+    this.checkOpen()
+    const start = Date.now()
+    const event = { sql, args: args || [], operation, collection: toCollection(sql) }
+    try {
+      const result = await run()
+      this.record({ ...event, duration: Date.now() - start, rows: rows(result) })
+      return result
+    } catch (e) {
+      this.record({ ...event, duration: Date.now() - start, rows: 0, error: e as PSHStorageError })
+      throw e
+    }
+  }
+
+  async count(sql: string): Promise<number> {
+    return this.timed('query', sql, [], () => this.adapter.count(sql), () => 1)
+  }
+
+  async countTable(table: string): Promise<number> {
+    const sql = `SELECT count(*) as count FROM ${quoteName(table)}`
+    return this.timed('query', sql, [], () => this.adapter.countTable(table), () => 1)
+  }
+
+  async tables(): Promise<string[]> {
+    const res = await this.query<{ name: string }>('SELECT name FROM sqlite_schema WHERE type="table" ORDER BY name')
+    return res.map(r => r.name)
+  }
+
+  async describe(tableName: string): Promise<PSHTableDescription> {
+    const sql = `PRAGMA table_info(${quoteName(tableName)})`
+    const columns = await this.query<SQLColumnInfo>(sql)
+    return { name: tableName, columns }
+  }
+
+  async try(sql: string): Promise<boolean> {
+    return this.timed('try', sql, [], () => this.adapter.try(sql), () => 0)
+  }
+
+  async query<T>(sql: string, args?: Array<unknown>): Promise<T[]> {
+    return this.timed('query', sql, args, () => this.adapter.query<T>(sql, args), rows => rows.length)
+  }
+
+  async findOne<T>(sql: string, args?: Array<unknown>): Promise<T|null> {
+    return this.timed('query', sql, args, () => this.adapter.findOne<T>(sql, args), row => row ? 1 : 0)
+  }
+
+  async get<T>(sql: string, args?: Array<unknown>): Promise<T|null> {
+    return this.timed('query', sql, args, () => this.adapter.get<T>(sql, args), row => row ? 1 : 0)
+  }
+
+  async run(sql: string, args?: Array<unknown>): Promise<PSHResultSet> {
+    return this.timed('run', sql, args, () => this.adapter.run(sql, args), results => results.rowsAffected)
+  }
+
+  // statements queue behind each other, so each is timed from when the one before it finished
+  async transaction(callback: (tx: PSHStorageTransaction) => void): Promise<void> {
+    this.checkOpen()
+    return this.adapter.transaction(tx => {
+      let ready = Date.now()
+      const instrumented: PSHStorageTransaction = {
+        executeSql: (sql, args, onSuccess, onError) => {
+          const queued = Date.now()
+          const event = { sql, args: args || [], operation: 'transaction' as PSHQueryOperation, collection: toCollection(sql) }
+          const done = () => {
+            const now = Date.now()
+            const duration = now - Math.max(queued, ready)
+            ready = now
+            return duration
+          }
+          const success: PSHStatementCallback = (tx, results) => {
+            this.record({ ...event, duration: done(), rows: results.rows.length || results.rowsAffected })
+            if (onSuccess) onSuccess(instrumented, results)
+          }
+          const failure: PSHStatementErrorCallback = (tx, error) => {
+            this.record({ ...event, duration: done(), rows: 0, error })
+            return onError ? onError(instrumented, error) : true
+          }
+          tx.executeSql(sql, args, success, failure)
+        }
+      }
+      callback(instrumented)
+    })
+  }
+}
\ No newline at end of file
@@ -0,0 +1,16 @@
+import PSHError from './PSHError'
+
+
+export type PSHIdentifierKind = 'collection' | 'field' | 'index'
+
+export default class PSHInvalidIdentifierError extends PSHError {
+  readonly kind: PSHIdentifierKind
+  readonly identifier: string
+
+  constructor(kind: PSHIdentifierKind, identifier: string, reason: string, collection?: string) {
+    super(`Invalid ${kind} ${JSON.stringify(identifier)}${collection ? ` in ${collection}` : ''}: ${reason}`, { collection })
+    this.name = 'PSHInvalidIdentifierError'
+    this.kind = kind
+    this.identifier = identifier
+  }
+}
\ No newline at end of file
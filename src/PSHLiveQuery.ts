@@ -0,0 +1,183 @@
+import { isEqual } from 'underscore'
+import type PSHCollection from './PSHCollection'
+import PSHDatabaseQuery, { PSHQueryOptions } from './PSHDatabaseQuery'
+import PSHEvent from './events/PSHEvent'
+import Pea from './Pea'
+import { applyQueryOptions, matchesQuery } from './shared'
+
+
+export interface PSHQueryMove {
+  id: string
+  from: number
+  to: number
+}
+
+export interface PSHQueryDelta<Data extends Pea=Pea> {
+  added: Data[]
+  removed: Data[]
+  changed: Data[]
+  moved: PSHQueryMove[]
+}
+
+export type PSHLiveQueryListener<Data extends Pea=Pea> = (results: Data[], delta: PSHQueryDelta<Data>) => void|Promise<void>
+export type PSHLiveQueryErrorListener = (error: Error) => void
+
+const isEmpty = (delta: PSHQueryDelta) => delta.added.length + delta.removed.length + delta.changed.length + delta.moved.length === 0
+
+export const diffResults = <Data extends Pea>(previous: Data[], results: Data[]): PSHQueryDelta<Data> => {
+  const before = new Map(previous.map((doc, i) => [doc.id, i]))
+  const after = new Map(results.map((doc, i) => [doc.id, i]))
+  const keptBefore = previous.filter(doc => after.has(doc.id)).map(doc => doc.id)
+  const keptAfter = results.filter(doc => before.has(doc.id)).map(doc => doc.id)
+  return {
+    added: results.filter(doc => !before.has(doc.id)),
+    removed: previous.filter(doc => !after.has(doc.id)),
+    changed: results.filter(doc => before.has(doc.id) && !isEqual(previous[before.get(doc.id)!], doc)),
+    // documents whose order relative to the other surviving documents changed
+    moved: keptAfter.filter((id, i) => keptBefore[i] !== id).map(id => ({ id, from: before.get(id)!, to: after.get(id)! }))
+  }
+}
+
+/**
+ * Keeps the results of a query current as the collection changes. Writes and deletes are
+ * applied in memory with `matchesQuery`, coalesced per microtask; the query is only re-run
+ * for bulk changes, or when it has a limit/offset and a change touches the window.
+ */
+export default class PSHLiveQuery<Data extends Pea=Pea> {
+  readonly collection: PSHCollection<Pea>
+  readonly query: PSHDatabaseQuery
+  readonly options: PSHQueryOptions
+  results: Data[] = []
+  private readonly listener: PSHLiveQueryListener<Data>
+  private readonly errorListener?: PSHLiveQueryErrorListener
+  private matching = new Map<string, Data>()
+  private pending: PSHEvent<Data>[] = []
+  private unsubscribers: Array<() => void> = []
+  private reload = false
+  private loading = false
+  private scheduled = false
+  private published = false
+  private stopped = false
+
+  constructor(collection: PSHCollection<Pea>, query: PSHDatabaseQuery, listener: PSHLiveQueryListener<Data>, options?: PSHQueryOptions, errorListener?: PSHLiveQueryErrorListener) {
+    this.collection = collection
+    this.query = query
+    this.listener = listener
+    this.errorListener = errorListener
+    this.options = { ...options }
+  }
+
+  private get windowed() {
+    return this.options.limit !== undefined || this.options.offset !== undefined
+  }
+
+  start() {
+    const enqueue = (event: PSHEvent<Data>) => {
+      this.pending.push(event)
+      this.schedule()
+    }
+    this.unsubscribers = [
+      this.collection.on<Data>('write', enqueue),
+      this.collection.on<Data>('delete', enqueue),
+      this.collection.db.events.onBatch(this.collection.name, batch => {
+        if (batch.reload) {
+          this.reload = true
+          this.schedule()
+        }
+      })
+    ]
+    this.load()
+    return this
+  }
+
+  stop() {
+    this.stopped = true
+    this.unsubscribers.forEach(unsubscribe => unsubscribe())
+    this.unsubscribers = []
+  }
+
+  private schedule() {
+    if (this.scheduled) return
+    this.scheduled = true
+    Promise.resolve().then(() => this.flush())
+  }
+
+  private flush() {
+    this.scheduled = false
+    if (this.stopped || this.loading) return
+    const relevant = this.pending.some(e => this.matching.has(e.id) || this.matches(this.toDoc(e)))
+    if (this.reload || (this.windowed && relevant)) {
+      this.load()
+      return
+    }
+    if (!this.windowed) {
+      this.apply(this.pending)
+    }
+    this.pending = []
+    this.publish()
+  }
+
+  // the written document as a read would return it: the event's date stands in for `saved`,
+  // which written data doesn't carry
+  private toDoc(event: PSHEvent<Data>): Data|undefined {
+    return event.type === 'write' && event.data ? { ...event.data, saved: event.date } : undefined
+  }
+
+  private matches(doc: Data|undefined): doc is Data {
+    return !!doc && matchesQuery(doc, this.query) && !this.collection.db.isExpired(this.collection.name, doc)
+  }
+
+  private apply(events: PSHEvent<Data>[]) {
+    events.forEach(event => {
+      const doc = this.toDoc(event)
+      if (this.matches(doc)) {
+        this.matching.set(event.id, doc)
+      } else {
+        this.matching.delete(event.id)
+      }
+    })
+  }
+
+  private async load() {
+    this.loading = true
+    this.reload = false
+    // everything queued so far was committed before this query runs
+    this.pending = []
+    try {
+      // written data carries references rather than what they reference, so results don't populate
+      const docs = await this.collection.find<Data>(this.query, { ...this.options, fields: undefined, populate: undefined })
+      this.matching = new Map(docs.map(doc => [doc.id, doc]))
+    } catch (e) {
+      this.collection.db.logger.error('PSHLiveQuery.load', this.collection.qualifiedName, this.query, e)
+      if (!this.stopped && this.errorListener) this.errorListener(e as Error)
+      return
+    } finally {
+      this.loading = false
+    }
+    if (this.stopped) return
+    if (!this.windowed) {
+      this.apply(this.pending)
+      this.pending = []
+    }
+    this.publish()
+    if (this.pending.length > 0 || this.reload) {
+      this.schedule()
+    }
+  }
+
+  private publish() {
+    const docs = Array.from(this.matching.values())
+    const results = applyQueryOptions(docs, { orderBy: this.windowed ? undefined : this.options.orderBy, fields: this.options.fields })
+    const delta = diffResults(this.results, results)
+    if (this.published && isEmpty(delta)) return
+    this.collection.db.logger.log('PSHLiveQuery.publish', this.collection.qualifiedName, results.length, 'results')
+    this.published = true
+    this.results = results
+    try {
+      const ret = this.listener(results, delta)
+      if (ret) ret.catch(e => this.collection.db.logger.error('PSHLiveQuery listener error:', e))
+    } catch (e) {
+      this.collection.db.logger.error('PSHLiveQuery listener error:', e)
+    }
+  }
+}
\ No newline at end of file
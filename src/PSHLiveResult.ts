@@ -0,0 +1,94 @@
+import { isEqual } from 'underscore'
+import type PSHCollection from './PSHCollection'
+import Pea from './Pea'
+
+
+export type PSHLiveResultListener<Result> = (result: Result) => void|Promise<void>
+export type PSHLiveResultErrorListener = (error: Error) => void
+
+/**
+ * Keeps a result computed from a whole collection, like a ranking or a count, current:
+ * any write, delete or reload recomputes it, coalesced per microtask, and listeners only
+ * hear about results that changed.
+ */
+export default class PSHLiveResult<Result> {
+  readonly collection: PSHCollection<Pea>
+  result?: Result
+  private readonly compute: () => Promise<Result>
+  private readonly listener: PSHLiveResultListener<Result>
+  private readonly errorListener?: PSHLiveResultErrorListener
+  private unsubscribers: Array<() => void> = []
+  private dirty = false
+  private loading = false
+  private scheduled = false
+  private published = false
+  private stopped = false
+
+  constructor(collection: PSHCollection<Pea>, compute: () => Promise<Result>, listener: PSHLiveResultListener<Result>, errorListener?: PSHLiveResultErrorListener) {
+    this.collection = collection
+    this.compute = compute
+    this.listener = listener
+    this.errorListener = errorListener
+  }
+
+  start() {
+    const schedule = () => this.schedule()
+    this.unsubscribers = [
+      this.collection.on('write', schedule),
+      this.collection.on('delete', schedule),
+      this.collection.db.events.onBatch(this.collection.name, batch => {
+        if (batch.reload) this.schedule()
+      })
+    ]
+    this.load()
+    return this
+  }
+
+  stop() {
+    this.stopped = true
+    this.unsubscribers.forEach(unsubscribe => unsubscribe())
+    this.unsubscribers = []
+  }
+
+  private schedule() {
+    this.dirty = true
+    if (this.scheduled) return
+    this.scheduled = true
+    Promise.resolve().then(() => {
+      this.scheduled = false
+      if (!this.stopped && !this.loading) this.load()
+    })
+  }
+
+  private async load() {
+    this.loading = true
+    this.dirty = false
+    let result: Result
+    try {
+      result = await this.compute()
+    } catch (e) {
+      this.collection.db.logger.error('PSHLiveResult.load', this.collection.qualifiedName, e)
+      if (!this.stopped && this.errorListener) this.errorListener(e as Error)
+      return
+    } finally {
+      this.loading = false
+    }
+    if (this.stopped) return
+    this.publish(result)
+    // changes committed while it was computed
+    if (this.dirty) this.schedule()
+  }
+
+  private publish(result: Result) {
+    if (this.published && isEqual(this.result, result)) return
+    this.collection.db.logger.log('PSHLiveResult.publish', this.collection.qualifiedName)
+    this.published = true
+    this.result = result
+    try {
+      const ret = this.listener(result)
+      if (ret) ret.catch(e => this.collection.db.logger.error('PSHLiveResult listener error:', e))
+    } catch (e) {
+      this.collection.db.logger.error('PSHLiveResult listener error:', e)
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,25 @@
+import type PSHCollection from './PSHCollection'
+import PSHLiveResult, { PSHLiveResultErrorListener, PSHLiveResultListener } from './PSHLiveResult'
+import { PSHSearchOptions, PSHSearchResult } from './PSHSearch'
+import Pea from './Pea'
+
+
+export type PSHLiveSearchListener<Data extends Pea=Pea> = PSHLiveResultListener<PSHSearchResult<Data>[]>
+export type PSHLiveSearchErrorListener = PSHLiveResultErrorListener
+
+// ranking depends on the whole collection, so every change re-runs the search
+export default class PSHLiveSearch<Data extends Pea=Pea> extends PSHLiveResult<PSHSearchResult<Data>[]> {
+  readonly text: string
+  readonly options: PSHSearchOptions
+
+  constructor(collection: PSHCollection<Pea>, text: string, listener: PSHLiveSearchListener<Data>, options?: PSHSearchOptions, errorListener?: PSHLiveSearchErrorListener) {
+    const searchOptions = { ...options }
+    super(collection, () => collection.search<Data>(text, searchOptions), listener, errorListener)
+    this.text = text
+    this.options = searchOptions
+  }
+
+  get results(): PSHSearchResult<Data>[] {
+    return this.result || []
+  }
+}
\ No newline at end of file
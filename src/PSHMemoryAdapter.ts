@@ -0,0 +1,29 @@
+import PSHWebSQLAdapter from './PSHWebSQLAdapter'
+import PSHMemoryDatabase from './memory/PSHMemoryDatabase'
+import { PSHStorageConnectOptions } from './PSHStorageAdapter'
+
+
+export default class PSHMemoryAdapter extends PSHWebSQLAdapter<PSHMemoryDatabase> {
+  private static _databases: Record<string,PSHMemoryDatabase> = {}
+
+  // databases live as long as the process, so reconnecting by name sees earlier writes
+  static async connect({ name }: Pick<PSHStorageConnectOptions, 'name'>): Promise<PSHMemoryAdapter> {
+    let db = PSHMemoryAdapter._databases[name]
+    if (!db) {
+      PSHMemoryAdapter._databases[name] = db = new PSHMemoryDatabase()
+    }
+    return new PSHMemoryAdapter(db, name)
+  }
+
+  async drop() {
+    delete PSHMemoryAdapter._databases[this.name]
+  }
+
+  static clear(name?: string) {
+    if (name) {
+      delete PSHMemoryAdapter._databases[name]
+    } else {
+      PSHMemoryAdapter._databases = {}
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,40 @@
+import PSHStorageAdapter from './PSHStorageAdapter'
+import PSHDeferredWrite from './PSHDeferredWrite'
+
+
+/**
+ * Key/value bookkeeping the database keeps about itself (applied index schemas and the like),
+ * stored as JSON in a table alongside the collections.
+ */
+export default class PSHMetadata {
+  static readonly TABLE = '_psh_meta'
+
+  sqlDb: PSHStorageAdapter
+
+  constructor(sqlDb: PSHStorageAdapter) {
+    this.sqlDb = sqlDb
+  }
+
+  async initialize() {
+    await this.sqlDb.run(`CREATE TABLE IF NOT EXISTS ${PSHMetadata.TABLE} (key TEXT PRIMARY KEY, value TEXT NOT NULL)`)
+  }
+
+  async get<T>(key: string): Promise<T|undefined> {
+    const row = await this.sqlDb.get<{ value: string }>(`SELECT value FROM ${PSHMetadata.TABLE} WHERE key = ?`, [key])
+    return row ? JSON.parse(row.value) as T : undefined
+  }
+
+  toWrite<T>(key: string, value: T): PSHDeferredWrite {
+    const json = JSON.stringify(value)
+    return { sql: `INSERT INTO ${PSHMetadata.TABLE} (key, value) VALUES (?, ?) ON CONFLICT (key) DO UPDATE SET value = ?`, args: [key, json, json] }
+  }
+
+  async set<T>(key: string, value: T) {
+    const { sql, args } = this.toWrite(key, value)
+    await this.sqlDb.run(sql, args)
+  }
+
+  async delete(key: string) {
+    await this.sqlDb.run(`DELETE FROM ${PSHMetadata.TABLE} WHERE key = ?`, [key])
+  }
+}
\ No newline at end of file
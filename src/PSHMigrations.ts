@@ -0,0 +1,44 @@
+import PSHConfigError from './PSHConfigError'
+import Pea from './Pea'
+
+
+// typed as a method so that each upgrade can name the shapes it takes and returns, which differ by version
+export type PSHUpgrade = { upgrade(doc: Pea): object }['upgrade']
+
+export type PSHMigrationStrategy = 'eager' | 'lazy'
+
+/**
+ * `upgrades[n]` takes a document from version `n` to `n + 1`; documents saved before a
+ * collection had migrations are version 0.
+ */
+export interface PSHMigrationSpec {
+  version: number
+  upgrades: PSHUpgrade[]
+  strategy?: PSHMigrationStrategy
+}
+
+export interface PSHMigrationProgress {
+  collection: string
+  version: number
+  done: number
+  total: number
+}
+
+const validate = (colName: string, spec: PSHMigrationSpec) => {
+  if (spec.upgrades.length < spec.version) {
+    throw new PSHConfigError(`PSHMigrations: ${colName} is at version ${spec.version} but only has ${spec.upgrades.length} upgrades`, colName)
+  }
+}
+
+const upgrade = <Data extends Pea>(doc: Data, from: number, spec: PSHMigrationSpec): Data => {
+  let upgraded = doc
+  for (let version = from; version < spec.version; version++) {
+    upgraded = { ...spec.upgrades[version](upgraded), id: doc.id } as Data
+  }
+  return upgraded
+}
+
+export default {
+  validate,
+  upgrade,
+}
\ No newline at end of file
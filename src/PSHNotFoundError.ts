@@ -0,0 +1,14 @@
+import PSHError from './PSHError'
+
+
+export default class PSHNotFoundError extends PSHError {
+  readonly collection: string
+  readonly id: string
+
+  constructor(collection: string, id: string, message = `${collection}/${id} not found`) {
+    super(message, { collection, id })
+    this.name = 'PSHNotFoundError'
+    this.collection = collection
+    this.id = id
+  }
+}
\ No newline at end of file
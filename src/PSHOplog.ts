@@ -0,0 +1,83 @@
+import PSHStorageAdapter from './PSHStorageAdapter'
+import PSHDeferredWrite from './PSHDeferredWrite'
+import { PSHEventType } from './events/PSHEvent'
+import Pea from './Pea'
+import type PSHEncryption from './PSHEncryption'
+import { quoteName } from './shared'
+
+
+export interface PSHChange<Data extends Pea=Pea> {
+  seq: number
+  col: string
+  id: string
+  type: PSHEventType
+  date: number
+  data?: Data
+}
+
+interface PSHChangeRow {
+  seq: number
+  col: string
+  id: string
+  type: PSHEventType
+  json: string|null
+  date: number
+}
+
+/**
+ * Local writes and deletes in commit order, numbered by a sequence that never goes backwards
+ * (the table is AUTOINCREMENT, so truncating doesn't reuse numbers). Entries are appended
+ * in the same SQLite transaction as the change they record.
+ */
+export default class PSHOplog {
+  static readonly TABLE = '_psh_oplog'
+
+  sqlDb: PSHStorageAdapter
+  // data from encrypted collections is kept as the collection stores it
+  encryption?: PSHEncryption
+
+  constructor(sqlDb: PSHStorageAdapter, encryption?: PSHEncryption) {
+    this.sqlDb = sqlDb
+    this.encryption = encryption
+  }
+
+  async initialize() {
+    await this.sqlDb.run(`CREATE TABLE IF NOT EXISTS ${PSHOplog.TABLE} (seq INTEGER PRIMARY KEY AUTOINCREMENT, col TEXT NOT NULL, id TEXT NOT NULL, type TEXT NOT NULL, json TEXT, date INTEGER NOT NULL)`)
+  }
+
+  toAppend(col: string, id: string, type: PSHEventType, data?: Pea): PSHDeferredWrite {
+    return {
+      sql: `INSERT INTO ${PSHOplog.TABLE} (col, id, type, json, date) VALUES (?, ?, ?, ?, ?)`,
+      args: [col, id, type, data ? JSON.stringify(this.encryption ? this.encryption.encrypt(col, data) : data) : null, Date.now()]
+    }
+  }
+
+  // records a delete for every row of a collection, ahead of a wipe or drop
+  toAppendDeleteAll(col: string): PSHDeferredWrite {
+    return {
+      sql: `INSERT INTO ${PSHOplog.TABLE} (col, id, type, json, date) SELECT ?, id, 'delete', NULL, ? FROM ${quoteName(col)}`,
+      args: [col, Date.now()]
+    }
+  }
+
+  async changesSince(seq: number, limit?: number, collections?: string[]): Promise<PSHChange[]> {
+    const filter = collections ? ` AND col IN (${collections.map(() => '?').join(', ')})` : ''
+    const rows = await this.sqlDb.query<PSHChangeRow>(
+      `SELECT seq, col, id, type, json, date FROM ${PSHOplog.TABLE} WHERE seq > ?${filter} ORDER BY seq LIMIT ?`,
+      ([seq] as unknown[]).concat(collections || [], [limit !== undefined ? limit : -1])
+    )
+    const decrypt = (col: string, json: string) => this.encryption ? this.encryption.decrypt(col, JSON.parse(json)) : JSON.parse(json)
+    return rows.map(({ json, ...change }) => json ? { ...change, data: decrypt(change.col, json) } : change)
+  }
+
+  async lastSeq(): Promise<number> {
+    const row = await this.sqlDb.get<{ seq: number }>(`SELECT seq FROM sqlite_sequence WHERE name = ?`, [PSHOplog.TABLE])
+    return row ? row.seq : 0
+  }
+
+  // of these collections only, if given
+  async truncate(throughSeq: number, collections?: string[]) {
+    const filter = collections ? ` AND col IN (${collections.map(() => '?').join(', ')})` : ''
+    await this.sqlDb.run(`DELETE FROM ${PSHOplog.TABLE} WHERE seq <= ?${filter}`, ([throughSeq] as unknown[]).concat(collections || []))
+  }
+}
\ No newline at end of file
@@ -0,0 +1,56 @@
+export type PSHQueryPlanOperation = 'scan' | 'search' | 'temp' | 'subquery' | 'other'
+
+// one line of SQLite's EXPLAIN QUERY PLAN, with what it says parsed out
+export interface PSHQueryPlanStep {
+  detail: string
+  operation: PSHQueryPlanOperation
+  table?: string
+  index?: string
+  // the columns an index was searched by, as in `(a=? AND b>?)`
+  constraints?: string[]
+  children: PSHQueryPlanStep[]
+}
+
+export interface PSHQueryPlanRow {
+  id: number
+  parent: number
+  detail: string
+}
+
+const toOperation = (detail: string): PSHQueryPlanOperation => {
+  if (/^SCAN /.test(detail)) return 'scan'
+  if (/^SEARCH /.test(detail)) return 'search'
+  if (/^USE TEMP B-TREE/.test(detail)) return 'temp'
+  if (/SUBQUERY|CO-ROUTINE/.test(detail)) return 'subquery'
+  return 'other'
+}
+
+const toStep = (detail: string): PSHQueryPlanStep => {
+  const step: PSHQueryPlanStep = { detail, operation: toOperation(detail), children: [] }
+  const table = detail.match(/^(?:SCAN|SEARCH) (?:TABLE )?(\S+)/)
+  if (table) step.table = table[1]
+  const index = detail.match(/USING (?:COVERING )?INDEX (\S+)/)
+  if (index) step.index = index[1]
+  const constraints = detail.match(/USING (?:(?:COVERING )?INDEX \S+|INTEGER PRIMARY KEY) \((.*)\)/)
+  if (constraints) step.constraints = constraints[1].split(' AND ').map(term => term.replace(/[=<>!].*$/, '').replace(/rowid/, 'id').trim())
+  return step
+}
+
+// the plan's rows as a tree, by their parent ids
+const toSteps = (rows: PSHQueryPlanRow[]): PSHQueryPlanStep[] => {
+  const steps = new Map<number, PSHQueryPlanStep>()
+  const roots: PSHQueryPlanStep[] = []
+  rows.forEach(row => {
+    const step = toStep(row.detail)
+    steps.set(row.id, step)
+    const parent = steps.get(row.parent)
+    if (parent) parent.children.push(step)
+    else roots.push(step)
+  })
+  return roots
+}
+
+export default {
+  toStep,
+  toSteps,
+}
\ No newline at end of file
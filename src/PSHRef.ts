@@ -1,11 +1,12 @@
 import Pea from './Pea'
 import type PSHCollection from './PSHCollection'
+import type { PSHRefData } from './PSHRefs'
 
 export default class PSHRef {
-  collection: PSHCollection
+  collection: PSHCollection<Pea>
   id: string
 
-  constructor(collection: PSHCollection, id: string) {
+  constructor(collection: PSHCollection<Pea>, id: string) {
     this.collection = collection
     this.id = id
   }
@@ -21,4 +22,9 @@ export default class PSHRef {
   toWrite(ob: Pea) {
     return this.collection.toWrite(this.id, ob)
   }
+
+  // how a reference saved inside a document is stored
+  toJSON(): PSHRefData {
+    return { collection: this.collection.name, id: this.id }
+  }
 }
\ No newline at end of file
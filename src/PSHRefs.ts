@@ -0,0 +1,124 @@
+import { chunk, get, groupBy, uniq } from 'underscore'
+import type PSHDatabase from './PSHDatabase'
+import PSHRef from './PSHRef'
+import PSHNotFoundError from './PSHNotFoundError'
+import Pea from './Pea'
+
+
+// ids per `in` query, well under SQLite's limit of 999 bound parameters
+const BATCH_SIZE = 500
+
+// how a reference is stored: the referenced document's collection and id
+export interface PSHRefData {
+  collection: string
+  id: string
+}
+
+// what deleting a referenced document does to the documents referring to it; wiping or dropping the
+// referenced collection doesn't cascade, but is refused while a restricting reference remains
+export type PSHRefAction = 'cascade' | 'restrict'
+
+export interface PSHRefSpec {
+  // the collection referenced
+  to: string
+  onDelete?: PSHRefAction
+}
+
+// a collection's declared reference paths; each holds one reference
+export type PSHRefSpecs = Record<string, PSHRefSpec>
+
+export interface PSHReferrer {
+  collection: string
+  path: string
+  onDelete?: PSHRefAction
+}
+
+export interface PSHBackRef<Data extends Pea=Pea> {
+  collection: string
+  path: string
+  doc: Data
+}
+
+export type PSHMissingRef = 'null' | 'keep' | 'error'
+
+export interface PSHPopulateOptions {
+  // paths holding a reference, or an array of them; the collection's declared refs by default
+  paths?: string[]
+  // levels of references followed, through the declared refs of each referenced collection
+  depth?: number
+  // what a reference to a missing document becomes
+  missing?: PSHMissingRef
+}
+
+export type PSHPopulate = true | string[] | PSHPopulateOptions
+
+const isRefData = (value: unknown): value is PSHRefData => !!value && typeof value === 'object' && !Array.isArray(value) &&
+  typeof (value as PSHRefData).collection === 'string' && typeof (value as PSHRefData).id === 'string'
+
+// replaces PSHRef instances with their stored form, copying only what changes
+const serialize = <T>(value: T): T => {
+  if (value instanceof PSHRef) return value.toJSON() as unknown as T
+  if (Array.isArray(value)) {
+    const items = value.map(serialize)
+    return items.some((item, i) => item !== value[i]) ? items as unknown as T : value
+  }
+  if (value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+    const entries = Object.entries(value).map(([key, item]) => [key, serialize(item)] as const)
+    return entries.some(([key, item]) => item !== (value as Record<string, unknown>)[key]) ? Object.fromEntries(entries) as T : value
+  }
+  return value
+}
+
+const toPopulateOptions = (populate: PSHPopulate): PSHPopulateOptions =>
+  populate === true ? {} : Array.isArray(populate) ? { paths: populate } : populate
+
+// a copy of the object with the value at the path replaced
+const setPath = (ob: object, path: string[], value: unknown): object => {
+  const [key, ...rest] = path
+  const current = (ob as Record<string, unknown>)[key]
+  return { ...ob, [key]: rest.length > 0 && current && typeof current === 'object' ? setPath(current, rest, value) : value }
+}
+
+/**
+ * Replaces references in documents with the documents they reference, loading each
+ * collection's referenced documents with one query per level.
+ */
+const populate = async <Data extends Pea>(db: PSHDatabase, colName: string, docs: Data[], populate: PSHPopulate): Promise<Data[]> => {
+  const { paths, depth = 1, missing = 'null' } = toPopulateOptions(populate)
+  if (depth < 1 || docs.length === 0) return docs
+  const refPaths = paths || Object.keys(db.refsFor(colName))
+  const refs = docs.flatMap(doc => refPaths.flatMap(path => {
+    const value = get(doc, path.split('.'))
+    return (Array.isArray(value) ? value : [value]).filter(isRefData)
+  }))
+  const loaded = new Map<string, Pea>()
+  for (const [collection, group] of Object.entries(groupBy(refs, ref => ref.collection))) {
+    const found: Pea[] = []
+    for (const ids of chunk(uniq(group.map(ref => ref.id)), BATCH_SIZE)) {
+      found.push(...await db.col(collection).find({ id: ['in', ids] }))
+    }
+    const populated = await db.populate(collection, found, { depth: depth - 1, missing })
+    populated.forEach(doc => loaded.set(`${collection}/${doc.id}`, doc))
+  }
+  const resolve = (doc: Data, ref: PSHRefData) => {
+    const target = loaded.get(`${ref.collection}/${ref.id}`)
+    if (target) return target
+    if (missing === 'error') {
+      throw new PSHNotFoundError(ref.collection, ref.id, `${colName}/${doc.id} refers to missing ${ref.collection}/${ref.id}`)
+    }
+    return missing === 'keep' ? ref : null
+  }
+  return docs.map(doc => refPaths.reduce((ob, path) => {
+    const value = get(ob, path.split('.'))
+    if (Array.isArray(value) && value.some(isRefData)) {
+      return setPath(ob, path.split('.'), value.map(item => isRefData(item) ? resolve(doc, item) : item)) as Data
+    }
+    return isRefData(value) ? setPath(ob, path.split('.'), resolve(doc, value)) as Data : ob
+  }, doc))
+}
+
+export default {
+  isRefData,
+  serialize,
+  populate,
+}
\ No newline at end of file
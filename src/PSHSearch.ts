@@ -0,0 +1,44 @@
+import Pea from './Pea'
+
+
+export interface PSHSnippetOptions {
+  open?: string
+  close?: string
+  ellipsis?: string
+  // how many tokens of context the snippet holds
+  tokens?: number
+}
+
+export interface PSHSearchOptions {
+  // full-text paths to search; all of the collection's by default
+  fields?: string[]
+  limit?: number
+  offset?: number
+  snippet?: PSHSnippetOptions
+}
+
+export interface PSHSearchResult<Data extends Pea=Pea> {
+  doc: Data
+  // bm25 relevance, higher is better
+  score: number
+  // the best-matching passage, with matches wrapped in `open`/`close`
+  snippet: string
+}
+
+/**
+ * Turns what a user typed into an FTS5 query: every word must match, and the last one
+ * matches as a prefix unless the text ends with a space. Words are quoted, so FTS5 syntax
+ * in the text is searched for rather than interpreted.
+ */
+const toMatchQuery = (text: string, columns?: string[]): string|null => {
+  const words = text.split(/\s+/).filter(word => /[\p{L}\p{N}]/u.test(word))
+  if (words.length === 0) return null
+  const typing = !/\s$/.test(text)
+  const phrases = words.map((word, i) => `"${word.replace(/"/g, '""')}"${typing && i === words.length - 1 ? '*' : ''}`)
+  const query = phrases.join(' ')
+  return columns ? `{${columns.join(' ')}} : (${query})` : query
+}
+
+export default {
+  toMatchQuery,
+}
\ No newline at end of file
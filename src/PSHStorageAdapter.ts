@@ -0,0 +1,62 @@
+import SQLColumnInfo from './types/sqlite/SQLColumnInfo'
+
+
+export interface PSHStorageConnectOptions {
+  name: string
+  version: string
+  description: string
+  size?: number
+}
+
+export interface PSHResultRows {
+  length: number
+  item(index: number): Record<string, unknown>
+}
+
+export interface PSHResultSet {
+  insertId?: number
+  rowsAffected: number
+  rows: PSHResultRows
+}
+
+export interface PSHStorageError {
+  code?: number
+  message: string
+}
+
+export type PSHStatementCallback = (tx: PSHStorageTransaction, results: PSHResultSet) => void
+export type PSHStatementErrorCallback = (tx: PSHStorageTransaction, error: PSHStorageError) => boolean
+
+/**
+ * The WebSQL-style transaction handed to `PSHStorageAdapter.transaction` callbacks.
+ * Statements queue in order; a statement callback may enqueue more statements, and
+ * an unhandled statement error (or a throwing callback) rolls the whole thing back.
+ */
+export interface PSHStorageTransaction {
+  executeSql(sql: string, args?: Array<unknown>, callback?: PSHStatementCallback, errorCallback?: PSHStatementErrorCallback): void
+}
+
+export interface PSHTableDescription {
+  name: string
+  columns: SQLColumnInfo[]
+}
+
+export default interface PSHStorageAdapter {
+  readonly name: string
+  count(sql: string): Promise<number>
+  countTable(table: string): Promise<number>
+  tables(): Promise<string[]>
+  describe(tableName: string): Promise<PSHTableDescription>
+  try(sql: string): Promise<boolean>
+  query<T>(sql: string, args?: Array<unknown>): Promise<T[]>
+  findOne<T>(sql: string, args?: Array<unknown>): Promise<T|null>
+  get<T>(sql: string, args?: Array<unknown>): Promise<T|null>
+  run(sql: string, args?: Array<unknown>): Promise<PSHResultSet>
+  transaction(callback: (tx: PSHStorageTransaction) => void): Promise<void>
+  // releases the connection, for engines that hold one open
+  close?(): Promise<void>
+  // removes the database itself; without it, deleting a database drops its tables
+  drop?(): Promise<void>
+}
+
+export type PSHStorageAdapterFactory = (options: PSHStorageConnectOptions) => Promise<PSHStorageAdapter>
\ No newline at end of file
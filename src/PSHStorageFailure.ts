@@ -0,0 +1,13 @@
+import PSHError, { PSHErrorContext } from './PSHError'
+
+
+// a statement the storage adapter refused; `cause` is the adapter's own error
+export default class PSHStorageFailure extends PSHError {
+  readonly code?: number
+
+  constructor(message: string, context: PSHErrorContext & { code?: number }) {
+    super(message, context)
+    this.name = 'PSHStorageFailure'
+    this.code = context.code
+  }
+}
\ No newline at end of file
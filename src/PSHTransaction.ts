@@ -1,83 +1,443 @@
-import { SQLTransaction } from 'react-native-sqlite-2'
-
+import { uniq } from 'underscore'
 import PSHRef from './PSHRef'
-import PSHCollection from './PSHCollection'
 import PSHDeferredWrite from './PSHDeferredWrite'
-import PSHSQLiteWrapper from './PSHSQLiteWrapper'
+import PSHCollection, { PSHUpdater, PSHUpsert } from './PSHCollection'
+import PSHStorageAdapter, { PSHResultSet, PSHStorageTransaction } from './PSHStorageAdapter'
+import PSHDatabaseQuery, { PSHQueryOptions } from './PSHDatabaseQuery'
+import PSHEventsLight from './events/PSHEventsLight'
+import PSHEvent, { PSHEventType } from './events/PSHEvent'
+import PSHConflictError from './PSHConflictError'
+import PSHUniqueViolation from './PSHUniqueViolation'
+import PSHNotFoundError from './PSHNotFoundError'
+import PSHError from './PSHError'
+import PSHRefs from './PSHRefs'
+import type PSHUndoStack from './PSHUndoStack'
+import type { PSHUndoChange } from './PSHUndoStack'
+import type { Wrapped } from './PSHDatabase'
 import Pea from './Pea'
-import { maybeLog } from './shared'
+import { debugLogger, PSHLogger, quoteName } from './shared'
+
 
+export interface PSHTransactionOptions {
+  // changes pulled from elsewhere: not validated, not added to the oplog, and their events are marked remote
+  remote?: boolean
+  // write each document's `saved` date rather than the time of the write, as imports do
+  keepSaved?: boolean
+  // records each committed execute as one step that the stack can undo
+  undo?: PSHUndoStack
+  // leaves events to the caller, as a write-behind queue that emitted them already does
+  quiet?: boolean
+  // runs ahead of each execute, as flushing queued writes that have to land first
+  before?: () => Promise<void>
+  // where debug output goes
+  logger?: PSHLogger
+}
 
+/**
+ * Saves, updates and deletes across collections, applied in order inside one SQLite
+ * transaction. Any failure, including a validation error or a missing document for `update`,
+ * rolls the whole transaction back; events are emitted, batched per collection, only after
+ * it commits.
+ */
 export default class PSHTransaction {
-  sqlDb: PSHSQLiteWrapper
-  toAdd: PSHAdd[] = []
+  sqlDb: PSHStorageAdapter
+  events?: PSHEventsLight
+  options: PSHTransactionOptions
+  commands: PSHCommand[] = []
+  private readonly logger: PSHLogger
 
-  constructor(sqlDb: PSHSQLiteWrapper) {
+  constructor(sqlDb: PSHStorageAdapter, events?: PSHEventsLight, options?: PSHTransactionOptions) {
     this.sqlDb = sqlDb
+    this.events = events
+    this.options = { ...options }
+    this.logger = this.options.logger || debugLogger()
   }
 
   get count() {
-    return this.toAdd.length
+    return this.commands.length
+  }
+
+  add<T extends Pea>(col: PSHCollection<T>, doc: T) {
+    this.save(col, doc)
+  }
+
+  // with `expectedRev`, the transaction fails with a PSHConflictError unless the stored revision matches
+  save<T extends Pea>(col: PSHCollection<T>, doc: T, expectedRev?: number) {
+    const stored = PSHRefs.serialize(doc)
+    if (!this.options.remote) col.validate(stored)
+    this.push(new PSHSave(col.untyped, stored, expectedRev))
+  }
+
+  // merges into the document with the same values for `keyFields`, found through their unique index
+  upsertBy<T extends Pea>(col: PSHCollection<T>, keyFields: string[], doc: PSHUpsert<T>) {
+    this.push(new PSHUpsertBy(col.untyped, keyFields, PSHRefs.serialize(doc)))
   }
 
-  add<T extends Pea>(col: PSHCollection, doc: T) {
-    col.initialize()
-    this.toAdd.push(new PSHAdd(col, doc))
+  update<T extends Pea>(col: PSHCollection<T>, id: string, updates: PSHUpdater<T>) {
+    this.push(new PSHUpdateCommand(col.untyped, id, updates))
+  }
+
+  updateMany<T extends Pea>(col: PSHCollection<T>, query: PSHDatabaseQuery, updates: PSHUpdater<T>) {
+    this.push(new PSHUpdateMany(col.untyped, query, updates))
+  }
+
+  // with `expectedRev`, the transaction fails with a PSHConflictError unless the stored revision matches
+  delete<T extends Pea>(col: PSHCollection<T>, id: string, expectedRev?: number) {
+    this.push(new PSHDelete(col.untyped, id, expectedRev))
+  }
+
+  deleteMany<T extends Pea>(col: PSHCollection<T>, query: PSHDatabaseQuery, options?: PSHQueryOptions) {
+    this.push(new PSHDeleteMany(col.untyped, query, options))
+  }
+
+  private push(command: PSHCommand) {
+    command.col.initialize()
+    this.commands.push(command)
   }
 
   async executeBatch<T>(items: Iterable<T>, callback: (x: T) => void, batchSize: number) {
     let count = 0
     for (const item of items) {
       callback(item)
-      if (this.toAdd.length >= batchSize) {
-        count += this.toAdd.length
+      if (this.commands.length >= batchSize) {
+        count += this.commands.length
         await this.execute()
       }
     }
-    if (this.toAdd.length > 0) {
-      count += this.toAdd.length
+    if (this.commands.length > 0) {
+      count += this.commands.length
       await this.execute()
     }
     return count
   }
 
-  async executeAsyncBatch<T>(items: AsyncGenerator<T>, callback: (x: T) => Promise<void>, batchSize: number) {
+  // `onExecuted` follows each batch once it's committed
+  async executeAsyncBatch<T>(items: AsyncGenerator<T>, callback: (x: T) => Promise<void>, batchSize: number, onExecuted?: () => void) {
     let count = 0
     for await (const item of items) {
       await callback(item)
-      if (this.toAdd.length >= batchSize) {
-        count += this.toAdd.length
+      if (this.commands.length >= batchSize) {
+        count += this.commands.length
         await this.execute()
+        onExecuted && onExecuted()
       }
     }
-    if (this.toAdd.length > 0) {
-      count += this.toAdd.length
+    if (this.commands.length > 0) {
+      count += this.commands.length
       await this.execute()
+      onExecuted && onExecuted()
     }
     return count
   }
 
-  async execute() {
-    maybeLog('PSHTransaction.execute...')
-    const writeAll = (tx: SQLTransaction) => this.toAdd.map(a => a.toWrite()).forEach(({ sql, args }) => tx.executeSql(sql, args))
-    await this.sqlDb.transaction(writeAll).then(() => this.toAdd = [])
+  async execute(): Promise<PSHEvent[]> {
+    this.logger.log('PSHTransaction.execute...')
+    if (this.options.before) {
+      await this.options.before()
+    }
+    const commands = this.commands
+    await Promise.all(uniq(commands.map(c => c.col)).map(col => col.initialize()))
+    const run: PSHRun = { events: [], changes: [], undoable: !!this.options.undo, remote: !!this.options.remote, keepSaved: !!this.options.keepSaved }
+    const applyAll = (tx: PSHStorageTransaction) => {
+      run.events = []
+      run.changes = []
+      run.error = undefined
+      let index = 0
+      let looping = false
+      // commands that read first continue the chain from their statement callback, keeping every write in order
+      const advance = () => {
+        index += 1
+        if (!looping) loop()
+      }
+      const loop = () => {
+        looping = true
+        while (index < commands.length) {
+          const current = index
+          commands[current].apply(tx, run, advance)
+          if (index === current) break
+        }
+        looping = false
+      }
+      loop()
+    }
+    // some WebSQL implementations report a generic error when a statement callback throws
+    await this.sqlDb.transaction(applyAll)
+      .then(() => this.commands = this.commands.slice(commands.length))
+      .catch(e => { throw run.error || e })
+    if (this.options.undo && run.changes.length > 0) {
+      this.options.undo.record(run.changes)
+    }
+    if (!this.options.quiet) {
+      this.emit(run.events)
+    }
+    return run.events
+  }
+
+  private emit(events: PSHEvent[]) {
+    if (!this.events || events.length === 0) return
+    const date = Date.now()
+    const byCollection: Record<string, PSHEvent[]> = {}
+    events.forEach(event => byCollection[event.col] = (byCollection[event.col] || []).concat([event]))
+    Object.entries(byCollection).forEach(([col, events]) => this.events!.emitBatch({ col, date, events }))
   }
 }
 
+interface PSHRun {
+  events: PSHEvent[]
+  // what each change replaced, collected only for an undo stack
+  changes: PSHUndoChange[]
+  undoable: boolean
+  remote: boolean
+  keepSaved: boolean
+  error?: Error
+}
+
 interface PSHCommand {
-  toWrite: () => PSHDeferredWrite
+  col: PSHCollection<Pea>
+  // queues the command's statements and calls `next` once they're queued
+  apply: (tx: PSHStorageTransaction, run: PSHRun, next: () => void) => void
 }
 
-class PSHAdd implements PSHCommand {
+// a row read by a `SELECT id, json, date, _version, _rev`
+const wrappedAt = (results: PSHResultSet, index: number) => results.rows.item(index) as unknown as Wrapped
+
+const executeAll = (tx: PSHStorageTransaction, writes: PSHDeferredWrite[]) => writes.forEach(({ sql, args }) => tx.executeSql(sql, args))
+
+class PSHSave implements PSHCommand {
+  col: PSHCollection<Pea>
   ref: PSHRef
   obj: Pea
+  expectedRev?: number
 
-  constructor(col: PSHCollection, obj: Pea) {
-    this.ref = col.ref()
+  constructor(col: PSHCollection<Pea>, obj: Pea, expectedRev?: number) {
+    this.col = col
+    this.ref = col.ref(obj.id)
     this.obj = obj
+    this.expectedRev = expectedRev
+  }
+
+  // reads the stored revision first, so the new one is known and a stale save can be refused
+  apply(tx: PSHStorageTransaction, run: PSHRun, next: () => void) {
+    const onRead = (tx: PSHStorageTransaction, results: PSHResultSet) => {
+      const current = results.rows.length > 0 ? wrappedAt(results, 0) : null
+      const rev = current ? current._rev || 0 : 0
+      const stored = () => current ? this.col.db.unwrapper(this.col.name)(current) : null
+      checkRev(run, this.col, this.ref.id, this.expectedRev, rev, stored)
+      writeDoc(tx, run, this.col, this.ref.id, this.obj, rev + 1, run.undoable ? stored() : null)
+      next()
+    }
+    tx.executeSql(`SELECT id, json, date, _version, _rev FROM ${quoteName(this.col.name)} WHERE id = ?`, [this.ref.id], onRead)
+  }
+}
+
+const checkRev = (run: PSHRun, col: PSHCollection<Pea>, id: string, expectedRev: number|undefined, rev: number, stored: () => Pea|null) => {
+  if (expectedRev !== undefined && expectedRev !== rev) {
+    run.error = new PSHConflictError(col.qualifiedName, id, expectedRev, rev, stored())
+    throw run.error
+  }
+}
+
+// checks unique indexes first, so a duplicate fails with the id it duplicates rather than a bare SQLite error
+const writeDoc = (tx: PSHStorageTransaction, run: PSHRun, col: PSHCollection<Pea>, id: string, doc: Pea, rev: number, before: Pea|null) => {
+  col.db.uniqueChecks(col.name, id, doc).forEach(check => tx.executeSql(check.sql, check.args, (tx, results) => {
+    if (results.rows.length > 0) {
+      run.error = new PSHUniqueViolation(col.qualifiedName, id, check.index, check.fields, check.values, (results.rows.item(0) as { id: string }).id)
+      throw run.error
+    }
+  }))
+  executeAll(tx, col.db.toWrites(col.name, id, doc, rev, run.remote, run.keepSaved ? doc.saved : undefined))
+  const after = { ...doc, id, rev }
+  run.events.push(toEvent(col, id, 'write', run, after))
+  if (run.undoable) run.changes.push({ col, id, before, after })
+}
+
+const toEvent = (col: PSHCollection<Pea>, id: string, type: PSHEventType, run: PSHRun, data?: Pea): PSHEvent => {
+  const event: PSHEvent = { col: col.name, id, type, date: Date.now() }
+  if (data) event.data = data
+  if (run.remote) event.remote = true
+  return event
+}
+
+const writeUpdate = <T extends Pea>(tx: PSHStorageTransaction, run: PSHRun, col: PSHCollection<Pea>, existing: T, updates: PSHUpdater<T>) => {
+  const updated = PSHRefs.serialize(typeof updates === 'function' ? updates(existing) : { ...existing, ...updates } as T)
+  if (!run.remote) col.validate(updated)
+  writeDoc(tx, run, col, existing.id, updated, (existing.rev || 0) + 1, existing)
+}
+
+class PSHUpdateCommand<T extends Pea> implements PSHCommand {
+  col: PSHCollection<Pea>
+  id: string
+  updates: PSHUpdater<T>
+
+  constructor(col: PSHCollection<Pea>, id: string, updates: PSHUpdater<T>) {
+    this.col = col
+    this.id = id
+    this.updates = updates
   }
 
-  toWrite() {
-    return this.ref.toWrite(this.obj)
+  apply(tx: PSHStorageTransaction, run: PSHRun, next: () => void) {
+    const onRead = (tx: PSHStorageTransaction, results: PSHResultSet) => {
+      if (results.rows.length === 0) {
+        run.error = new PSHNotFoundError(this.col.qualifiedName, this.id)
+        throw run.error
+      }
+      writeUpdate(tx, run, this.col, this.col.db.unwrapper<T>(this.col.name)(wrappedAt(results, 0)), this.updates)
+      next()
+    }
+    tx.executeSql(`SELECT id, json, date, _version, _rev FROM ${quoteName(this.col.name)} WHERE id = ?`, [this.id], onRead)
+  }
+}
+
+class PSHUpsertBy<T extends Pea> implements PSHCommand {
+  col: PSHCollection<Pea>
+  keyFields: string[]
+  doc: PSHUpsert<T>
+
+  constructor(col: PSHCollection<Pea>, keyFields: string[], doc: PSHUpsert<T>) {
+    this.col = col
+    this.keyFields = keyFields
+    this.doc = doc
+  }
+
+  apply(tx: PSHStorageTransaction, run: PSHRun, next: () => void) {
+    const [sql, args] = this.col.db.toUniqueLookup(this.col.name, this.keyFields, this.doc)
+    const onRead = (tx: PSHStorageTransaction, results: PSHResultSet) => {
+      if (results.rows.length > 0) {
+        writeUpdate(tx, run, this.col, this.col.db.unwrapper<T>(this.col.name)(wrappedAt(results, 0)), this.doc as PSHUpdater<T>)
+        next()
+      } else if (this.doc.id) {
+        // a new key for a document that already exists under the given id
+        tx.executeSql(`SELECT id, json, date, _version, _rev FROM ${quoteName(this.col.name)} WHERE id = ?`, [this.doc.id], onReadById)
+      } else {
+        this.insert(tx, run, this.col.ref().id)
+        next()
+      }
+    }
+    const onReadById = (tx: PSHStorageTransaction, results: PSHResultSet) => {
+      if (results.rows.length > 0) {
+        writeUpdate(tx, run, this.col, this.col.db.unwrapper<T>(this.col.name)(wrappedAt(results, 0)), this.doc as PSHUpdater<T>)
+      } else {
+        this.insert(tx, run, this.doc.id!)
+      }
+      next()
+    }
+    tx.executeSql(sql, args, onRead)
+  }
+
+  private insert(tx: PSHStorageTransaction, run: PSHRun, id: string) {
+    const doc = { ...this.doc, id } as T
+    if (!run.remote) this.col.validate(doc)
+    writeDoc(tx, run, this.col, id, doc, 1, null)
+  }
+}
+
+class PSHUpdateMany<T extends Pea> implements PSHCommand {
+  col: PSHCollection<Pea>
+  query: PSHDatabaseQuery
+  updates: PSHUpdater<T>
+
+  constructor(col: PSHCollection<Pea>, query: PSHDatabaseQuery, updates: PSHUpdater<T>) {
+    this.col = col
+    this.query = query
+    this.updates = updates
+  }
+
+  apply(tx: PSHStorageTransaction, run: PSHRun, next: () => void) {
+    const [sql, args] = this.col.db.toQuery(this.col.name, this.query)
+    const onRead = (tx: PSHStorageTransaction, results: PSHResultSet) => {
+      const unwrap = this.col.db.unwrapper<T>(this.col.name)
+      for (let i = 0; i < results.rows.length; i++) {
+        writeUpdate(tx, run, this.col, unwrap(wrappedAt(results, i)), this.updates)
+      }
+      next()
+    }
+    tx.executeSql(sql, args, onRead)
+  }
+}
+
+class PSHDelete implements PSHCommand {
+  col: PSHCollection<Pea>
+  id: string
+  expectedRev?: number
+
+  constructor(col: PSHCollection<Pea>, id: string, expectedRev?: number) {
+    this.col = col
+    this.id = id
+    this.expectedRev = expectedRev
+  }
+
+  // reads first, to check the revision and to know what the delete removes; a missing document is no change to announce or sync
+  apply(tx: PSHStorageTransaction, run: PSHRun, next: () => void) {
+    const onRead = (tx: PSHStorageTransaction, results: PSHResultSet) => {
+      const current = results.rows.length > 0 ? wrappedAt(results, 0) : null
+      checkRev(run, this.col, this.id, this.expectedRev, current ? current._rev || 0 : 0, () => current ? this.col.db.unwrapper(this.col.name)(current) : null)
+      if (!current) return next()
+      deleteDocs(tx, run, this.col, [this.id], [current], next)
+    }
+    tx.executeSql(`SELECT id, json, date, _version, _rev FROM ${quoteName(this.col.name)} WHERE id = ?`, [this.id], onRead)
+  }
+}
+
+// deletes, then applies each declared `onDelete` of references to what was deleted before calling `next`
+const deleteDocs = (tx: PSHStorageTransaction, run: PSHRun, col: PSHCollection<Pea>, ids: string[], rows: Wrapped[], next: () => void) => {
+  executeAll(tx, col.db.toDeletes(col.name, ids, run.remote))
+  ids.forEach(id => run.events.push(toEvent(col, id, 'delete', run)))
+  if (run.undoable) {
+    const unwrap = col.db.unwrapper(col.name)
+    rows.forEach(row => run.changes.push({ col, id: row.id, before: unwrap(row), after: null }))
+  }
+  // pulled deletes arrive along with whatever the other side's actions deleted
+  const referrers = run.remote ? [] : col.db.referrersOf(col.name).filter(referrer => referrer.onDelete)
+  const lookups = referrers.flatMap(referrer => chunks(ids).map(chunk => ({ ...referrer, ids: chunk })))
+  const applyFrom = (i: number) => {
+    if (i >= lookups.length) return next()
+    const { collection, path, onDelete, ids } = lookups[i]
+    const referring = col.db.col(collection)
+    const [sql, args] = col.db.toQuery(collection, { [`${path}.id`]: ['in', ids], [`${path}.collection`]: col.name })
+    const onRead = (tx: PSHStorageTransaction, results: PSHResultSet) => {
+      const found: Wrapped[] = []
+      for (let i = 0; i < results.rows.length; i++) {
+        found.push(wrappedAt(results, i))
+      }
+      if (found.length === 0) return applyFrom(i + 1)
+      if (onDelete === 'restrict') {
+        run.error = new PSHError(`${referring.qualifiedName}/${found[0].id} still refers to ${col.qualifiedName} by ${path}`, { collection: referring.qualifiedName, id: found[0].id })
+        throw run.error
+      }
+      deleteDocs(tx, run, referring, found.map(row => row.id), found, () => applyFrom(i + 1))
+    }
+    tx.executeSql(sql, args, onRead)
+  }
+  applyFrom(0)
+}
+
+// SQLite caps bound parameters at 999 on older builds
+const chunks = (ids: string[], size = 500): string[][] => {
+  const chunked: string[][] = []
+  for (let i = 0; i < ids.length; i += size) chunked.push(ids.slice(i, i + size))
+  return chunked
+}
+
+class PSHDeleteMany implements PSHCommand {
+  col: PSHCollection<Pea>
+  query: PSHDatabaseQuery
+  options?: PSHQueryOptions
+
+  constructor(col: PSHCollection<Pea>, query: PSHDatabaseQuery, options?: PSHQueryOptions) {
+    this.col = col
+    this.query = query
+    this.options = options
+  }
+
+  apply(tx: PSHStorageTransaction, run: PSHRun, next: () => void) {
+    const [sql, args] = this.col.db.toQuery(this.col.name, this.query, this.options)
+    const onRead = (tx: PSHStorageTransaction, results: PSHResultSet) => {
+      const rows: Wrapped[] = []
+      for (let i = 0; i < results.rows.length; i++) {
+        rows.push(wrappedAt(results, i))
+      }
+      deleteDocs(tx, run, this.col, rows.map(row => row.id), rows, next)
+    }
+    tx.executeSql(sql, args, onRead)
   }
 }
\ No newline at end of file
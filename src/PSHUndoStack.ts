@@ -0,0 +1,146 @@
+import { isEqual, omit } from 'underscore'
+import type PSHDatabase from './PSHDatabase'
+import type PSHCollection from './PSHCollection'
+import type PSHTransaction from './PSHTransaction'
+import Pea from './Pea'
+
+
+// one document changed by a transaction: null before means it was created, null after deleted
+export interface PSHUndoChange {
+  col: PSHCollection<Pea>
+  id: string
+  before: Pea|null
+  after: Pea|null
+}
+
+export interface PSHUndoStackOptions {
+  // steps kept for undo; the oldest are forgotten first
+  limit?: number
+}
+
+/**
+ * An app-level undo/redo stack whose steps are whole transactions: run changes through
+ * `transaction()` (or pass the stack as a transaction's `undo` option) and `undo()` puts back
+ * everything one of them changed, in one transaction. Undo and redo only apply over the
+ * revisions they expect, so a document changed elsewhere since fails the step with a
+ * PSHConflictError and leaves the stacks as they were.
+ */
+export default class PSHUndoStack {
+  readonly db: PSHDatabase
+  readonly limit: number
+  private undos: PSHUndoChange[][] = []
+  private redos: PSHUndoChange[][] = []
+  private listeners: Array<() => void> = []
+  private queue: Promise<unknown> = Promise.resolve()
+
+  constructor(db: PSHDatabase, options?: PSHUndoStackOptions) {
+    this.db = db
+    this.limit = options && options.limit !== undefined ? options.limit : 100
+  }
+
+  get canUndo() {
+    return this.undos.length > 0
+  }
+
+  get canRedo() {
+    return this.redos.length > 0
+  }
+
+  transaction(): PSHTransaction {
+    return this.db.transaction({ undo: this })
+  }
+
+  // a new step makes the redo stack meaningless
+  record(changes: PSHUndoChange[]) {
+    this.push(this.undos, changes)
+    this.redos = []
+    this.notify()
+  }
+
+  undo(): Promise<boolean> {
+    return this.step(this.undos, this.redos)
+  }
+
+  redo(): Promise<boolean> {
+    return this.step(this.redos, this.undos)
+  }
+
+  clear() {
+    this.undos = []
+    this.redos = []
+    this.notify()
+  }
+
+  onChange(call: () => void): () => void {
+    this.listeners.push(call)
+    return () => this.listeners = this.listeners.filter(listener => listener !== call)
+  }
+
+  // steps run one at a time, each seeing the stacks the previous one left
+  private step(from: PSHUndoChange[][], to: PSHUndoChange[][]): Promise<boolean> {
+    const run = this.queue.then(async () => {
+      const changes = from[from.length - 1]
+      if (!changes) return false
+      const reverted = await this.revert(changes)
+      from.pop()
+      this.rebase(changes.slice().reverse(), reverted)
+      this.push(to, reverted)
+      this.notify()
+      return true
+    })
+    this.queue = run.catch(() => undefined)
+    return run
+  }
+
+  private push(stack: PSHUndoChange[][], changes: PSHUndoChange[]) {
+    stack.push(changes)
+    if (stack.length > this.limit) stack.splice(0, stack.length - this.limit)
+  }
+
+  // a restored version is a new revision of an old state, which other steps still expect by its old revision
+  private rebase(changes: PSHUndoChange[], reverted: PSHUndoChange[]) {
+    changes.forEach(({ col, id, before }, i) => {
+      const restored = reverted[i].after
+      if (!before || !restored) return
+      this.undos.concat(this.redos).forEach(step => step.forEach(change => {
+        if (change.col === col && change.id === id && change.after && sameState(change.after, before)) {
+          change.after = restored
+        }
+      }))
+    })
+  }
+
+  // puts back what the changes replaced, last first, returning the changes that made
+  private async revert(changes: PSHUndoChange[]): Promise<PSHUndoChange[]> {
+    const tx = this.db.transaction()
+    const reversed = changes.slice().reverse()
+    reversed.forEach(({ col, id, before, after }) => {
+      const expectedRev = after ? after.rev || 0 : 0
+      if (before) {
+        tx.save(col, before, expectedRev)
+      } else {
+        tx.delete(col, id, expectedRev)
+      }
+    })
+    const events = await tx.execute()
+    this.db.logger.log('PSHUndoStack.revert', reversed.length, 'changes')
+    // deletes can cascade to other documents, so events are matched by document; the last one is
+    // where the document ended up, and events for documents outside the step are left alone
+    return reversed.map(({ col, id, after }) => {
+      const event = events.slice().reverse().find(e => e.col === col.name && e.id === id)
+      return { col, id, before: after, after: event && event.type === 'write' ? event.data! : null }
+    })
+  }
+
+  private notify() {
+    this.listeners.forEach(listener => {
+      try {
+        listener()
+      } catch (e) {
+        this.db.logger.error('PSHUndoStack listener error:', e)
+      }
+    })
+  }
+}
+
+const sameState = (a: Pea, b: Pea) => a.rev === b.rev && isEqual(omit(a, 'saved', 'rev'), omit(b, 'saved', 'rev'))
\ No newline at end of file
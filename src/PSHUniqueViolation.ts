@@ -0,0 +1,24 @@
+import PSHError from './PSHError'
+
+
+export default class PSHUniqueViolation extends PSHError {
+  readonly collection: string
+  // the document whose write was refused
+  readonly id: string
+  readonly index: string
+  readonly fields: string[]
+  readonly values: unknown[]
+  // the stored document that already has the values
+  readonly conflictingId: string
+
+  constructor(collection: string, id: string, index: string, fields: string[], values: unknown[], conflictingId: string) {
+    super(`${collection}/${id} has the same ${fields.join(', ')} as ${conflictingId}, which ${index} requires to be unique`, { collection, id })
+    this.name = 'PSHUniqueViolation'
+    this.collection = collection
+    this.id = id
+    this.index = index
+    this.fields = fields
+    this.values = values
+    this.conflictingId = conflictingId
+  }
+}
\ No newline at end of file
@@ -0,0 +1,53 @@
+import { get } from 'underscore'
+import { PSHPath } from './PSHDatabaseQuery'
+import { PSHConflictResolver } from './PSHConflicts'
+import Pea from './Pea'
+
+
+export type PSHFieldType = 'string' | 'number' | 'boolean' | 'object' | 'array' | 'null'
+// a trailing `?` makes the field optional
+export type PSHFieldSpec = PSHFieldType | `${PSHFieldType}?`
+
+export interface PSHValidationIssue {
+  path: string
+  message: string
+}
+
+export interface PSHSchema<T extends Pea=Pea> {
+  fields?: { [P in PSHPath<T>]?: PSHFieldSpec }
+  validate?(doc: T): PSHValidationIssue[]|void
+}
+
+export interface PSHCollectionOptions<T extends Pea=Pea> {
+  schema?: PSHSchema<T>
+  // settles conflicting saves instead of failing them with a PSHConflictError
+  resolve?: PSHConflictResolver<T>
+}
+
+const typeOf = (value: unknown): PSHFieldType => {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'array'
+  return typeof value as PSHFieldType
+}
+
+const check = <T extends Pea>(schema: PSHSchema<T>, doc: T): PSHValidationIssue[] => {
+  const issues: PSHValidationIssue[] = []
+  Object.entries(schema.fields || {}).forEach(([path, spec]) => {
+    const optional = (spec as string).endsWith('?')
+    const type = (spec as string).replace(/\?$/, '')
+    const value = get(doc, path.split('.'))
+    if (value === undefined) {
+      if (!optional) issues.push({ path, message: 'is required' })
+    } else if (typeOf(value) !== type) {
+      issues.push({ path, message: `expected ${type}, got ${typeOf(value)}` })
+    }
+  })
+  if (schema.validate) {
+    issues.push(...(schema.validate(doc) || []))
+  }
+  return issues
+}
+
+export default {
+  check,
+}
\ No newline at end of file
@@ -0,0 +1,17 @@
+import PSHError from './PSHError'
+import { PSHValidationIssue } from './PSHValidation'
+
+
+export default class PSHValidationError extends PSHError {
+  readonly collection: string
+  readonly id: string
+  readonly issues: PSHValidationIssue[]
+
+  constructor(collection: string, id: string, issues: PSHValidationIssue[]) {
+    super(`${collection}/${id} failed validation: ${issues.map(i => `${i.path} ${i.message}`).join('; ')}`)
+    this.name = 'PSHValidationError'
+    this.collection = collection
+    this.id = id
+    this.issues = issues
+  }
+}
\ No newline at end of file
@@ -0,0 +1,156 @@
+import PSHStorageAdapter, {
+  PSHResultSet, PSHStatementCallback, PSHStatementErrorCallback,
+  PSHStorageError, PSHStorageTransaction, PSHTableDescription
+} from './PSHStorageAdapter'
+import SQLColumnInfo from './types/sqlite/SQLColumnInfo'
+import PSHError from './PSHError'
+import PSHStorageFailure from './PSHStorageFailure'
+import { maybeError, maybeLog, maybeWarn, quoteName } from './shared'
+
+
+export interface PSHWebSQLDatabase {
+  transaction(callback: (tx: PSHStorageTransaction) => void, errorCallback?: (error: PSHStorageError) => void, successCallback?: () => void): void
+}
+
+// what the engine reports becomes a PSHStorageFailure carrying the statement; errors of our own pass through
+const toFailure = (e: PSHStorageError|unknown, sql?: string, args?: unknown[]): PSHError => {
+  if (e instanceof PSHError) return e
+  const { message, code } = e as PSHStorageError
+  return new PSHStorageFailure(message || `${e}`, { sql, args, code, cause: e })
+}
+
+export default class PSHWebSQLAdapter<DB extends PSHWebSQLDatabase = PSHWebSQLDatabase> implements PSHStorageAdapter {
+  sqlDb: DB
+  private readonly _name: string
+
+  constructor(db: DB, name: string) {
+    this.sqlDb = db
+    this._name = name
+  }
+
+  get name() {
+    return this._name
+  }
+
+  async countTable(table: string): Promise<number> {
+    const res = await this.query<{ count?: number }>(`SELECT count(*) as count FROM ${quoteName(table)}`)
+    return res[0].count!
+  }
+
+  async count(sql: string): Promise<number> {
+    const res = await this.query<{ count?: number, 'count(*)'?: number }>(sql)
+    if (res.length !== 1) {
+      return 0
+    }
+    return res[0].count || res[0]['count(*)'] || 0
+  }
+
+  async tables(): Promise<string[]> {
+    const res = await this.query<{ name: string }>('SELECT name FROM sqlite_schema WHERE type="table" ORDER BY name')
+    return res.map(r => r.name)
+  }
+
+  async describe(tableName: string): Promise<PSHTableDescription> {
+    const columns = await this.query<SQLColumnInfo>(`PRAGMA table_info(${quoteName(tableName)})`)
+    return {
+      name: tableName,
+      columns
+    }
+  }
+
+  async try(sql: string): Promise<boolean> {
+    return new Promise<boolean>((resolve) => {
+      const onSuccess: PSHStatementCallback = () => resolve(true)
+      const onError: PSHStatementErrorCallback = (t, e) => {
+        const thing = `${e.message || e}`
+        if (!thing.includes('duplicate column name')) {
+          maybeLog('PSHWebSQLAdapter.try: failure', e)
+        } else {
+          maybeLog('PSHWebSQLAdapter.try: duplicate column name')
+        }
+        resolve(false)
+        return true
+      }
+      this.sqlDb.transaction((tx: PSHStorageTransaction) => {
+        tx.executeSql(sql, [], onSuccess, onError)
+      })
+    })
+  }
+
+  async query<T>(sql: string, args?: Array<unknown>): Promise<T[]> {
+    return new Promise<T[]>((resolve, reject) => {
+      const onSuccess: PSHStatementCallback = (tx: PSHStorageTransaction, results: PSHResultSet) => {
+        const ret: T[] = []
+        for (let i = 0; i < results.rows.length; i++) {
+          ret.push(results.rows.item(i) as T)
+        }
+        resolve(ret)
+      }
+      const onError: PSHStatementErrorCallback = (tx: PSHStorageTransaction, sqlError: PSHStorageError) => {
+        maybeError('PSHWebSQLAdapter.query/onError', sql, sqlError)
+        reject(toFailure(sqlError, sql, args))
+        return true
+      }
+      this.sqlDb.transaction((tx: PSHStorageTransaction) => {
+        tx.executeSql(sql, args || [], onSuccess, onError)
+      })
+    })
+  }
+
+  async findOne<T>(sql: string, args?: Array<unknown>): Promise<T|null> {
+    const matches = await this.query<T>(sql, args)
+    return matches.length > 0 ? matches[0] : null
+  }
+
+  async get<T>(sql: string, args?: Array<unknown>): Promise<T|null> {
+    const all = await this.query<T>(sql, args)
+    if (all.length === 1) return all[0]
+    if (all.length === 0) return null
+    throw new PSHError(`Expected 0 or 1 result, got ${all.length}`, { sql, args })
+  }
+
+  async run(sql: string, args?: Array<unknown>): Promise<PSHResultSet> {
+    return new Promise<PSHResultSet>((resolve, reject) => {
+      const onSuccess: PSHStatementCallback = (tx: PSHStorageTransaction, results: PSHResultSet) => {
+        resolve(results)
+      }
+      const onError: PSHStatementErrorCallback = (tx: PSHStorageTransaction, e: PSHStorageError) => {
+        maybeError('PSHWebSQLAdapter.run/onError', sql, e)
+        reject(toFailure(e, sql, args))
+        return true
+      }
+      this.sqlDb.transaction((tx: PSHStorageTransaction) => {
+        tx.executeSql(sql, args || [], onSuccess, onError)
+      })
+    })
+  }
+
+  async insert<T>(sql: string, args?: Array<unknown>): Promise<T|null> {
+    return new Promise<T|null>((resolve, reject) => {
+      const onSuccess: PSHStatementCallback = (tx: PSHStorageTransaction, results: PSHResultSet) => {
+        if (results.rows.length === 1) {
+          resolve(results.rows.item(0) as T)
+        } else if (results.rows.length > 1) {
+          maybeWarn('PSHWebSQLAdapter.insert got', results.rows.length, 'rows')
+        }
+        resolve(null)
+      }
+      const onError: PSHStatementErrorCallback = (tx: PSHStorageTransaction, sqlError: PSHStorageError) => {
+        maybeError('PSHWebSQLAdapter.insert/onError', sql, sqlError)
+        reject(toFailure(sqlError, sql, args))
+        return true
+      }
+      this.sqlDb.transaction((tx: PSHStorageTransaction) => {
+        tx.executeSql(sql, args || [], onSuccess, onError)
+      })
+    })
+  }
+
+  transaction(callback: (tx: PSHStorageTransaction) => void) {
+    return new Promise<void>((resolve0, reject0) => {
+      const resolve = resolve0
+      const reject = (e: unknown) => { maybeError('PSHWebSQLAdapter.transaction/reject', e); reject0(toFailure(e)) }
+      this.sqlDb.transaction(callback, reject, resolve)
+    })
+  }
+}
\ No newline at end of file
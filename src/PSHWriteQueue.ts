@@ -0,0 +1,122 @@
+import type PSHDatabase from './PSHDatabase'
+import type PSHCollection from './PSHCollection'
+import PSHTransaction from './PSHTransaction'
+import PSHRefs from './PSHRefs'
+import PSHEvent from './events/PSHEvent'
+import Pea from './Pea'
+
+
+export type PSHWriteEvents = 'immediate' | 'flush'
+
+export interface PSHWriteBehindOptions {
+  // collections whose saves are queued; all of them when omitted
+  collections?: string[]
+  // ms a save waits for others to join its batch
+  delay?: number
+  // queued documents that flush the batch without waiting
+  maxPending?: number
+  // 'flush' emits write events as a batch commits; 'immediate' as each save is queued, and not again
+  events?: PSHWriteEvents
+}
+
+interface PSHPendingWrite {
+  col: PSHCollection<Pea>
+  doc: Pea
+  date: number
+  waiting: Array<{ resolve: (doc: Pea) => void, reject: (error: Error) => void }>
+}
+
+const MAX_PENDING = 100
+
+/**
+ * Write-behind for saves: documents are queued, a later save of the same id replacing an
+ * earlier one, and written together through one transaction a tick later or once enough are
+ * queued. Each save resolves once its batch commits. If the batch fails, its saves are retried
+ * one by one, so only the ones that fail on their own reject.
+ */
+export default class PSHWriteQueue {
+  readonly db: PSHDatabase
+  options: PSHWriteBehindOptions
+  private pending = new Map<string, PSHPendingWrite>()
+  private timer?: ReturnType<typeof setTimeout>
+
+  constructor(db: PSHDatabase, options: PSHWriteBehindOptions) {
+    this.db = db
+    this.options = options
+  }
+
+  applies(colName: string) {
+    return !this.options.collections || this.options.collections.includes(colName)
+  }
+
+  has(colName: string) {
+    return Array.from(this.pending.values()).some(write => write.col.name === colName)
+  }
+
+  // a queued document as a read would return it; its revision isn't known until it's written
+  get<Data extends Pea>(colName: string, id: string): Data|undefined {
+    const write = this.pending.get(`${colName}/${id}`)
+    if (!write) return undefined
+    const { rev, ...doc } = write.doc
+    return { ...doc, saved: write.date } as Data
+  }
+
+  save<Data extends Pea>(col: PSHCollection<Data>, doc: Data): Promise<Data> {
+    col.validate(PSHRefs.serialize(doc))
+    const key = `${col.name}/${doc.id}`
+    const date = Date.now()
+    const write: PSHPendingWrite = this.pending.get(key) || { col: col.untyped, doc, date, waiting: [] }
+    this.pending.delete(key)
+    this.pending.set(key, { ...write, doc, date })
+    if (this.options.events === 'immediate') {
+      const event: PSHEvent = { col: col.name, id: doc.id, type: 'write', date, data: doc }
+      this.db.events.emitBatch({ col: col.name, date, events: [event] })
+    }
+    const saved = new Promise<Data>((resolve, reject) => write.waiting.push({ resolve: doc => resolve(doc as Data), reject }))
+    this.schedule()
+    return saved
+  }
+
+  private schedule() {
+    if (this.pending.size >= (this.options.maxPending || MAX_PENDING)) {
+      this.flush()
+    } else if (!this.timer) {
+      this.timer = setTimeout(() => this.flush(), this.options.delay || 0)
+    }
+  }
+
+  // writes everything queued so far; resolves once it's committed
+  async flush() {
+    if (this.timer) {
+      clearTimeout(this.timer)
+      this.timer = undefined
+    }
+    if (this.pending.size === 0) return
+    const writes = Array.from(this.pending.values())
+    this.pending.clear()
+    this.db.logger.log('PSHWriteQueue.flush', this.db.dbName, writes.length)
+    try {
+      await this.write(writes)
+    } catch (e) {
+      this.db.logger.error('PSHWriteQueue.flush: batch failed, retrying one by one', e)
+      await Promise.all(writes.map(write => this.write([write]).catch(error => {
+        write.waiting.forEach(({ reject }) => reject(error))
+        // listeners were told about a write that didn't happen
+        if (this.options.events === 'immediate') {
+          this.db.events.emitBatch({ col: write.col.name, date: Date.now(), events: [], reload: true })
+        }
+      })))
+    }
+  }
+
+  private async write(writes: PSHPendingWrite[]) {
+    const tx = new PSHTransaction(this.db.sqlDb, this.db.events, { quiet: this.options.events === 'immediate', logger: this.db.logger })
+    writes.forEach(write => tx.save(write.col, write.doc))
+    const events = await tx.execute()
+    writes.forEach(write => {
+      const event = events.find(e => e.col === write.col.name && e.id === write.doc.id)
+      const saved = { ...write.doc, rev: event && event.data ? event.data.rev : write.doc.rev }
+      write.waiting.forEach(({ resolve }) => resolve(saved))
+    })
+  }
+}
\ No newline at end of file
@@ -2,4 +2,7 @@ export default interface Pea {
   collection: string
   id: string
   saved?: number
+  rev?: number
+  // when the document expires, in ms since the epoch; only collections with a ttl honour it
+  expiresAt?: number
 }
\ No newline at end of file
@@ -8,6 +8,8 @@ export default interface PSHEvent<Data extends Pea=Pea> {
   type: PSHEventType
   date: number
   data?: Data
+  // applied from a sync pull rather than written locally
+  remote?: boolean
 }
 
 export interface PSHWrite<Data extends Pea=Pea> extends PSHEvent<Data> {
@@ -19,6 +21,10 @@ export interface PSHDelete<Data extends Pea=Pea> extends Omit<PSHEvent<Data>, 'd
   type: 'delete'
 }
 
+// `reload` marks bulk changes (wipes, drops, deletes by query) that can't be listed document by document
 export interface PSHEventBatch {
+  col: string
+  date: number
   events: PSHEvent[]
+  reload?: boolean
 }
\ No newline at end of file
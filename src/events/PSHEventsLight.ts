@@ -1,5 +1,5 @@
 import EventEmitter from "eventemitter3"
-import PSHEvent, { PSHEventType } from "./PSHEvent"
+import PSHEvent, { PSHEventBatch, PSHEventType } from "./PSHEvent"
 import Pea from "../Pea"
 
 export default class PSHEventsLight {
@@ -19,6 +19,21 @@ export default class PSHEventsLight {
     return () => { this.emitter.off(`${collection}.${id}.${event}`, listener) }
   }
 
+  onBatch(collection: string, listener: (batch: PSHEventBatch) => void) {
+    this.emitter.on(`${collection}.batch`, listener)
+    return () => { this.emitter.off(`${collection}.batch`, listener) }
+  }
+
+  // drops every listener, as closing the database does
+  clear() {
+    this.emitter.removeAllListeners()
+  }
+
+  emitBatch(batch: PSHEventBatch) {
+    batch.events.forEach(event => this.emit(event))
+    this.emitter.emit(`${batch.col}.batch`, batch)
+  }
+
   emit(event: PSHEvent) {
     this.emitter.emit(`${event.col}.${event.type}`, event)
     this.emitter.emit(`${event.col}.${event.id}.${event.type}`, event)
@@ -0,0 +1,5 @@
+export default interface PSHHookResult<Data> {
+  data: Data
+  loading: boolean
+  error: Error|null
+}
\ No newline at end of file
@@ -0,0 +1,9 @@
+import Pea from "../Pea"
+import PSHCollection from "../PSHCollection"
+import { PSHQueryFor, PSHQueryOptions } from "../PSHDatabaseQuery"
+import useQuery from "./useQuery"
+
+
+const useAll = <Object extends Pea>(collection: PSHCollection<Object>|PSHCollection, options?: PSHQueryOptions) => useQuery<Object>(collection, {} as PSHQueryFor<Object>, options)
+
+export default useAll
\ No newline at end of file
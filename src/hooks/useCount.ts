@@ -0,0 +1,33 @@
+import { useEffect, useState } from "react"
+import PSHCollection from "../PSHCollection"
+import Pea from "../Pea"
+import { PSHQueryFor } from "../PSHDatabaseQuery"
+import PSHHookResult from "./PSHHookResult"
+import useStructural from "./useStructural"
+
+
+const useCount = <Object extends Pea>(collection: PSHCollection<Object>|PSHCollection, query: PSHQueryFor<Object> = {} as PSHQueryFor<Object>): PSHHookResult<number> => {
+  const [data, setData] = useState(0)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<Error|null>(null)
+  const stableQuery = useStructural(query)
+
+  useEffect(() => {
+    setError(null)
+    setLoading(true)
+    const onCount = (count: number) => {
+      setData(count)
+      setError(null)
+      setLoading(false)
+    }
+    const onError = (e: Error) => {
+      setError(e)
+      setLoading(false)
+    }
+    return (collection as PSHCollection<Object>).onCount(stableQuery, onCount, onError)
+  }, [collection, stableQuery])
+
+  return { data, loading, error }
+}
+
+export default useCount
\ No newline at end of file
@@ -0,0 +1,32 @@
+import { useEffect, useState } from "react"
+import Pea from "../Pea"
+import PSHCollection from "../PSHCollection"
+import PSHHookResult from "./PSHHookResult"
+
+
+const useDoc = <Object extends Pea>(collection: PSHCollection<Object>|PSHCollection, id?: string): PSHHookResult<Object|undefined> => {
+  const [data, setData] = useState<Object|undefined>()
+  const [loading, setLoading] = useState(!!id)
+  const [error, setError] = useState<Error|null>(null)
+
+  useEffect(() => {
+    setError(null)
+    setData(undefined)
+    setLoading(!!id)
+    if (id) {
+      const onDoc = (doc: Object|undefined) => {
+        setData(doc)
+        setLoading(false)
+      }
+      const onError = (e: Error) => {
+        setError(e)
+        setLoading(false)
+      }
+      return (collection as PSHCollection<Object>).onDoc(id, onDoc, onError)
+    }
+  }, [collection, id])
+
+  return { data, loading, error }
+}
+
+export default useDoc
\ No newline at end of file
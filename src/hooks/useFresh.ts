@@ -1,21 +1,7 @@
-import { useEffect, useState } from "react"
-import Pea from "../Pea"
-import PSHCollection from "../PSHCollection"
+import useDoc from "./useDoc"
 
 
-const useFresh = <Object extends Pea>(collection: PSHCollection, id?: string) => {
-  const [data, setData] = useState<Object|undefined>()
-  const [error, setError] = useState<Error|null>(null)
-
-  useEffect(() => {
-    setError(null)
-    setData(undefined)
-    if (id) {
-      return collection.onDoc<Object>(id, setData)
-    }
-  }, [collection, id])
-
-  return { data, error }
-}
+/** @deprecated use `useDoc`, which also reports `loading` */
+const useFresh = useDoc
 
 export default useFresh
\ No newline at end of file
@@ -0,0 +1,34 @@
+import { useEffect, useState } from "react"
+import Pea from "../Pea"
+import PSHCollection from "../PSHCollection"
+import { PSHQueryFor, PSHQueryOptions } from "../PSHDatabaseQuery"
+import PSHHookResult from "./PSHHookResult"
+import useStructural from "./useStructural"
+
+
+const useQuery = <Object extends Pea>(collection: PSHCollection<Object>|PSHCollection, query: PSHQueryFor<Object>, options?: PSHQueryOptions): PSHHookResult<Object[]> => {
+  const [data, setData] = useState<Object[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<Error|null>(null)
+  const stableQuery = useStructural(query)
+  const stableOptions = useStructural(options)
+
+  useEffect(() => {
+    setError(null)
+    setLoading(true)
+    const onResults = (results: Object[]) => {
+      setData(results)
+      setError(null)
+      setLoading(false)
+    }
+    const onError = (e: Error) => {
+      setError(e)
+      setLoading(false)
+    }
+    return (collection as PSHCollection<Object>).onQuery(stableQuery, onResults, stableOptions, onError)
+  }, [collection, stableQuery, stableOptions])
+
+  return { data, loading, error }
+}
+
+export default useQuery
\ No newline at end of file
@@ -0,0 +1,14 @@
+import { useRef } from "react"
+import { isEqual } from "underscore"
+
+
+// keeps the previous reference while the value is structurally equal, so inline query objects don't resubscribe
+const useStructural = <T>(value: T): T => {
+  const ref = useRef(value)
+  if (!isEqual(ref.current, value)) {
+    ref.current = value
+  }
+  return ref.current
+}
+
+export default useStructural
\ No newline at end of file
@@ -1,9 +1,73 @@
 export { default as PSHDatabase } from './PSHDatabase'
+export type { PSHDatabaseConfig, PSHGetOptions, PSHDuplicates, PSHUniqueCheck } from './PSHDatabase'
 export { default as PSHCollection } from './PSHCollection'
+export type { PSHUpdate, PSHUpdater, PSHUpsert, PSHBulkResult } from './PSHCollection'
+export type { PSHCollectionOptions, PSHSchema, PSHFieldSpec, PSHFieldType, PSHValidationIssue } from './PSHValidation'
+export { default as PSHError } from './PSHError'
+export type { PSHErrorContext } from './PSHError'
+export { default as PSHNotFoundError } from './PSHNotFoundError'
+export { default as PSHInvalidIdentifierError } from './PSHInvalidIdentifierError'
+export type { PSHIdentifierKind } from './PSHInvalidIdentifierError'
+export { default as PSHStorageFailure } from './PSHStorageFailure'
+export { default as PSHValidationError } from './PSHValidationError'
+export { default as PSHConflictError } from './PSHConflictError'
+export { default as PSHUniqueViolation } from './PSHUniqueViolation'
+export { default as PSHConfigError } from './PSHConfigError'
+export { default as PSHImportError } from './PSHImportError'
+export { default as PSHConflicts } from './PSHConflicts'
+export type { PSHConflict, PSHConflictResolver, PSHSaveOptions } from './PSHConflicts'
+export { default as PSHMetadata } from './PSHMetadata'
+export { default as PSHRef } from './PSHRef'
+export { default as PSHRefs } from './PSHRefs'
+export type { PSHRefData, PSHRefAction, PSHRefSpec, PSHRefSpecs, PSHReferrer, PSHBackRef, PSHMissingRef, PSHPopulateOptions, PSHPopulate } from './PSHRefs'
+export { default as PSHLiveQuery } from './PSHLiveQuery'
+export { default as PSHLiveResult } from './PSHLiveResult'
+export type { PSHLiveResultListener, PSHLiveResultErrorListener } from './PSHLiveResult'
+export { default as PSHLiveSearch } from './PSHLiveSearch'
+export type { PSHLiveSearchListener } from './PSHLiveSearch'
+export type { PSHAggregateSpec, PSHAggregateRow, PSHAggregateFunction } from './PSHAggregate'
+export type { PSHSearchOptions, PSHSearchResult, PSHSnippetOptions } from './PSHSearch'
+export { default as PSHTransaction } from './PSHTransaction'
+export type { PSHTransactionOptions } from './PSHTransaction'
+export { default as PSHWriteQueue } from './PSHWriteQueue'
+export type { PSHWriteBehindOptions, PSHWriteEvents } from './PSHWriteQueue'
+export { default as PSHDocumentCache } from './PSHDocumentCache'
+export type { PSHCacheOptions, PSHCacheStats } from './PSHDocumentCache'
+export type { PSHExportRecord, PSHImportMode, PSHImportSource, PSHImportOptions, PSHImportProgress, PSHImportResult } from './PSHExport'
+export { default as PSHEncryption } from './PSHEncryption'
+export type { PSHKey, PSHKeyProvider, PSHCipher, PSHEncryptionSpec, PSHEncryptionConfig } from './PSHEncryption'
+export { default as PSHHistory } from './PSHHistory'
+export type { PSHHistoryOptions, PSHHistoryEntry } from './PSHHistory'
+export { default as PSHUndoStack } from './PSHUndoStack'
+export type { PSHUndoChange, PSHUndoStackOptions } from './PSHUndoStack'
+export { default as PSHOplog } from './PSHOplog'
+export type { PSHChange } from './PSHOplog'
+export { default as PSHSyncEngine } from './sync/PSHSyncEngine'
+export type { PSHSyncOptions, PSHSyncResult } from './sync/PSHSyncEngine'
+export type { default as PSHSyncTransport, PSHSyncChange, PSHPushRequest, PSHPullRequest, PSHPullResponse } from './sync/PSHSyncTransport'
+export { default as PSHHttpTransport } from './sync/PSHHttpTransport'
+export { default as PSHTransportError } from './sync/PSHTransportError'
+export type { PSHHttpTransportOptions, PSHFetch } from './sync/PSHHttpTransport'
+export { default as PSHMemorySyncServer } from './sync/PSHMemorySyncServer'
+export type { PSHQueryDelta, PSHQueryMove, PSHLiveQueryListener } from './PSHLiveQuery'
 export type { default as Pea } from './Pea'
 export type { PSHIndexSpec } from './PSHIndexing'
 export { default as PSHIndexing } from './PSHIndexing'
+export type { PSHMigrationSpec, PSHMigrationStrategy, PSHMigrationProgress, PSHUpgrade } from './PSHMigrations'
 export { PSHEventType, default as PSHEvent, PSHWrite, PSHDelete, PSHEventBatch } from './events/PSHEvent'
 export { default as useFresh } from './hooks/useFresh'
-export type { default as PSHDatabaseQuery, PSHDatabaseQueryCondition, PSHDatabaseQueryOperator, PSHDatabaseQueryValue } from './PSHDatabaseQuery'
-export { setDebug } from './shared'
\ No newline at end of file
+export { default as useDoc } from './hooks/useDoc'
+export { default as useQuery } from './hooks/useQuery'
+export { default as useAll } from './hooks/useAll'
+export { default as useCount } from './hooks/useCount'
+export type { default as PSHHookResult } from './hooks/PSHHookResult'
+export type { default as PSHDatabaseQuery, PSHDatabaseQueryCondition, PSHDatabaseQueryOperator, PSHDatabaseQueryValue, PSHDatabaseQueryGroups, PSHQueryOptions, PSHQueryOrder, PSHQueryDirection, PSHQueryExplanation, PSHPath, PSHPathValue, PSHTypedQuery, PSHTypedCondition, PSHQueryFor } from './PSHDatabaseQuery'
+export type { default as PSHStorageAdapter, PSHStorageAdapterFactory, PSHStorageConnectOptions, PSHStorageTransaction, PSHResultSet, PSHStorageError } from './PSHStorageAdapter'
+export { default as PSHWebSQLAdapter } from './PSHWebSQLAdapter'
+export { default as PSHSQLiteWrapper } from './PSHSQLiteWrapper'
+export { default as PSHMemoryAdapter } from './PSHMemoryAdapter'
+export { default as PSHInstrumentedAdapter } from './PSHInstrumentedAdapter'
+export type { PSHQueryEvent, PSHQueryOperation, PSHQueryStats, PSHInstrumentationOptions } from './PSHInstrumentedAdapter'
+export type { PSHQueryPlanStep, PSHQueryPlanOperation } from './PSHQueryPlan'
+export { setDebug, matchesQuery, applyQueryOptions } from './shared'
+export type { PSHLogger } from './shared'
\ No newline at end of file
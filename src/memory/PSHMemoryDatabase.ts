@@ -0,0 +1,87 @@
+import PSHMemoryEngine from './PSHMemoryEngine'
+import { UNKNOWN_ERR } from './PSHMemorySQLError'
+import { PSHWebSQLDatabase } from '../PSHWebSQLAdapter'
+import {
+  PSHStatementCallback, PSHStatementErrorCallback, PSHStorageError, PSHStorageTransaction
+} from '../PSHStorageAdapter'
+
+
+interface Task {
+  sql: string
+  args: Array<unknown>
+  callback?: PSHStatementCallback
+  errorCallback?: PSHStatementErrorCallback
+}
+
+const toStorageError = (e: unknown): PSHStorageError => {
+  if (e && typeof e === 'object' && 'message' in e) {
+    return e as PSHStorageError
+  }
+  return { code: UNKNOWN_ERR, message: `${e}` }
+}
+
+class PSHMemoryTransaction implements PSHStorageTransaction {
+  readonly tasks: Task[] = []
+
+  executeSql(sql: string, args?: Array<unknown>, callback?: PSHStatementCallback, errorCallback?: PSHStatementErrorCallback) {
+    this.tasks.push({ sql, args: args || [], callback, errorCallback })
+  }
+}
+
+/**
+ * WebSQL transaction semantics over a `PSHMemoryEngine`: transactions run one at a
+ * time, statement callbacks may queue further statements, and any unhandled error
+ * restores the engine to where it was when the transaction began.
+ */
+export default class PSHMemoryDatabase implements PSHWebSQLDatabase {
+  readonly engine = new PSHMemoryEngine()
+  private queue: Promise<void> = Promise.resolve()
+
+  transaction(callback: (tx: PSHStorageTransaction) => void, errorCallback?: (error: PSHStorageError) => void, successCallback?: () => void) {
+    this.queue = this.queue.then(() => {
+      const error = this.runTransaction(callback)
+      if (error) {
+        errorCallback && errorCallback(error)
+      } else {
+        successCallback && successCallback()
+      }
+    })
+  }
+
+  private runTransaction(callback: (tx: PSHStorageTransaction) => void): PSHStorageError|null {
+    const snapshot = this.engine.snapshot()
+    const tx = new PSHMemoryTransaction()
+    let error: PSHStorageError|null = null
+    try {
+      callback(tx)
+    } catch (e) {
+      error = toStorageError(e)
+    }
+    while (!error && tx.tasks.length > 0) {
+      const task = tx.tasks.shift()!
+      let results
+      try {
+        results = this.engine.execute(task.sql, task.args)
+      } catch (e) {
+        const sqlError = toStorageError(e)
+        let unhandled = true
+        try {
+          unhandled = task.errorCallback ? task.errorCallback(tx, sqlError) !== false : true
+        } catch (e2) {
+          unhandled = true
+        }
+        if (unhandled) error = sqlError
+        continue
+      }
+      try {
+        task.callback && task.callback(tx, results)
+      } catch (e) {
+        error = toStorageError(e)
+      }
+    }
+    if (error) {
+      this.engine.restore(snapshot)
+    }
+    return error
+  }
+}
\ No newline at end of file
@@ -0,0 +1,1428 @@
+import parse, { ColumnDefinition, Expr, SelectStatement, Source, Statement, Value } from './parse'
+import PSHMemorySQLError, { CONSTRAINT_ERR } from './PSHMemorySQLError'
+import {
+  Affinity, applyAffinity, compareValues, globToRegExp, likeToRegExp,
+  toNumber, toText, toValue, truthy, typeAffinity, valueKey
+} from './values'
+import { isMissing, jsonEach, jsonExtract, jsonExtractNode, jsonToValue, jsonType, parseJson } from './json'
+import { FtsMatch, FtsSpec, ftsSpec } from './fts'
+import { PSHResultSet } from '../PSHStorageAdapter'
+
+
+export interface MemoryColumn {
+  name: string
+  type: string
+  affinity: Affinity
+  notNull: boolean
+  primaryKey: boolean
+  unique: boolean
+  defaultValue?: Expr
+  defaultText?: string
+}
+
+export interface MemoryRow {
+  rowid: number
+  values: Record<string, Value>
+}
+
+export interface MemoryTable {
+  name: string
+  sql: string
+  order: number
+  columns: MemoryColumn[]
+  rows: Map<number, MemoryRow>
+  primaryKey: string[]
+  rowidAlias?: string
+  uniques: string[][]
+  autoincrement: boolean
+  sequence: number
+  pkLookup?: Map<string, number>
+  // set for fts5 virtual tables
+  fts?: FtsSpec
+}
+
+export interface MemoryIndex {
+  name: string
+  table: string
+  columns: string[]
+  unique: boolean
+  sql: string
+  order: number
+}
+
+export interface MemoryState {
+  tables: Map<string, MemoryTable>
+  indexes: Map<string, MemoryIndex>
+  order: number
+}
+
+// shared by every row of one fts5 source in a statement, so MATCH can hand its query to rank and the auxiliary functions
+interface FtsContext {
+  table: MemoryTable
+  match?: FtsMatch
+  text?: string
+  column?: string
+}
+
+interface Frame {
+  name: string
+  columns: string[]
+  names: string[]
+  affinity: Record<string, Affinity>
+  row: Record<string, Value>|null
+  rowid?: number
+  fts?: FtsContext
+}
+
+interface Scope {
+  frames: Frame[]
+  params: Value[]
+  parent?: Scope
+  group?: Scope[]
+  outputs?: Record<string, Value>
+}
+
+interface SourceRows {
+  frame: Omit<Frame, 'row'|'rowid'>
+  rows: Array<{ values: Record<string, Value>, rowid?: number }>
+}
+
+interface SelectResult {
+  names: string[]
+  rows: Value[][]
+}
+
+interface UniqueConstraint {
+  columns: string[]
+  primaryKey: boolean
+}
+
+const FTS_FUNCTIONS = ['bm25', 'highlight', 'snippet']
+const AGGREGATES = ['count', 'sum', 'total', 'avg', 'min', 'max', 'group_concat', 'json_group_array']
+const ROWID_NAMES = ['rowid', 'oid', '_rowid_']
+const SCHEMA_TABLES = ['sqlite_schema', 'sqlite_master']
+
+const isAggregateCall = (expr: Expr) => expr.kind === 'call' && AGGREGATES.includes(expr.name) && (expr.star || expr.args.length === 1 || expr.name === 'group_concat')
+
+const hasAggregate = (expr?: Expr): boolean => {
+  if (!expr) return false
+  switch (expr.kind) {
+    case 'call': return isAggregateCall(expr) || expr.args.some(hasAggregate)
+    case 'unary': return hasAggregate(expr.expr)
+    case 'binary': return hasAggregate(expr.left) || hasAggregate(expr.right)
+    case 'in': return hasAggregate(expr.expr) || (expr.list || []).some(hasAggregate)
+    case 'between': return hasAggregate(expr.expr) || hasAggregate(expr.low) || hasAggregate(expr.high)
+    case 'case': return hasAggregate(expr.operand) || hasAggregate(expr.otherwise) || expr.whens.some(w => hasAggregate(w.when) || hasAggregate(w.then))
+    case 'cast': return hasAggregate(expr.expr)
+    default: return false
+  }
+}
+
+const conjuncts = (expr?: Expr): Expr[] => {
+  if (!expr) return []
+  if (expr.kind === 'binary' && expr.op === 'AND') return conjuncts(expr.left).concat(conjuncts(expr.right))
+  return [expr]
+}
+
+const isNumericAffinity = (affinity?: Affinity) => affinity === 'INTEGER' || affinity === 'REAL' || affinity === 'NUMERIC'
+
+const resultSet = (rows: Array<Record<string, Value>>, rowsAffected = 0, insertId?: number): PSHResultSet => ({
+  insertId,
+  rowsAffected,
+  rows: {
+    length: rows.length,
+    item: (i: number) => rows[i] === undefined ? null : rows[i],
+    _array: rows,
+  } as PSHResultSet['rows'],
+})
+
+const noSuchTable = (name: string) => new PSHMemorySQLError(`no such table: ${name}`)
+
+/**
+ * A small in-memory SQL engine covering the SQLite dialect p-shooter emits. It is
+ * synchronous and single-connection; `PSHMemoryDatabase` layers WebSQL transactions
+ * (with rollback via `snapshot`/`restore`) on top.
+ */
+export default class PSHMemoryEngine {
+  private state: MemoryState = { tables: new Map(), indexes: new Map(), order: 0 }
+  private statements = new Map<string, Statement>()
+  // tables whose rows a snapshot still shares; `writable` copies them before the first change
+  private shared = new WeakSet<MemoryTable>()
+
+  snapshot(): MemoryState {
+    const tables = new Map<string, MemoryTable>()
+    this.state.tables.forEach((table, key) => {
+      tables.set(key, { ...table })
+      this.shared.add(table)
+    })
+    return { tables, indexes: new Map(this.state.indexes), order: this.state.order }
+  }
+
+  restore(state: MemoryState) {
+    this.state = state
+  }
+
+  private writable(table: MemoryTable): MemoryTable {
+    if (this.shared.has(table)) {
+      this.shared.delete(table)
+      table.rows = new Map(table.rows)
+      if (table.pkLookup) table.pkLookup = new Map(table.pkLookup)
+    }
+    return table
+  }
+
+  execute(sql: string, args: Array<unknown> = []): PSHResultSet {
+    let statement = this.statements.get(sql)
+    if (!statement) {
+      statement = parse(sql)
+      if (this.statements.size > 500) this.statements.clear()
+      this.statements.set(sql, statement)
+    }
+    const params = args.map(toValue)
+    return this.run(statement, sql, params)
+  }
+
+  private run(statement: Statement, sql: string, params: Value[]): PSHResultSet {
+    switch (statement.kind) {
+      case 'select': {
+        const result = this.select(statement, params)
+        return resultSet(result.rows.map(values => toRecord(result.names, values)))
+      }
+      case 'explain':
+        return resultSet(this.explain(statement.statement))
+      case 'insert':
+        return this.insert(statement, params)
+      case 'update':
+        return this.update(statement, params)
+      case 'delete':
+        return this.delete(statement, params)
+      case 'createTable':
+        this.createTable(statement, sql)
+        return resultSet([])
+      case 'createVirtualTable':
+        this.createVirtualTable(statement, sql)
+        return resultSet([])
+      case 'createIndex':
+        this.createIndex(statement, sql)
+        return resultSet([])
+      case 'dropTable':
+        this.dropTable(statement.name, statement.ifExists)
+        return resultSet([])
+      case 'dropIndex':
+        this.dropIndex(statement.name, statement.ifExists)
+        return resultSet([])
+      case 'addColumn':
+        this.addColumn(statement.table, statement.column)
+        return resultSet([])
+      case 'dropColumn':
+        this.dropColumn(statement.table, statement.column)
+        return resultSet([])
+      case 'renameTable':
+        this.renameTable(statement.table, statement.to)
+        return resultSet([])
+      case 'pragma':
+        return resultSet(this.pragma(statement.name, statement.arg))
+      case 'noop':
+        return resultSet([])
+    }
+  }
+
+
+  private table(name: string): MemoryTable {
+    const table = this.state.tables.get(name.toLowerCase())
+    if (!table) throw noSuchTable(name)
+    return table
+  }
+
+  private toColumn(def: ColumnDefinition): MemoryColumn {
+    return {
+      name: def.name,
+      type: def.type,
+      affinity: typeAffinity(def.type),
+      notNull: def.notNull,
+      primaryKey: def.primaryKey,
+      unique: def.unique,
+      defaultValue: def.defaultValue,
+      defaultText: def.defaultText,
+    }
+  }
+
+  private createTable(statement: Extract<Statement, { kind: 'createTable' }>, sql: string) {
+    const key = statement.name.toLowerCase()
+    if (this.state.tables.has(key) || SCHEMA_TABLES.includes(key)) {
+      if (statement.ifNotExists) return
+      throw new PSHMemorySQLError(`table ${statement.name} already exists`)
+    }
+    if (this.state.indexes.has(key)) {
+      throw new PSHMemorySQLError(`there is already an index named ${statement.name}`)
+    }
+    const columns = statement.columns.map(def => this.toColumn(def))
+    const seen = new Set<string>()
+    for (const column of columns) {
+      if (seen.has(column.name.toLowerCase())) throw new PSHMemorySQLError(`duplicate column name: ${column.name}`)
+      seen.add(column.name.toLowerCase())
+    }
+    const primaryKey = (statement.primaryKey || columns.filter(c => c.primaryKey).map(c => c.name)).map(c => c.toLowerCase())
+    if (statement.primaryKey) {
+      columns.forEach(c => { c.primaryKey = primaryKey.includes(c.name.toLowerCase()) })
+    }
+    const pkColumn = primaryKey.length === 1 ? columns.find(c => c.name.toLowerCase() === primaryKey[0]) : undefined
+    const rowidAlias = pkColumn && pkColumn.type.toUpperCase() === 'INTEGER' ? primaryKey[0] : undefined
+    const uniques = columns.filter(c => c.unique).map(c => [c.name.toLowerCase()])
+      .concat(statement.unique.map(u => u.map(c => c.toLowerCase())))
+    this.state.tables.set(key, {
+      name: statement.name,
+      sql: sql.trim().replace(/;$/, ''),
+      order: ++this.state.order,
+      columns,
+      rows: new Map(),
+      primaryKey,
+      rowidAlias,
+      uniques,
+      autoincrement: statement.columns.some(c => c.autoincrement),
+      sequence: 0,
+      pkLookup: primaryKey.length > 0 && !rowidAlias ? new Map() : undefined,
+    })
+  }
+
+  // fts5 is the only module; its tables are ordinary rowid tables that MATCH knows how to search
+  private createVirtualTable(statement: Extract<Statement, { kind: 'createVirtualTable' }>, sql: string) {
+    if (statement.module !== 'fts5') {
+      throw new PSHMemorySQLError(`no such module: ${statement.module}`)
+    }
+    const key = statement.name.toLowerCase()
+    if (this.state.tables.has(key) || SCHEMA_TABLES.includes(key)) {
+      if (statement.ifNotExists) return
+      throw new PSHMemorySQLError(`table ${statement.name} already exists`)
+    }
+    const spec = ftsSpec(statement.args)
+    this.state.tables.set(key, {
+      name: statement.name,
+      sql: sql.trim().replace(/;$/, ''),
+      order: ++this.state.order,
+      columns: spec.columns.map(name => ({ name, type: '', affinity: 'BLOB', notNull: false, primaryKey: false, unique: false })),
+      rows: new Map(),
+      primaryKey: [],
+      uniques: [],
+      autoincrement: false,
+      sequence: 0,
+      fts: spec,
+    })
+  }
+
+  private createIndex(statement: Extract<Statement, { kind: 'createIndex' }>, sql: string) {
+    const key = statement.name.toLowerCase()
+    if (this.state.indexes.has(key)) {
+      if (statement.ifNotExists) return
+      throw new PSHMemorySQLError(`index ${statement.name} already exists`)
+    }
+    if (this.state.tables.has(key)) {
+      throw new PSHMemorySQLError(`there is already a table named ${statement.name}`)
+    }
+    const table = this.state.tables.get(statement.table.toLowerCase())
+    if (!table) throw noSuchTable(`main.${statement.table}`)
+    const columns = statement.columns.map(c => c.toLowerCase())
+    const missing = columns.find(c => !table.columns.some(tc => tc.name.toLowerCase() === c))
+    if (missing) throw new PSHMemorySQLError(`no such column: ${missing}`)
+    const index: MemoryIndex = { name: statement.name, table: table.name.toLowerCase(), columns, unique: statement.unique, sql: sql.trim().replace(/;$/, ''), order: ++this.state.order }
+    if (index.unique) {
+      const seen = new Set<string>()
+      for (const row of table.rows.values()) {
+        const values = columns.map(c => row.values[c])
+        if (values.some(v => v === null)) continue
+        const k = valueKey(values)
+        if (seen.has(k)) throw this.uniqueError(table, columns)
+        seen.add(k)
+      }
+    }
+    this.state.indexes.set(key, index)
+  }
+
+  private dropTable(name: string, ifExists: boolean) {
+    const key = name.toLowerCase()
+    if (!this.state.tables.has(key)) {
+      if (ifExists) return
+      throw noSuchTable(name)
+    }
+    this.state.tables.delete(key)
+    this.state.indexes.forEach((index, indexKey) => {
+      if (index.table === key) this.state.indexes.delete(indexKey)
+    })
+  }
+
+  private dropIndex(name: string, ifExists: boolean) {
+    const key = name.toLowerCase()
+    if (!this.state.indexes.has(key)) {
+      if (ifExists) return
+      throw new PSHMemorySQLError(`no such index: ${name}`)
+    }
+    this.state.indexes.delete(key)
+  }
+
+  private addColumn(tableName: string, def: ColumnDefinition) {
+    const table = this.table(tableName)
+    const column = this.toColumn(def)
+    const key = column.name.toLowerCase()
+    if (table.columns.some(c => c.name.toLowerCase() === key)) {
+      throw new PSHMemorySQLError(`duplicate column name: ${column.name}`)
+    }
+    if (column.primaryKey) throw new PSHMemorySQLError('Cannot add a PRIMARY KEY column')
+    if (column.unique) throw new PSHMemorySQLError('Cannot add a UNIQUE column')
+    const defaultValue = column.defaultValue ? applyAffinity(this.evaluate(column.defaultValue, emptyScope([])), column.affinity) : null
+    if (column.notNull && defaultValue === null) {
+      throw new PSHMemorySQLError('Cannot add a NOT NULL column with default value NULL')
+    }
+    this.writable(table)
+    table.columns = table.columns.concat([column])
+    table.rows.forEach((row, rowid) => table.rows.set(rowid, { rowid, values: { ...row.values, [key]: defaultValue } }))
+    table.sql = `${table.sql.replace(/\)\s*$/, '')}, ${column.name}${column.type ? ` ${column.type}` : ''})`
+  }
+
+  private dropColumn(tableName: string, columnName: string) {
+    const table = this.table(tableName)
+    const key = columnName.toLowerCase()
+    const column = table.columns.find(c => c.name.toLowerCase() === key)
+    if (!column) throw new PSHMemorySQLError(`no such column: "${columnName}"`)
+    if (column.primaryKey) throw new PSHMemorySQLError(`cannot drop PRIMARY KEY column: "${columnName}"`)
+    if (column.unique || table.uniques.some(u => u.includes(key))) throw new PSHMemorySQLError(`cannot drop UNIQUE column: "${columnName}"`)
+    const index = Array.from(this.state.indexes.values()).find(ix => ix.table === table.name.toLowerCase() && ix.columns.includes(key))
+    if (index) throw new PSHMemorySQLError(`error in index ${index.name} after drop column: no such column: ${columnName}`)
+    this.writable(table)
+    table.columns = table.columns.filter(c => c !== column)
+    table.rows.forEach((row, rowid) => {
+      const values = { ...row.values }
+      delete values[key]
+      table.rows.set(rowid, { rowid, values })
+    })
+  }
+
+  private renameTable(from: string, to: string) {
+    const table = this.table(from)
+    const key = to.toLowerCase()
+    if (this.state.tables.has(key)) throw new PSHMemorySQLError(`there is already another table or index with this name: ${to}`)
+    this.state.tables.delete(table.name.toLowerCase())
+    this.state.indexes.forEach((index, indexKey) => {
+      if (index.table === table.name.toLowerCase()) this.state.indexes.set(indexKey, { ...index, table: key })
+    })
+    this.state.tables.set(key, { ...this.writable(table), name: to })
+  }
+
+  private pragma(name: string, arg?: string): Array<Record<string, Value>> {
+    switch (name) {
+      case 'table_info': {
+        const table = arg && this.state.tables.get(arg.toLowerCase())
+        if (!table) return []
+        return table.columns.map((c, cid) => ({
+          cid,
+          name: c.name,
+          type: c.type,
+          notnull: c.notNull ? 1 : 0,
+          dflt_value: c.defaultText === undefined ? null : c.defaultText,
+          pk: c.primaryKey ? table.primaryKey.indexOf(c.name.toLowerCase()) + 1 : 0,
+        }))
+      }
+      case 'index_list': {
+        const table = arg && this.state.tables.get(arg.toLowerCase())
+        if (!table) return []
+        return this.indexesFor(table).reverse().map((ix, seq) => ({ seq, name: ix.name, unique: ix.unique ? 1 : 0, origin: ix.sql ? 'c' : 'pk', partial: 0 }))
+      }
+      case 'index_info': {
+        const index = arg && this.allIndexes().find(ix => ix.name.toLowerCase() === arg.toLowerCase())
+        if (!index) return []
+        const table = this.table(index.table)
+        return index.columns.map((c, seqno) => ({ seqno, cid: table.columns.findIndex(tc => tc.name.toLowerCase() === c), name: c }))
+      }
+      default:
+        return []
+    }
+  }
+
+  private autoIndexes(table: MemoryTable): MemoryIndex[] {
+    const constraints = (table.primaryKey.length > 0 && !table.rowidAlias ? [table.primaryKey] : []).concat(table.uniques)
+    return constraints.map((columns, i) => ({
+      name: `sqlite_autoindex_${table.name}_${i + 1}`,
+      table: table.name.toLowerCase(),
+      columns,
+      unique: true,
+      sql: '',
+      order: table.order,
+    }))
+  }
+
+  private allIndexes(): MemoryIndex[] {
+    const auto = Array.from(this.state.tables.values()).flatMap(t => this.autoIndexes(t))
+    return auto.concat(Array.from(this.state.indexes.values()))
+  }
+
+  private indexesFor(table: MemoryTable): MemoryIndex[] {
+    return this.allIndexes().filter(ix => ix.table === table.name.toLowerCase())
+  }
+
+  private schemaRows(): Array<Record<string, Value>> {
+    type Entry = { order: number, row: Record<string, Value> }
+    const entries: Entry[] = []
+    let rootpage = 2
+    const tables = Array.from(this.state.tables.values()).sort((a, b) => a.order - b.order)
+    for (const table of tables) {
+      entries.push({ order: table.order, row: { type: 'table', name: table.name, tbl_name: table.name, rootpage: rootpage++, sql: table.sql } })
+      for (const index of this.autoIndexes(table)) {
+        entries.push({ order: table.order + 0.5, row: { type: 'index', name: index.name, tbl_name: table.name, rootpage: rootpage++, sql: null } })
+      }
+      if (table.autoincrement && !entries.some(e => e.row.name === 'sqlite_sequence')) {
+        entries.push({ order: table.order + 0.25, row: { type: 'table', name: 'sqlite_sequence', tbl_name: 'sqlite_sequence', rootpage: rootpage++, sql: 'CREATE TABLE sqlite_sequence(name,seq)' } })
+      }
+    }
+    this.state.indexes.forEach(index => {
+      const table = this.state.tables.get(index.table)
+      entries.push({ order: index.order, row: { type: 'index', name: index.name, tbl_name: table ? table.name : index.table, rootpage: rootpage++, sql: index.sql } })
+    })
+    return entries.sort((a, b) => a.order - b.order).map(e => e.row)
+  }
+
+
+  private uniqueConstraints(table: MemoryTable): UniqueConstraint[] {
+    const constraints: UniqueConstraint[] = []
+    if (table.primaryKey.length > 0 && !table.rowidAlias) {
+      constraints.push({ columns: table.primaryKey, primaryKey: true })
+    }
+    table.uniques.forEach(columns => constraints.push({ columns, primaryKey: false }))
+    this.state.indexes.forEach(index => {
+      if (index.unique && index.table === table.name.toLowerCase()) constraints.push({ columns: index.columns, primaryKey: false })
+    })
+    return constraints
+  }
+
+  private uniqueError(table: MemoryTable, columns: string[]) {
+    const names = columns.map(c => `${table.name}.${(table.columns.find(tc => tc.name.toLowerCase() === c) || { name: c }).name}`)
+    return new PSHMemorySQLError(`UNIQUE constraint failed: ${names.join(', ')}`, CONSTRAINT_ERR)
+  }
+
+  private conflicts(table: MemoryTable, values: Record<string, Value>, rowid: number, ignore?: number): Array<{ row: MemoryRow, columns: string[] }> {
+    const found: Array<{ row: MemoryRow, columns: string[] }> = []
+    if (table.rowidAlias && rowid !== ignore && table.rows.has(rowid)) {
+      found.push({ row: table.rows.get(rowid)!, columns: [table.rowidAlias] })
+    }
+    for (const constraint of this.uniqueConstraints(table)) {
+      const key = constraint.columns.map(c => values[c])
+      if (key.some(v => v === null || v === undefined)) continue
+      const k = valueKey(key)
+      let match: MemoryRow|undefined
+      if (constraint.primaryKey && table.pkLookup) {
+        const id = table.pkLookup.get(k)
+        match = id === undefined ? undefined : table.rows.get(id)
+      } else {
+        for (const row of table.rows.values()) {
+          if (valueKey(constraint.columns.map(c => row.values[c])) === k) {
+            match = row
+            break
+          }
+        }
+      }
+      if (match && match.rowid !== ignore && !found.some(f => f.row === match)) {
+        found.push({ row: match, columns: constraint.columns })
+      }
+    }
+    return found
+  }
+
+  private pkKey(table: MemoryTable, values: Record<string, Value>) {
+    return valueKey(table.primaryKey.map(c => values[c]))
+  }
+
+  private checkNotNull(table: MemoryTable, values: Record<string, Value>) {
+    for (const column of table.columns) {
+      const key = column.name.toLowerCase()
+      if (column.notNull && values[key] === null) {
+        throw new PSHMemorySQLError(`NOT NULL constraint failed: ${table.name}.${column.name}`, CONSTRAINT_ERR)
+      }
+    }
+  }
+
+  private insertRow(table: MemoryTable, rowid: number, values: Record<string, Value>) {
+    this.writable(table)
+    table.rows.set(rowid, { rowid, values })
+    if (table.pkLookup) table.pkLookup.set(this.pkKey(table, values), rowid)
+    table.sequence = Math.max(table.sequence, rowid)
+  }
+
+  private deleteRow(table: MemoryTable, rowid: number) {
+    const row = table.rows.get(rowid)
+    if (!row) return
+    this.writable(table)
+    if (table.pkLookup) table.pkLookup.delete(this.pkKey(table, row.values))
+    table.rows.delete(rowid)
+  }
+
+  private replaceRow(table: MemoryTable, old: MemoryRow, rowid: number, values: Record<string, Value>) {
+    if (rowid !== old.rowid) {
+      this.deleteRow(table, old.rowid)
+      this.insertRow(table, rowid, values)
+      return
+    }
+    this.writable(table)
+    if (table.pkLookup) table.pkLookup.delete(this.pkKey(table, old.values))
+    table.rows.set(rowid, { rowid, values })
+    if (table.pkLookup) table.pkLookup.set(this.pkKey(table, values), rowid)
+  }
+
+  private nextRowid(table: MemoryTable) {
+    return table.sequence + 1
+  }
+
+  private tableFrame(table: MemoryTable, alias?: string): Omit<Frame, 'row'|'rowid'> {
+    const affinity: Record<string, Affinity> = {}
+    table.columns.forEach(c => { affinity[c.name.toLowerCase()] = c.affinity })
+    return {
+      name: (alias || table.name).toLowerCase(),
+      columns: table.columns.map(c => c.name.toLowerCase()),
+      names: table.columns.map(c => c.name),
+      affinity,
+      fts: table.fts ? { table } : undefined,
+    }
+  }
+
+  // rows of `table` that could satisfy `where`, using the primary key when it is pinned
+  private candidateRows(table: MemoryTable, where: Expr|undefined, scope: Scope): MemoryRow[] {
+    const pk = table.rowidAlias ? [table.rowidAlias] : table.primaryKey
+    if (pk.length === 1) {
+      for (const term of conjuncts(where)) {
+        if (term.kind !== 'binary' || term.op !== '=') continue
+        const [column, other] = term.left.kind === 'column' ? [term.left, term.right] : [term.right, term.left]
+        if (column.kind !== 'column' || (column.table && column.table.toLowerCase() !== table.name.toLowerCase())) continue
+        if (column.name.toLowerCase() !== pk[0] || (other.kind !== 'param' && other.kind !== 'literal')) continue
+        const affinity = table.columns.find(c => c.name.toLowerCase() === pk[0])!.affinity
+        const value = applyAffinity(this.evaluate(other, scope), affinity)
+        if (table.rowidAlias) {
+          const row = typeof value === 'number' ? table.rows.get(value) : undefined
+          return row ? [row] : []
+        }
+        const rowid = table.pkLookup!.get(valueKey([value]))
+        const row = rowid === undefined ? undefined : table.rows.get(rowid)
+        return row ? [row] : []
+      }
+    }
+    return Array.from(table.rows.values())
+  }
+
+  private matching(table: MemoryTable, where: Expr|undefined, params: Value[]): MemoryRow[] {
+    const frame = this.tableFrame(table)
+    const base = emptyScope(params)
+    return this.candidateRows(table, where, base).filter(row => {
+      if (!where) return true
+      const scope: Scope = { frames: [{ ...frame, row: row.values, rowid: row.rowid }], params }
+      return truthy(this.evaluate(where, scope)) === true
+    })
+  }
+
+  private rowValues(table: MemoryTable, provided: Record<string, Value>, params: Value[]) {
+    const values: Record<string, Value> = {}
+    for (const column of table.columns) {
+      const key = column.name.toLowerCase()
+      if (key in provided) {
+        values[key] = applyAffinity(provided[key], column.affinity)
+      } else if (column.defaultValue) {
+        values[key] = applyAffinity(this.evaluate(column.defaultValue, emptyScope(params)), column.affinity)
+      } else {
+        values[key] = null
+      }
+    }
+    return values
+  }
+
+  private insert(statement: Extract<Statement, { kind: 'insert' }>, params: Value[]): PSHResultSet {
+    const table = this.table(statement.table)
+    const columns = statement.columns ? statement.columns.map(c => c.toLowerCase()) : table.columns.map(c => c.name.toLowerCase())
+    for (const column of columns) {
+      if (!table.columns.some(c => c.name.toLowerCase() === column) && !ROWID_NAMES.includes(column)) {
+        throw new PSHMemorySQLError(`table ${table.name} has no column named ${column}`)
+      }
+    }
+    const sourceRows: Value[][] = statement.values
+      ? statement.values.map(row => row.map(expr => this.evaluate(expr, emptyScope(params))))
+      : this.select(statement.select!, params).rows
+    let rowsAffected = 0
+    let insertId: number|undefined
+    for (const source of sourceRows) {
+      if (source.length !== columns.length) {
+        throw new PSHMemorySQLError(`${columns.length} values for ${source.length} columns`)
+      }
+      const provided: Record<string, Value> = {}
+      columns.forEach((c, i) => { provided[c] = source[i] })
+      const values = this.rowValues(table, provided, params)
+      let rowid: number
+      const explicitRowid = table.rowidAlias ? values[table.rowidAlias] : ROWID_NAMES.map(n => provided[n]).find(v => v !== undefined && v !== null)
+      if (explicitRowid === null || explicitRowid === undefined) {
+        rowid = this.nextRowid(table)
+        if (table.rowidAlias) values[table.rowidAlias] = rowid
+      } else if (typeof explicitRowid !== 'number' || !Number.isInteger(explicitRowid)) {
+        throw new PSHMemorySQLError('datatype mismatch', CONSTRAINT_ERR)
+      } else {
+        rowid = explicitRowid
+      }
+      this.checkNotNull(table, values)
+
+      const conflicts = this.conflicts(table, values, rowid)
+      if (conflicts.length > 0) {
+        if (statement.conflict === 'ignore') continue
+        if (statement.conflict === 'replace') {
+          conflicts.forEach(c => this.deleteRow(table, c.row.rowid))
+        } else if (statement.upsert) {
+          const { target, set, where } = statement.upsert
+          const conflict = conflicts[0]
+          if (target && valueKey(target.map(t => t.toLowerCase()).sort()) !== valueKey(conflict.columns.slice().sort())) {
+            throw this.uniqueError(table, conflict.columns)
+          }
+          if (!set) continue
+          const frame = this.tableFrame(table)
+          const scope: Scope = {
+            frames: [
+              { ...frame, row: conflict.row.values, rowid: conflict.row.rowid },
+              { ...frame, name: 'excluded', row: values, rowid },
+            ],
+            params,
+          }
+          if (where && truthy(this.evaluate(where, scope)) !== true) continue
+          this.applyUpdate(table, conflict.row, set, scope)
+          rowsAffected++
+          insertId = conflict.row.rowid
+          continue
+        } else {
+          throw this.uniqueError(table, conflicts[0].columns)
+        }
+      }
+      this.insertRow(table, rowid, values)
+      rowsAffected++
+      insertId = rowid
+    }
+    return resultSet([], rowsAffected, insertId)
+  }
+
+  private applyUpdate(table: MemoryTable, row: MemoryRow, set: Array<[string, Expr]>, scope: Scope) {
+    const values = { ...row.values }
+    for (const [name, expr] of set) {
+      const key = name.toLowerCase()
+      const column = table.columns.find(c => c.name.toLowerCase() === key)
+      if (!column) throw new PSHMemorySQLError(`no such column: ${name}`)
+      values[key] = applyAffinity(this.evaluate(expr, scope), column.affinity)
+    }
+    let rowid = row.rowid
+    if (table.rowidAlias) {
+      const next = values[table.rowidAlias]
+      if (next === null) {
+        values[table.rowidAlias] = rowid
+      } else if (typeof next !== 'number' || !Number.isInteger(next)) {
+        throw new PSHMemorySQLError('datatype mismatch', CONSTRAINT_ERR)
+      } else {
+        rowid = next
+      }
+    }
+    this.checkNotNull(table, values)
+    const conflicts = this.conflicts(table, values, rowid, row.rowid)
+    if (conflicts.length > 0) throw this.uniqueError(table, conflicts[0].columns)
+    this.replaceRow(table, row, rowid, values)
+  }
+
+  private update(statement: Extract<Statement, { kind: 'update' }>, params: Value[]): PSHResultSet {
+    const table = this.table(statement.table)
+    const frame = this.tableFrame(table)
+    const rows = this.matching(table, statement.where, params)
+    for (const row of rows) {
+      const current = table.rows.get(row.rowid) || row
+      this.applyUpdate(table, current, statement.set, { frames: [{ ...frame, row: current.values, rowid: current.rowid }], params })
+    }
+    return resultSet([], rows.length)
+  }
+
+  private delete(statement: Extract<Statement, { kind: 'delete' }>, params: Value[]): PSHResultSet {
+    const table = this.table(statement.table)
+    const rows = this.matching(table, statement.where, params)
+    rows.forEach(row => this.deleteRow(table, row.rowid))
+    return resultSet([], rows.length)
+  }
+
+
+  private sourceRows(source: Source, scope: Scope): SourceRows {
+    const alias = source.alias
+    if (source.kind === 'table') {
+      const key = source.name.toLowerCase()
+      if (SCHEMA_TABLES.includes(key)) {
+        return virtualRows(alias || source.name, ['type', 'name', 'tbl_name', 'rootpage', 'sql'], this.schemaRows())
+      }
+      if (key === 'sqlite_sequence') {
+        const rows = Array.from(this.state.tables.values()).filter(t => t.autoincrement && t.sequence > 0).map(t => ({ name: t.name, seq: t.sequence }))
+        return virtualRows(alias || source.name, ['name', 'seq'], rows)
+      }
+      const table = this.table(source.name)
+      return {
+        frame: this.tableFrame(table, alias),
+        rows: Array.from(table.rows.values()).map(r => ({ values: r.values, rowid: r.rowid })),
+      }
+    }
+    if (source.kind === 'subquery') {
+      const result = this.select(source.select, scope.params, scope)
+      return virtualRows(alias || '', result.names, result.rows.map(values => toRecord(result.names, values)))
+    }
+    const args = source.args.map(a => this.evaluate(a, scope))
+    switch (source.name) {
+      case 'json_each': {
+        const path = args.length > 1 ? toText(args[1]) || '$' : '$'
+        const rows = jsonEach(args[0], path).map(r => ({ ...r }) as unknown as Record<string, Value>)
+        return virtualRows(alias || 'json_each', ['key', 'value', 'type', 'atom', 'id', 'parent', 'fullkey', 'path'], rows)
+      }
+      default:
+        throw new PSHMemorySQLError(`no such table: ${source.name}`)
+    }
+  }
+
+  private select(select: SelectStatement, params: Value[], parent?: Scope): SelectResult {
+    let scopes: Scope[]
+    let frames: Array<Omit<Frame, 'row'|'rowid'>> = []
+    const base: Scope = { frames: [], params, parent }
+    if (select.from) {
+      let source: SourceRows
+      if (select.from.kind === 'table' && this.state.tables.has(select.from.name.toLowerCase())) {
+        const table = this.table(select.from.name)
+        source = {
+          frame: this.tableFrame(table, select.from.alias),
+          rows: this.candidateRows(table, select.where, base).map(r => ({ values: r.values, rowid: r.rowid })),
+        }
+      } else {
+        source = this.sourceRows(select.from, base)
+      }
+      frames = [source.frame]
+      scopes = source.rows.map(r => ({ frames: [{ ...source.frame, row: r.values, rowid: r.rowid }], params, parent }))
+    } else {
+      scopes = [base]
+    }
+
+    if (select.where) {
+      const where = select.where
+      scopes = scopes.filter(scope => truthy(this.evaluate(where, scope)) === true)
+    }
+
+    const aggregated = !!select.groupBy || select.columns.some(c => hasAggregate(c.expr)) || hasAggregate(select.having)
+    let outputScopes: Scope[]
+    if (aggregated) {
+      const groups = new Map<string, Scope[]>()
+      if (select.groupBy) {
+        const groupBy = select.groupBy
+        for (const scope of scopes) {
+          const key = valueKey(groupBy.map(g => this.evaluate(g, scope)))
+          const group = groups.get(key)
+          if (group) group.push(scope)
+          else groups.set(key, [scope])
+        }
+      } else {
+        groups.set('', scopes)
+      }
+      outputScopes = []
+      groups.forEach(members => {
+        const representative = members[0] || { frames: frames.map(f => ({ ...f, row: null })), params, parent }
+        outputScopes.push({ ...representative, group: members })
+      })
+    } else {
+      outputScopes = scopes
+    }
+
+    const names: string[] = []
+    select.columns.forEach(column => {
+      if (column.star) {
+        frames.filter(f => column.star === true || f.name === (column.star as string).toLowerCase()).forEach(f => names.push(...f.names))
+      } else {
+        names.push(column.alias || (column.expr!.kind === 'column' ? column.expr!.name : column.text))
+      }
+    })
+
+    type Output = { values: Value[], keys: Value[] }
+    let outputs: Output[] = []
+    for (const scope of outputScopes) {
+      const values: Value[] = []
+      for (const column of select.columns) {
+        if (column.star) {
+          scope.frames.filter(f => column.star === true || f.name === (column.star as string).toLowerCase())
+            .forEach(f => f.columns.forEach(c => values.push(f.row ? f.row[c] ?? null : null)))
+        } else {
+          values.push(this.evaluate(column.expr!, scope))
+        }
+      }
+      const withOutputs: Scope = { ...scope, outputs: toRecord(names.map(n => n.toLowerCase()), values) }
+      if (select.having && truthy(this.evaluate(select.having, withOutputs)) !== true) continue
+      const keys = (select.orderBy || []).map(term => {
+        if (term.expr.kind === 'literal' && typeof term.expr.value === 'number') {
+          return values[term.expr.value - 1] ?? null
+        }
+        if (term.expr.kind === 'column' && !term.expr.table) {
+          const aliased = select.columns.findIndex(c => c.alias && c.alias.toLowerCase() === (term.expr as { name: string }).name.toLowerCase())
+          if (aliased >= 0) return values[aliased]
+        }
+        return this.evaluate(term.expr, withOutputs)
+      })
+      outputs.push({ values, keys })
+    }
+
+    if (select.distinct) {
+      const seen = new Set<string>()
+      outputs = outputs.filter(o => {
+        const key = valueKey(o.values)
+        if (seen.has(key)) return false
+        seen.add(key)
+        return true
+      })
+    }
+    if (select.orderBy) {
+      const terms = select.orderBy
+      outputs.sort((a, b) => {
+        for (let i = 0; i < terms.length; i++) {
+          const c = compareValues(a.keys[i], b.keys[i])
+          if (c !== 0) return terms[i].desc ? -c : c
+        }
+        return 0
+      })
+    }
+    if (select.limit || select.offset) {
+      const offset = select.offset ? toNumber(this.evaluate(select.offset, base)) || 0 : 0
+      const limit = select.limit ? toNumber(this.evaluate(select.limit, base)) : null
+      outputs = outputs.slice(Math.max(0, offset), limit === null || limit < 0 ? undefined : Math.max(0, offset) + limit)
+    }
+    return { names, rows: outputs.map(o => o.values) }
+  }
+
+  private explain(statement: Statement): Array<Record<string, Value>> {
+    const rows: Array<Record<string, Value>> = []
+    let id = 1
+    const add = (parent: number, detail: string) => {
+      const row = { id: id++, parent, notused: 0, detail }
+      rows.push(row)
+      return row.id
+    }
+    const plan = (select: SelectStatement, parent: number) => {
+      if (!select.from) {
+        add(parent, 'SCAN CONSTANT ROW')
+      } else if (select.from.kind === 'table') {
+        add(parent, this.accessPath(select.from.name, select.from.alias, select.where))
+      } else if (select.from.kind === 'function') {
+        add(parent, `SCAN ${select.from.alias || select.from.name} VIRTUAL TABLE INDEX 0:`)
+      } else {
+        plan(select.from.select, add(parent, `CO-ROUTINE ${select.from.alias || 'subquery'}`))
+      }
+      const visit = (expr?: Expr) => {
+        if (!expr) return
+        switch (expr.kind) {
+          case 'exists': case 'subquery':
+            plan(expr.select, add(parent, 'CORRELATED SCALAR SUBQUERY'))
+            break
+          case 'in':
+            visit(expr.expr)
+            if (expr.select) plan(expr.select, add(parent, 'LIST SUBQUERY'))
+            break
+          case 'binary': visit(expr.left); visit(expr.right); break
+          case 'unary': visit(expr.expr); break
+          case 'call': expr.args.forEach(visit); break
+        }
+      }
+      visit(select.where)
+      if (select.groupBy) add(parent, 'USE TEMP B-TREE FOR GROUP BY')
+      if (select.distinct) add(parent, 'USE TEMP B-TREE FOR DISTINCT')
+      if (select.orderBy) add(parent, 'USE TEMP B-TREE FOR ORDER BY')
+    }
+    switch (statement.kind) {
+      case 'select':
+        plan(statement, 0)
+        break
+      case 'update': case 'delete':
+        add(0, this.accessPath(statement.table, undefined, statement.where))
+        break
+    }
+    return rows
+  }
+
+  private accessPath(tableName: string, alias: string|undefined, where?: Expr): string {
+    const table = this.state.tables.get(tableName.toLowerCase())
+    const label = alias ? `${tableName} AS ${alias}` : tableName
+    if (!table) return `SCAN ${label}`
+    if (table.fts) return `SCAN ${label} VIRTUAL TABLE INDEX 0:`
+    const equal = new Set<string>()
+    const ranged = new Set<string>()
+    for (const term of conjuncts(where)) {
+      let column: string|undefined
+      let op: string|undefined
+      if (term.kind === 'binary' && ['=', 'IS', '<', '<=', '>', '>='].includes(term.op)) {
+        const [c, other] = term.left.kind === 'column' ? [term.left, term.right] : [term.right, term.left]
+        if (c.kind === 'column' && other.kind !== 'column') {
+          column = c.name.toLowerCase()
+          op = term.op
+        }
+      } else if (term.kind === 'in' && !term.not && term.expr.kind === 'column') {
+        column = term.expr.name.toLowerCase()
+        op = '='
+      }
+      if (!column || !op) continue
+      if (op === '=' || op === 'IS') equal.add(column)
+      else ranged.add(column)
+    }
+    if (table.rowidAlias && equal.has(table.rowidAlias)) {
+      return `SEARCH ${label} USING INTEGER PRIMARY KEY (rowid=?)`
+    }
+    let best: { index: MemoryIndex, terms: string[] }|undefined
+    for (const index of this.indexesFor(table)) {
+      const terms: string[] = []
+      for (const column of index.columns) {
+        if (equal.has(column)) {
+          terms.push(`${column}=?`)
+          continue
+        }
+        if (ranged.has(column)) terms.push(`${column}>?`)
+        break
+      }
+      if (terms.length > 0 && (!best || terms.length > best.terms.length)) {
+        best = { index, terms }
+      }
+    }
+    if (best) {
+      return `SEARCH ${label} USING INDEX ${best.index.name} (${best.terms.join(' AND ')})`
+    }
+    return `SCAN ${label}`
+  }
+
+
+  private lookup(scope: Scope, expr: Extract<Expr, { kind: 'column' }>): { value: Value, affinity?: Affinity } {
+    const name = expr.name.toLowerCase()
+    const table = expr.table && expr.table.toLowerCase()
+    for (let s: Scope|undefined = scope; s; s = s.parent) {
+      for (const frame of s.frames) {
+        if (table && frame.name !== table) continue
+        if (frame.columns.includes(name)) {
+          return { value: frame.row ? frame.row[name] ?? null : null, affinity: frame.affinity[name] }
+        }
+        if (ROWID_NAMES.includes(name) && frame.rowid !== undefined) {
+          return { value: frame.rowid, affinity: 'INTEGER' }
+        }
+        if (name === 'rank' && frame.fts) {
+          const { match, table: fts } = frame.fts
+          return { value: match && frame.row ? match.bm25(frame.row, Array.from(fts.rows.values())) : null }
+        }
+      }
+      if (!table && s.outputs && name in s.outputs) {
+        return { value: s.outputs[name] }
+      }
+    }
+    if (expr.quoted && !table) {
+      return { value: expr.name }
+    }
+    throw new PSHMemorySQLError(`no such column: ${expr.table ? `${expr.table}.` : ''}${expr.name}`)
+  }
+
+  private affinityOf(expr: Expr, scope: Scope): Affinity|undefined {
+    if (expr.kind === 'column') {
+      try {
+        return this.lookup(scope, expr).affinity
+      } catch (e) {
+        return undefined
+      }
+    }
+    if (expr.kind === 'cast') return typeAffinity(expr.type)
+    return undefined
+  }
+
+  private compare(left: Expr, right: Expr, scope: Scope): number|null {
+    let l = this.evaluate(left, scope)
+    let r = this.evaluate(right, scope)
+    if (l === null || r === null) return null
+    const la = this.affinityOf(left, scope)
+    const ra = this.affinityOf(right, scope)
+    if (isNumericAffinity(la) && !isNumericAffinity(ra)) {
+      r = applyAffinity(r, 'NUMERIC')
+    } else if (isNumericAffinity(ra) && !isNumericAffinity(la)) {
+      l = applyAffinity(l, 'NUMERIC')
+    } else if (la === 'TEXT' && ra !== 'TEXT') {
+      r = applyAffinity(r, 'TEXT')
+    } else if (ra === 'TEXT' && la !== 'TEXT') {
+      l = applyAffinity(l, 'TEXT')
+    }
+    return compareValues(l, r)
+  }
+
+  evaluate(expr: Expr, scope: Scope): Value {
+    switch (expr.kind) {
+      case 'literal':
+        return expr.value
+      case 'param':
+        return scope.params[expr.index] ?? null
+      case 'column':
+        return this.lookup(scope, expr).value
+      case 'unary': {
+        const value = this.evaluate(expr.expr, scope)
+        switch (expr.op) {
+          case 'NOT': {
+            const t = truthy(value)
+            return t === null ? null : t ? 0 : 1
+          }
+          case '-': {
+            const n = toNumber(value)
+            return n === null ? null : -n
+          }
+          case '~': {
+            const n = toNumber(value)
+            return n === null ? null : ~n
+          }
+          default:
+            return typeof value === 'string' ? value : toNumber(value)
+        }
+      }
+      case 'binary':
+        return this.binary(expr, scope)
+      case 'in': {
+        const left = this.evaluate(expr.expr, scope)
+        if (left === null) return null
+        const affinity = this.affinityOf(expr.expr, scope)
+        const candidates = expr.select
+          ? this.select(expr.select, scope.params, scope).rows.map(r => r[0])
+          : expr.list!.map(e => this.evaluate(e, scope))
+        let sawNull = false
+        for (const candidate of candidates) {
+          if (candidate === null) {
+            sawNull = true
+            continue
+          }
+          const c = affinity ? applyAffinity(candidate, isNumericAffinity(affinity) ? 'NUMERIC' : affinity) : candidate
+          if (compareValues(left, c) === 0) return expr.not ? 0 : 1
+        }
+        if (sawNull) return null
+        return expr.not ? 1 : 0
+      }
+      case 'between': {
+        const low = this.compare(expr.expr, expr.low, scope)
+        const high = this.compare(expr.expr, expr.high, scope)
+        if (low === null || high === null) return null
+        const inside = low >= 0 && high <= 0
+        return (expr.not ? !inside : inside) ? 1 : 0
+      }
+      case 'exists':
+        return this.select(expr.select, scope.params, scope).rows.length > 0 ? 1 : 0
+      case 'subquery': {
+        const rows = this.select(expr.select, scope.params, scope).rows
+        return rows.length > 0 ? rows[0][0] : null
+      }
+      case 'case': {
+        const operand = expr.operand && this.evaluate(expr.operand, scope)
+        for (const { when, then } of expr.whens) {
+          const w = this.evaluate(when, scope)
+          const hit = expr.operand ? operand !== null && w !== null && compareValues(operand!, w) === 0 : truthy(w) === true
+          if (hit) return this.evaluate(then, scope)
+        }
+        return expr.otherwise ? this.evaluate(expr.otherwise, scope) : null
+      }
+      case 'cast':
+        return cast(this.evaluate(expr.expr, scope), expr.type)
+      case 'call':
+        return this.call(expr, scope)
+    }
+  }
+
+  private binary(expr: Extract<Expr, { kind: 'binary' }>, scope: Scope): Value {
+    switch (expr.op) {
+      case 'AND': {
+        const l = truthy(this.evaluate(expr.left, scope))
+        if (l === false) return 0
+        const r = truthy(this.evaluate(expr.right, scope))
+        if (r === false) return 0
+        return l === null || r === null ? null : 1
+      }
+      case 'OR': {
+        const l = truthy(this.evaluate(expr.left, scope))
+        if (l === true) return 1
+        const r = truthy(this.evaluate(expr.right, scope))
+        if (r === true) return 1
+        return l === null || r === null ? null : 0
+      }
+      case '=': case '!=': case '<': case '<=': case '>': case '>=': {
+        const c = this.compare(expr.left, expr.right, scope)
+        if (c === null) return null
+        switch (expr.op) {
+          case '=': return c === 0 ? 1 : 0
+          case '!=': return c !== 0 ? 1 : 0
+          case '<': return c < 0 ? 1 : 0
+          case '<=': return c <= 0 ? 1 : 0
+          case '>': return c > 0 ? 1 : 0
+          default: return c >= 0 ? 1 : 0
+        }
+      }
+      case 'IS': case 'IS NOT': {
+        const l = this.evaluate(expr.left, scope)
+        const r = this.evaluate(expr.right, scope)
+        const same = l === null || r === null ? l === r : this.compare(expr.left, expr.right, scope) === 0
+        return (expr.op === 'IS' ? same : !same) ? 1 : 0
+      }
+      case 'LIKE': case 'GLOB': {
+        const value = toText(this.evaluate(expr.left, scope))
+        const pattern = toText(this.evaluate(expr.right, scope))
+        if (value === null || pattern === null) return null
+        return (expr.op === 'LIKE' ? likeToRegExp(pattern) : globToRegExp(pattern)).test(value) ? 1 : 0
+      }
+      case 'MATCH': {
+        const { frame, column } = this.ftsTarget(expr.left, scope, 'MATCH')
+        const text = toText(this.evaluate(expr.right, scope))
+        if (text === null || !frame.row) return null
+        const context = frame.fts!
+        if (!context.match || context.text !== text || context.column !== column) {
+          context.match = new FtsMatch(context.table.fts!, text, column)
+          context.text = text
+          context.column = column
+        }
+        return context.match.matches(frame.row) ? 1 : 0
+      }
+      case '||': {
+        const l = toText(this.evaluate(expr.left, scope))
+        const r = toText(this.evaluate(expr.right, scope))
+        return l === null || r === null ? null : l + r
+      }
+      case '->': case '->>': {
+        const json = this.evaluate(expr.left, scope)
+        const selector = this.evaluate(expr.right, scope)
+        if (json === null || selector === null) return null
+        const path = typeof selector === 'number' ? `$[${selector}]` : selector.toString().startsWith('$') ? selector.toString() : `$.${selector}`
+        const node = jsonExtractNode(json, path)
+        if (isMissing(node)) return null
+        return expr.op === '->>' ? jsonToValue(node) : JSON.stringify(node)
+      }
+    }
+    const l = toNumber(this.evaluate(expr.left, scope))
+    const r = toNumber(this.evaluate(expr.right, scope))
+    if (l === null || r === null) return null
+    const integers = Number.isInteger(l) && Number.isInteger(r)
+    switch (expr.op) {
+      case '+': return l + r
+      case '-': return l - r
+      case '*': return l * r
+      case '/': return r === 0 ? null : integers ? Math.trunc(l / r) : l / r
+      case '%': return r === 0 ? null : Math.trunc(l) % Math.trunc(r)
+      case '&': return l & r
+      case '|': return l | r
+      case '<<': return l << r
+      case '>>': return l >> r
+    }
+    throw new PSHMemorySQLError(`unsupported operator ${expr.op}`)
+  }
+
+  // the fts5 source a MATCH or auxiliary function names, by table (all columns) or by one of its columns
+  private ftsTarget(expr: Expr, scope: Scope, name: string): { frame: Frame, column?: string } {
+    if (expr.kind === 'column') {
+      const table = expr.table && expr.table.toLowerCase()
+      const column = expr.name.toLowerCase()
+      for (let s: Scope|undefined = scope; s; s = s.parent) {
+        for (const frame of s.frames) {
+          if (!frame.fts) continue
+          if (!table && column === frame.name) return { frame }
+          if ((!table || table === frame.name) && frame.columns.includes(column)) return { frame, column }
+        }
+      }
+    }
+    throw new PSHMemorySQLError(`unable to use function ${name} in the requested context`)
+  }
+
+  private ftsCall(expr: Extract<Expr, { kind: 'call' }>, scope: Scope): Value {
+    const { frame, column } = this.ftsTarget(expr.args[0], scope, expr.name)
+    const match = frame.fts!.match
+    if (column || !match || !frame.row) throw new PSHMemorySQLError(`unable to use function ${expr.name} in the requested context`)
+    const args = expr.args.slice(1).map(a => this.evaluate(a, scope))
+    const text = (i: number) => toText(args[i] ?? null) || ''
+    switch (expr.name) {
+      case 'bm25':
+        return match.bm25(frame.row, Array.from(frame.fts!.table.rows.values()))
+      case 'highlight':
+        return match.highlight(frame.row, toNumber(args[0]) || 0, text(1), text(2))
+      default:
+        return match.snippet(frame.row, toNumber(args[0]) ?? -1, text(1), text(2), text(3), toNumber(args[4]) || 16)
+    }
+  }
+
+  private aggregate(expr: Extract<Expr, { kind: 'call' }>, scope: Scope): Value {
+    const group = scope.group!
+    if (expr.star) return group.length
+    let values = group.map(member => this.evaluate(expr.args[0], member)).filter(v => v !== null)
+    if (expr.distinct) {
+      const seen = new Set<string>()
+      values = values.filter(v => {
+        const key = valueKey([v])
+        if (seen.has(key)) return false
+        seen.add(key)
+        return true
+      })
+    }
+    switch (expr.name) {
+      case 'count':
+        return values.length
+      case 'sum':
+      case 'total': {
+        if (values.length === 0) return expr.name === 'sum' ? null : 0
+        return values.reduce<number>((sum, v) => sum + (toNumber(v) || 0), 0)
+      }
+      case 'avg':
+        return values.length === 0 ? null : values.reduce<number>((sum, v) => sum + (toNumber(v) || 0), 0) / values.length
+      case 'min':
+      case 'max': {
+        if (values.length === 0) return null
+        const sign = expr.name === 'min' ? 1 : -1
+        return values.reduce((best, v) => compareValues(v, best) * sign < 0 ? v : best)
+      }
+      case 'group_concat': {
+        if (values.length === 0) return null
+        const separator = expr.args.length > 1 ? toText(this.evaluate(expr.args[1], scope)) ?? ',' : ','
+        return values.map(toText).join(separator)
+      }
+      case 'json_group_array':
+        return JSON.stringify(group.map(member => {
+          const v = this.evaluate(expr.args[0], member)
+          return v instanceof Uint8Array ? null : v
+        }))
+    }
+    return null
+  }
+
+  private call(expr: Extract<Expr, { kind: 'call' }>, scope: Scope): Value {
+    if (isAggregateCall(expr)) {
+      if (!scope.group) throw new PSHMemorySQLError(`misuse of aggregate function ${expr.name}()`)
+      return this.aggregate(expr, scope)
+    }
+    if (FTS_FUNCTIONS.includes(expr.name)) {
+      return this.ftsCall(expr, scope)
+    }
+    const args = expr.args.map(a => this.evaluate(a, scope))
+    const text = (i: number) => toText(args[i] ?? null)
+    switch (expr.name) {
+      case 'coalesce':
+      case 'ifnull':
+        return args.find(a => a !== null) ?? null
+      case 'nullif':
+        return args[0] !== null && args[1] !== null && compareValues(args[0], args[1]) === 0 ? null : args[0]
+      case 'iif':
+        return truthy(args[0]) ? args[1] : args[2] ?? null
+      case 'min':
+      case 'max': {
+        if (args.some(a => a === null)) return null
+        const sign = expr.name === 'min' ? 1 : -1
+        return args.reduce((best, v) => compareValues(v, best) * sign < 0 ? v : best)
+      }
+      case 'abs': {
+        const n = toNumber(args[0])
+        return n === null ? null : Math.abs(n)
+      }
+      case 'round': {
+        const n = toNumber(args[0])
+        if (n === null) return null
+        const digits = toNumber(args[1] ?? 0) || 0
+        return Math.round(n * 10 ** digits) / 10 ** digits
+      }
+      case 'lower':
+        return args[0] === null ? null : text(0)!.toLowerCase()
+      case 'upper':
+        return args[0] === null ? null : text(0)!.toUpperCase()
+      case 'length':
+        if (args[0] === null) return null
+        return args[0] instanceof Uint8Array ? args[0].length : text(0)!.length
+      case 'trim': case 'ltrim': case 'rtrim': {
+        if (args[0] === null) return null
+        const chars = args.length > 1 ? text(1) || '' : ' '
+        let value = text(0)!
+        if (expr.name !== 'rtrim') while (value.length && chars.includes(value[0])) value = value.slice(1)
+        if (expr.name !== 'ltrim') while (value.length && chars.includes(value[value.length - 1])) value = value.slice(0, -1)
+        return value
+      }
+      case 'substr':
+      case 'substring': {
+        if (args[0] === null) return null
+        const value = text(0)!
+        let start = toNumber(args[1]) || 0
+        const length = args.length > 2 ? toNumber(args[2]) : null
+        start = start > 0 ? start - 1 : start < 0 ? Math.max(0, value.length + start) : 0
+        return length === null ? value.slice(start) : value.slice(start, start + length)
+      }
+      case 'replace':
+        if (args.some(a => a === null)) return null
+        return text(1) === '' ? text(0) : text(0)!.split(text(1)!).join(text(2)!)
+      case 'instr':
+        if (args.some(a => a === null)) return null
+        return text(0)!.indexOf(text(1)!) + 1
+      case 'typeof':
+        return args[0] === null ? 'null' : typeof args[0] === 'number' ? (Number.isInteger(args[0]) ? 'integer' : 'real') : typeof args[0] === 'string' ? 'text' : 'blob'
+      case 'hex':
+        return args[0] instanceof Uint8Array ? Array.from(args[0]).map(b => b.toString(16).padStart(2, '0')).join('').toUpperCase()
+          : Array.from(text(0) || '').map(c => c.charCodeAt(0).toString(16).padStart(2, '0')).join('').toUpperCase()
+      case 'random':
+        return Math.floor(Math.random() * Number.MAX_SAFE_INTEGER)
+      case 'likely':
+      case 'unlikely':
+        return args[0]
+      case 'json':
+        return args[0] === null ? null : JSON.stringify(parseJson(args[0]))
+      case 'json_valid':
+        try {
+          parseJson(args[0])
+          return args[0] === null ? null : 1
+        } catch (e) {
+          return 0
+        }
+      case 'json_quote':
+        return JSON.stringify(args[0] instanceof Uint8Array ? null : args[0])
+      case 'json_extract': {
+        if (args[0] === null) return null
+        if (args.length === 2) return jsonExtract(args[0], text(1)!)
+        return JSON.stringify(args.slice(1).map(p => {
+          const node = jsonExtractNode(args[0], toText(p)!)
+          return isMissing(node) ? null : node
+        }))
+      }
+      case 'json_type': {
+        if (args[0] === null) return null
+        return jsonType(args.length > 1 ? jsonExtractNode(args[0], text(1)!) : parseJson(args[0]))
+      }
+      case 'json_array_length': {
+        if (args[0] === null) return null
+        const node = args.length > 1 ? jsonExtractNode(args[0], text(1)!) : parseJson(args[0])
+        if (isMissing(node)) return null
+        return Array.isArray(node) ? node.length : 0
+      }
+      case 'json_array':
+        return JSON.stringify(args.map(a => a instanceof Uint8Array ? null : a))
+      case 'json_object': {
+        const ob: Record<string, Value> = {}
+        for (let i = 0; i + 1 < args.length; i += 2) ob[text(i)!] = args[i + 1]
+        return JSON.stringify(ob)
+      }
+    }
+    throw new PSHMemorySQLError(`no such function: ${expr.name}`)
+  }
+}
+
+const emptyScope = (params: Value[]): Scope => ({ frames: [], params })
+
+const toRecord = (names: string[], values: Value[]): Record<string, Value> => {
+  const record: Record<string, Value> = {}
+  names.forEach((name, i) => { record[name] = values[i] })
+  return record
+}
+
+const virtualRows = (name: string, columns: string[], rows: Array<Record<string, Value>>): SourceRows => ({
+  frame: {
+    name: name.toLowerCase(),
+    columns: columns.map(c => c.toLowerCase()),
+    names: columns,
+    affinity: {},
+  },
+  rows: rows.map(values => {
+    const lowered: Record<string, Value> = {}
+    Object.keys(values).forEach(k => { lowered[k.toLowerCase()] = values[k] })
+    return { values: lowered }
+  }),
+})
+
+const cast = (value: Value, type: string): Value => {
+  if (value === null) return null
+  switch (typeAffinity(type)) {
+    case 'INTEGER': return Math.trunc(toNumber(value) || 0)
+    case 'REAL': return toNumber(value)
+    case 'TEXT': return toText(value)
+    case 'NUMERIC': return typeof value === 'number' ? value : toNumber(value)
+    default: return value
+  }
+}
\ No newline at end of file
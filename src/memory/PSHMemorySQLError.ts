@@ -0,0 +1,14 @@
+// Codes follow the WebSQL SQLError constants that react-native-sqlite-2 reports.
+export const UNKNOWN_ERR = 0
+export const SYNTAX_ERR = 5
+export const CONSTRAINT_ERR = 6
+
+export default class PSHMemorySQLError extends Error {
+  code: number
+
+  constructor(message: string, code: number = SYNTAX_ERR) {
+    super(message)
+    this.name = 'PSHMemorySQLError'
+    this.code = code
+  }
+}
\ No newline at end of file
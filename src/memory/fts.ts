@@ -0,0 +1,324 @@
+import { Value } from './parse'
+import { toText } from './values'
+import PSHMemorySQLError from './PSHMemorySQLError'
+
+
+export interface FtsSpec {
+  columns: string[]
+  // lowercased names of columns that are stored but not tokenized
+  unindexed: string[]
+}
+
+interface Token {
+  term: string
+  start: number
+  end: number
+}
+
+type FtsQuery =
+  | { kind: 'phrase', terms: string[], prefix: boolean, columns?: string[] }
+  | { kind: 'and' | 'or' | 'not', left: FtsQuery, right: FtsQuery }
+
+type Phrase = Extract<FtsQuery, { kind: 'phrase' }>
+
+// a phrase found in a row: the column it's in and the token range it covers
+interface Hit {
+  column: number
+  first: number
+  last: number
+}
+
+export interface FtsRow {
+  values: Record<string, Value>
+  rowid?: number
+}
+
+const K1 = 1.2
+const B = 0.75
+
+// fts5 arguments are column names, optionally UNINDEXED, and `option = value` pairs
+export const ftsSpec = (args: string[]): FtsSpec => {
+  const columns: string[] = []
+  const unindexed: string[] = []
+  args.filter(arg => !/^\w+\s*=/.test(arg)).forEach(arg => {
+    const [name, ...flags] = arg.split(/\s+/)
+    const column = name.replace(/^["`[]|["`\]]$/g, '')
+    columns.push(column)
+    if (flags.some(flag => flag.toUpperCase() === 'UNINDEXED')) unindexed.push(column.toLowerCase())
+  })
+  if (columns.length === 0) throw new PSHMemorySQLError('vtable constructor failed: fts5 needs at least one column')
+  return { columns, unindexed }
+}
+
+// unicode61: letters and digits, case- and diacritic-folded
+const fold = (text: string) => text.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase()
+
+const tokenize = (text: string): Token[] => {
+  const tokens: Token[] = []
+  const word = /[\p{L}\p{N}\p{M}]+/gu
+  let match: RegExpExecArray|null
+  while ((match = word.exec(text))) {
+    const term = fold(match[0])
+    if (term) tokens.push({ term, start: match.index, end: match.index + match[0].length })
+  }
+  return tokens
+}
+
+class FtsQueryParser {
+  private pos = 0
+
+  constructor(private readonly text: string, private readonly columns: string[]) {}
+
+  parse(): FtsQuery {
+    const query = this.or()
+    this.space()
+    if (this.pos < this.text.length) this.fail()
+    return query
+  }
+
+  private fail(): never {
+    throw new PSHMemorySQLError(`fts5: syntax error near "${this.text.slice(this.pos)}"`)
+  }
+
+  private space() {
+    while (this.pos < this.text.length && /\s/.test(this.text[this.pos])) this.pos++
+  }
+
+  private keyword(word: string) {
+    this.space()
+    const next = this.text.slice(this.pos, this.pos + word.length + 1)
+    if (next === word || (next.startsWith(word) && /[\s("]/.test(next[word.length]))) {
+      this.pos += word.length
+      return true
+    }
+    return false
+  }
+
+  private atPrimary() {
+    this.space()
+    const c = this.text[this.pos]
+    return c !== undefined && c !== ')' && !['AND', 'OR', 'NOT'].some(word => this.peekKeyword(word))
+  }
+
+  private peekKeyword(word: string) {
+    const start = this.pos
+    const found = this.keyword(word)
+    this.pos = start
+    return found
+  }
+
+  private or(): FtsQuery {
+    let left = this.and()
+    while (this.keyword('OR')) left = { kind: 'or', left, right: this.and() }
+    return left
+  }
+
+  private and(): FtsQuery {
+    let left = this.not()
+    for (;;) {
+      if (this.keyword('AND') || this.atPrimary()) {
+        left = { kind: 'and', left, right: this.not() }
+      } else {
+        return left
+      }
+    }
+  }
+
+  private not(): FtsQuery {
+    let left = this.primary()
+    while (this.keyword('NOT')) left = { kind: 'not', left, right: this.primary() }
+    return left
+  }
+
+  private primary(columns?: string[]): FtsQuery {
+    this.space()
+    if (this.text[this.pos] === '(') {
+      this.pos++
+      const query = this.or()
+      this.space()
+      if (this.text[this.pos] !== ')') this.fail()
+      this.pos++
+      return columns ? restrict(query, columns) : query
+    }
+    if (!columns) {
+      const filter = this.columnFilter()
+      if (filter) return this.primary(filter)
+    }
+    let source: string
+    if (this.text[this.pos] === '"') {
+      let end = this.pos + 1
+      source = ''
+      for (;;) {
+        if (end >= this.text.length) this.fail()
+        if (this.text[end] === '"') {
+          if (this.text[end + 1] !== '"') break
+          end++
+        }
+        source += this.text[end]
+        end++
+      }
+      this.pos = end + 1
+    } else {
+      const bareword = /^[\p{L}\p{N}_\u001a]+/u.exec(this.text.slice(this.pos))
+      if (!bareword) this.fail()
+      source = bareword[0]
+      this.pos += source.length
+    }
+    const prefix = this.text[this.pos] === '*'
+    if (prefix) this.pos++
+    const phrase: Phrase = { kind: 'phrase', terms: tokenize(source).map(t => t.term), prefix }
+    if (columns) phrase.columns = columns
+    return phrase
+  }
+
+  // `col:` or `{col1 col2}:` ahead of a phrase or group
+  private columnFilter(): string[]|undefined {
+    const rest = this.text.slice(this.pos)
+    const match = /^(?:\{([^}]*)\}|([\p{L}\p{N}_]+))\s*:/u.exec(rest)
+    if (!match) return undefined
+    const names = (match[1] !== undefined ? match[1].trim().split(/\s+/) : [match[2]]).map(n => n.toLowerCase())
+    const missing = names.find(name => !this.columns.includes(name))
+    if (missing) throw new PSHMemorySQLError(`no such column: ${missing}`)
+    this.pos += match[0].length
+    return names
+  }
+}
+
+const restrict = (query: FtsQuery, columns: string[]): FtsQuery => query.kind === 'phrase'
+  ? { ...query, columns: query.columns ? query.columns.filter(c => columns.includes(c)) : columns }
+  : { ...query, left: restrict(query.left, columns), right: restrict(query.right, columns) }
+
+const phrases = (query: FtsQuery): Phrase[] => query.kind === 'phrase' ? [query] : phrases(query.left).concat(phrases(query.right))
+
+/**
+ * An FTS5 table's view of one MATCH: the parsed query plus what ranking needs across the
+ * table's rows, computed once per statement.
+ */
+export class FtsMatch {
+  readonly query: FtsQuery
+  private readonly spec: FtsSpec
+  private readonly docs = new WeakMap<Record<string, Value>, Token[][]>()
+  private stats?: { count: number, averages: number[], frequencies: Map<Phrase, number> }
+
+  constructor(spec: FtsSpec, text: string, column?: string) {
+    const columns = spec.columns.map(c => c.toLowerCase())
+    const query = new FtsQueryParser(text, columns).parse()
+    this.query = column ? restrict(query, [column.toLowerCase()]) : query
+    this.spec = spec
+  }
+
+  private tokens(values: Record<string, Value>): Token[][] {
+    let doc = this.docs.get(values)
+    if (!doc) {
+      doc = this.spec.columns.map(c => {
+        const key = c.toLowerCase()
+        return this.spec.unindexed.includes(key) ? [] : tokenize(toText(values[key] ?? null) || '')
+      })
+      this.docs.set(values, doc)
+    }
+    return doc
+  }
+
+  private phraseHits(phrase: Phrase, doc: Token[][]): Hit[] {
+    const hits: Hit[] = []
+    if (phrase.terms.length === 0) return hits
+    const last = phrase.terms.length - 1
+    doc.forEach((tokens, column) => {
+      if (phrase.columns && !phrase.columns.includes(this.spec.columns[column].toLowerCase())) return
+      for (let i = 0; i + last < tokens.length; i++) {
+        const found = phrase.terms.every((term, j) => j === last && phrase.prefix ? tokens[i + j].term.startsWith(term) : tokens[i + j].term === term)
+        if (found) hits.push({ column, first: i, last: i + last })
+      }
+    })
+    return hits
+  }
+
+  private test(query: FtsQuery, doc: Token[][]): boolean {
+    switch (query.kind) {
+      case 'phrase': return this.phraseHits(query, doc).length > 0
+      case 'and': return this.test(query.left, doc) && this.test(query.right, doc)
+      case 'or': return this.test(query.left, doc) || this.test(query.right, doc)
+      case 'not': return this.test(query.left, doc) && !this.test(query.right, doc)
+    }
+  }
+
+  matches(values: Record<string, Value>) {
+    return this.test(this.query, this.tokens(values))
+  }
+
+  // SQLite's bm25(): more negative is a better match
+  bm25(values: Record<string, Value>, rows: FtsRow[]): number {
+    const stats = this.corpus(rows)
+    const doc = this.tokens(values)
+    let score = 0
+    phrases(this.query).forEach(phrase => {
+      const having = stats.frequencies.get(phrase) || 0
+      const idf = Math.max(Math.log((stats.count - having + 0.5) / (having + 0.5)), 1e-6)
+      const hits = this.phraseHits(phrase, doc)
+      doc.forEach((tokens, column) => {
+        const frequency = hits.filter(hit => hit.column === column).length
+        if (frequency === 0) return
+        const length = stats.averages[column] > 0 ? tokens.length / stats.averages[column] : 1
+        score += idf * (frequency * (K1 + 1)) / (frequency + K1 * (1 - B + B * length))
+      })
+    })
+    return -score
+  }
+
+  private corpus(rows: FtsRow[]) {
+    if (!this.stats) {
+      const docs = rows.map(row => this.tokens(row.values))
+      const averages = this.spec.columns.map((_, column) => docs.length > 0 ? docs.reduce((sum, doc) => sum + doc[column].length, 0) / docs.length : 0)
+      const frequencies = new Map<Phrase, number>()
+      phrases(this.query).forEach(phrase => frequencies.set(phrase, docs.filter(doc => this.phraseHits(phrase, doc).length > 0).length))
+      this.stats = { count: docs.length, averages, frequencies }
+    }
+    return this.stats
+  }
+
+  private hits(doc: Token[][], column: number): Hit[] {
+    const hits = phrases(this.query).flatMap(phrase => this.phraseHits(phrase, doc)).filter(hit => hit.column === column)
+    return hits.sort((a, b) => a.first - b.first)
+  }
+
+  private mark(text: string, tokens: Token[], hits: Hit[], from: number, to: number, open: string, close: string) {
+    let out = ''
+    let at = tokens[from].start
+    hits.filter(hit => hit.first >= from && hit.last <= to).forEach(hit => {
+      const start = tokens[hit.first].start
+      if (start < at) return
+      out += text.slice(at, start) + open + text.slice(start, tokens[hit.last].end) + close
+      at = tokens[hit.last].end
+    })
+    return out + text.slice(at, tokens[to].end)
+  }
+
+  highlight(values: Record<string, Value>, column: number, open: string, close: string): Value {
+    const text = toText(values[(this.spec.columns[column] || '').toLowerCase()] ?? null)
+    if (text === null) return null
+    const tokens = this.tokens(values)[column] || []
+    if (tokens.length === 0) return text
+    const marked = this.mark(text, tokens, this.hits(this.tokens(values), column), 0, tokens.length - 1, open, close)
+    return text.slice(0, tokens[0].start) + marked + text.slice(tokens[tokens.length - 1].end)
+  }
+
+  // the window of `size` tokens with the most hits, in the given column or (with -1) the best one
+  snippet(values: Record<string, Value>, column: number, open: string, close: string, ellipsis: string, size: number): Value {
+    const doc = this.tokens(values)
+    const columns = column >= 0 ? [column] : doc.map((_, i) => i)
+    let best = { column: columns[0], start: 0, score: -1 }
+    columns.forEach(c => {
+      const hits = this.hits(doc, c)
+      for (let start = 0; start === 0 || start + size <= doc[c].length; start++) {
+        const score = hits.filter(hit => hit.first >= start && hit.last < start + size).length
+        if (score > best.score) best = { column: c, start, score }
+      }
+    })
+    const text = toText(values[(this.spec.columns[best.column] || '').toLowerCase()] ?? null)
+    const tokens = doc[best.column] || []
+    if (text === null || tokens.length === 0) return text || ''
+    const end = Math.min(tokens.length, best.start + size) - 1
+    const marked = this.mark(text, tokens, this.hits(doc, best.column), best.start, end, open, close)
+    return (best.start > 0 ? ellipsis : '') + marked + (end < tokens.length - 1 ? ellipsis : '')
+  }
+}
\ No newline at end of file
@@ -0,0 +1,117 @@
+import { Value } from './parse'
+import PSHMemorySQLError from './PSHMemorySQLError'
+
+
+type PathSegment = string | number
+
+const MISSING = Symbol('missing')
+
+export const parseJsonPath = (path: string): PathSegment[] => {
+  if (!path.startsWith('$')) {
+    throw new PSHMemorySQLError(`JSON path error near '${path}'`)
+  }
+  const segments: PathSegment[] = []
+  let i = 1
+  while (i < path.length) {
+    if (path[i] === '.') {
+      i++
+      if (path[i] === '"') {
+        const close = path.indexOf('"', i + 1)
+        segments.push(path.slice(i + 1, close))
+        i = close + 1
+      } else {
+        let end = i
+        while (end < path.length && path[end] !== '.' && path[end] !== '[') end++
+        segments.push(path.slice(i, end))
+        i = end
+      }
+    } else if (path[i] === '[') {
+      const close = path.indexOf(']', i)
+      const index = path.slice(i + 1, close)
+      segments.push(index.startsWith('#') ? index : Number(index))
+      i = close + 1
+    } else {
+      throw new PSHMemorySQLError(`JSON path error near '${path.slice(i)}'`)
+    }
+  }
+  return segments
+}
+
+export const parseJson = (text: Value): unknown => {
+  if (text === null) return null
+  if (typeof text === 'number') return text
+  try {
+    return JSON.parse(text as string)
+  } catch (e) {
+    throw new PSHMemorySQLError('malformed JSON')
+  }
+}
+
+const resolve = (root: unknown, segments: PathSegment[]): unknown => {
+  let node: unknown = root
+  for (const segment of segments) {
+    if (node === null || typeof node !== 'object') return MISSING
+    if (Array.isArray(node)) {
+      let index = typeof segment === 'number' ? segment : NaN
+      if (typeof segment === 'string' && segment.startsWith('#')) {
+        const offset = segment.length > 1 ? Number(segment.slice(1).replace(/\s/g, '')) : 0
+        index = node.length + offset
+      }
+      if (!(index >= 0 && index < node.length)) return MISSING
+      node = node[index]
+    } else {
+      if (typeof segment !== 'string' || !(segment in (node as object))) return MISSING
+      node = (node as Record<string, unknown>)[segment]
+    }
+  }
+  return node
+}
+
+// the SQL value json_extract() would return for a JSON node
+export const jsonToValue = (node: unknown): Value => {
+  if (node === null || node === undefined || node === MISSING) return null
+  if (typeof node === 'boolean') return node ? 1 : 0
+  if (typeof node === 'number' || typeof node === 'string') return node
+  return JSON.stringify(node)
+}
+
+export const jsonType = (node: unknown): string|null => {
+  if (node === MISSING || node === undefined) return null
+  if (node === null) return 'null'
+  if (node === true) return 'true'
+  if (node === false) return 'false'
+  if (typeof node === 'number') return Number.isInteger(node) ? 'integer' : 'real'
+  if (typeof node === 'string') return 'text'
+  return Array.isArray(node) ? 'array' : 'object'
+}
+
+export const jsonExtractNode = (json: Value, path: string): unknown => resolve(parseJson(json), parseJsonPath(path))
+
+export const jsonExtract = (json: Value, path: string): Value => jsonToValue(jsonExtractNode(json, path))
+
+export const isMissing = (node: unknown) => node === MISSING
+
+export interface JsonEachRow {
+  key: Value
+  value: Value
+  type: string|null
+  atom: Value
+  id: number
+  parent: Value
+  fullkey: string
+  path: string
+}
+
+export const jsonEach = (json: Value, path: string = '$'): JsonEachRow[] => {
+  if (json === null) return []
+  const node = jsonExtractNode(json, path)
+  if (node === MISSING) return []
+  const atom = (n: unknown) => n !== null && typeof n === 'object' ? null : jsonToValue(n)
+  if (Array.isArray(node)) {
+    return node.map((n, i) => ({ key: i, value: jsonToValue(n), type: jsonType(n), atom: atom(n), id: i + 1, parent: null, fullkey: `${path}[${i}]`, path }))
+  }
+  if (node !== null && typeof node === 'object') {
+    return Object.entries(node as object).map(([k, n], i) => ({ key: k, value: jsonToValue(n), type: jsonType(n), atom: atom(n), id: i + 1, parent: null, fullkey: `${path}.${k}`, path }))
+  }
+  return [{ key: null, value: jsonToValue(node), type: jsonType(node), atom: atom(node), id: 0, parent: null, fullkey: path, path }]
+}
\ No newline at end of file
@@ -0,0 +1,749 @@
+import tokenize, { Token } from './tokenize'
+import PSHMemorySQLError from './PSHMemorySQLError'
+
+
+export type Value = null | number | string | Uint8Array
+
+export type Expr =
+  | { kind: 'literal', value: Value }
+  | { kind: 'param', index: number }
+  | { kind: 'column', table?: string, name: string, quoted?: boolean }
+  | { kind: 'unary', op: string, expr: Expr }
+  | { kind: 'binary', op: string, left: Expr, right: Expr }
+  | { kind: 'in', expr: Expr, not: boolean, list?: Expr[], select?: SelectStatement }
+  | { kind: 'between', expr: Expr, not: boolean, low: Expr, high: Expr }
+  | { kind: 'call', name: string, args: Expr[], star: boolean, distinct: boolean }
+  | { kind: 'exists', select: SelectStatement }
+  | { kind: 'subquery', select: SelectStatement }
+  | { kind: 'case', operand?: Expr, whens: Array<{ when: Expr, then: Expr }>, otherwise?: Expr }
+  | { kind: 'cast', expr: Expr, type: string }
+
+export interface ResultColumn {
+  expr?: Expr
+  star?: string|true
+  alias?: string
+  text: string
+}
+
+export type Source =
+  | { kind: 'table', name: string, alias?: string }
+  | { kind: 'function', name: string, args: Expr[], alias?: string }
+  | { kind: 'subquery', select: SelectStatement, alias?: string }
+
+export interface OrderingTerm {
+  expr: Expr
+  desc: boolean
+}
+
+export interface SelectStatement {
+  kind: 'select'
+  distinct: boolean
+  columns: ResultColumn[]
+  from?: Source
+  where?: Expr
+  groupBy?: Expr[]
+  having?: Expr
+  orderBy?: OrderingTerm[]
+  limit?: Expr
+  offset?: Expr
+}
+
+export interface ColumnDefinition {
+  name: string
+  type: string
+  primaryKey: boolean
+  autoincrement: boolean
+  notNull: boolean
+  unique: boolean
+  defaultValue?: Expr
+  defaultText?: string
+}
+
+export interface UpsertClause {
+  target?: string[]
+  set?: Array<[string, Expr]>
+  where?: Expr
+}
+
+export type Statement =
+  | SelectStatement
+  | { kind: 'explain', statement: Statement }
+  | { kind: 'insert', conflict?: 'replace'|'ignore', table: string, columns?: string[], values?: Expr[][], select?: SelectStatement, upsert?: UpsertClause }
+  | { kind: 'update', table: string, set: Array<[string, Expr]>, where?: Expr }
+  | { kind: 'delete', table: string, where?: Expr }
+  | { kind: 'createTable', name: string, ifNotExists: boolean, columns: ColumnDefinition[], primaryKey?: string[], unique: string[][] }
+  | { kind: 'createVirtualTable', name: string, ifNotExists: boolean, module: string, args: string[] }
+  | { kind: 'createIndex', name: string, table: string, columns: string[], unique: boolean, ifNotExists: boolean }
+  | { kind: 'dropTable', name: string, ifExists: boolean }
+  | { kind: 'dropIndex', name: string, ifExists: boolean }
+  | { kind: 'addColumn', table: string, column: ColumnDefinition }
+  | { kind: 'dropColumn', table: string, column: string }
+  | { kind: 'renameTable', table: string, to: string }
+  | { kind: 'pragma', name: string, arg?: string }
+  | { kind: 'noop' }
+
+const RESERVED = new Set([
+  'ADD', 'ALL', 'ALTER', 'AND', 'AS', 'ASC', 'BETWEEN', 'BY', 'CASE', 'CHECK', 'COLLATE', 'CONFLICT', 'CONSTRAINT', 'CREATE',
+  'CROSS', 'DEFAULT', 'DELETE', 'DESC', 'DISTINCT', 'DO', 'DROP', 'ELSE', 'END', 'ESCAPE', 'EXCEPT', 'EXISTS', 'FROM', 'GLOB',
+  'GROUP', 'HAVING', 'IN', 'INDEX', 'INNER', 'INSERT', 'INTERSECT', 'INTO', 'IS', 'ISNULL', 'JOIN', 'LEFT', 'LIKE', 'LIMIT',
+  'MATCH', 'NOT', 'NOTNULL', 'NULL', 'OFFSET', 'ON', 'OR', 'ORDER', 'PRIMARY', 'REFERENCES', 'RETURNING', 'SELECT', 'SET',
+  'TABLE', 'THEN', 'UNION', 'UNIQUE', 'UPDATE', 'USING', 'VALUES', 'WHEN', 'WHERE',
+])
+
+const COMPARISON = ['=', '==', '!=', '<>']
+const RELATIONAL = ['<', '<=', '>', '>=']
+
+class Parser {
+  private tokens: Token[]
+  private pos = 0
+  private params = 0
+
+  constructor(private readonly sql: string) {
+    this.tokens = tokenize(sql)
+  }
+
+  private get peek(): Token {
+    return this.tokens[this.pos]
+  }
+
+  private peekAt(offset: number): Token {
+    return this.tokens[Math.min(this.pos + offset, this.tokens.length - 1)]
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.pos]
+    if (this.pos < this.tokens.length - 1) this.pos++
+    return token
+  }
+
+  private fail(token: Token = this.peek): never {
+    if (token.type === 'eof') {
+      throw new PSHMemorySQLError('incomplete input')
+    }
+    throw new PSHMemorySQLError(`near "${this.sql.slice(token.start, token.end)}": syntax error`)
+  }
+
+  private isKeyword(word: string, token: Token = this.peek) {
+    return token.type === 'ident' && token.value.toUpperCase() === word
+  }
+
+  private acceptKeyword(...words: string[]) {
+    for (let i = 0; i < words.length; i++) {
+      if (!this.isKeyword(words[i], this.peekAt(i))) {
+        return false
+      }
+    }
+    this.pos += words.length
+    return true
+  }
+
+  private expectKeyword(...words: string[]) {
+    if (!this.acceptKeyword(...words)) this.fail()
+  }
+
+  private isOp(op: string, token: Token = this.peek) {
+    return token.type === 'op' && token.value === op
+  }
+
+  private acceptOp(op: string) {
+    if (this.isOp(op)) {
+      this.next()
+      return true
+    }
+    return false
+  }
+
+  private expectOp(op: string) {
+    if (!this.acceptOp(op)) this.fail()
+  }
+
+  private name(): string {
+    const token = this.peek
+    if (token.type === 'quoted' || token.type === 'string' || (token.type === 'ident' && !RESERVED.has(token.value.toUpperCase()))) {
+      this.next()
+      return token.value
+    }
+    return this.fail()
+  }
+
+  private qualifiedName(): string {
+    const first = this.name()
+    if (this.acceptOp('.')) {
+      // schema qualifiers (main.foo) are accepted and ignored
+      return this.name()
+    }
+    return first
+  }
+
+  private nameList(): string[] {
+    this.expectOp('(')
+    const names = [this.name()]
+    while (this.acceptOp(',')) names.push(this.name())
+    this.expectOp(')')
+    return names
+  }
+
+  parse(): Statement {
+    const statement = this.statement()
+    this.acceptOp(';')
+    if (this.peek.type !== 'eof') this.fail()
+    return statement
+  }
+
+  private statement(): Statement {
+    if (this.acceptKeyword('EXPLAIN')) {
+      this.acceptKeyword('QUERY', 'PLAN')
+      return { kind: 'explain', statement: this.statement() }
+    }
+    if (this.isKeyword('SELECT')) return this.select()
+    if (this.isKeyword('INSERT') || this.isKeyword('REPLACE')) return this.insert()
+    if (this.acceptKeyword('UPDATE')) return this.update()
+    if (this.acceptKeyword('DELETE')) return this.delete()
+    if (this.acceptKeyword('CREATE')) return this.create()
+    if (this.acceptKeyword('DROP')) return this.drop()
+    if (this.acceptKeyword('ALTER')) return this.alter()
+    if (this.acceptKeyword('PRAGMA')) return this.pragma()
+    if (['BEGIN', 'COMMIT', 'END', 'ROLLBACK', 'VACUUM', 'ANALYZE'].some(w => this.isKeyword(w))) {
+      while (this.peek.type !== 'eof' && !this.isOp(';')) this.next()
+      return { kind: 'noop' }
+    }
+    return this.fail()
+  }
+
+  private select(): SelectStatement {
+    this.expectKeyword('SELECT')
+    const distinct = this.acceptKeyword('DISTINCT')
+    if (!distinct) this.acceptKeyword('ALL')
+    const columns: ResultColumn[] = []
+    do {
+      columns.push(this.resultColumn())
+    } while (this.acceptOp(','))
+
+    const select: SelectStatement = { kind: 'select', distinct, columns }
+    if (this.acceptKeyword('FROM')) {
+      select.from = this.source()
+    }
+    if (this.acceptKeyword('WHERE')) {
+      select.where = this.expr()
+    }
+    if (this.acceptKeyword('GROUP', 'BY')) {
+      select.groupBy = [this.expr()]
+      while (this.acceptOp(',')) select.groupBy.push(this.expr())
+      if (this.acceptKeyword('HAVING')) select.having = this.expr()
+    }
+    if (this.acceptKeyword('ORDER', 'BY')) {
+      select.orderBy = [this.orderingTerm()]
+      while (this.acceptOp(',')) select.orderBy.push(this.orderingTerm())
+    }
+    if (this.acceptKeyword('LIMIT')) {
+      select.limit = this.expr()
+      if (this.acceptKeyword('OFFSET')) {
+        select.offset = this.expr()
+      } else if (this.acceptOp(',')) {
+        select.offset = select.limit
+        select.limit = this.expr()
+      }
+    }
+    return select
+  }
+
+  private resultColumn(): ResultColumn {
+    const start = this.peek.start
+    if (this.acceptOp('*')) {
+      return { star: true, text: '*' }
+    }
+    if ((this.peek.type === 'ident' || this.peek.type === 'quoted') && this.isOp('.', this.peekAt(1)) && this.isOp('*', this.peekAt(2))) {
+      const table = this.next().value
+      this.pos += 2
+      return { star: table, text: `${table}.*` }
+    }
+    const expr = this.expr()
+    const text = this.sql.slice(start, this.tokens[this.pos - 1].end)
+    let alias: string|undefined
+    if (this.acceptKeyword('AS')) {
+      alias = this.name()
+    } else if (this.peek.type === 'quoted' || (this.peek.type === 'ident' && !RESERVED.has(this.peek.value.toUpperCase()))) {
+      alias = this.name()
+    }
+    return { expr, alias, text }
+  }
+
+  private source(): Source {
+    let source: Source
+    if (this.acceptOp('(')) {
+      source = { kind: 'subquery', select: this.select() }
+      this.expectOp(')')
+    } else {
+      const name = this.qualifiedName()
+      if (this.acceptOp('(')) {
+        const args: Expr[] = []
+        if (!this.isOp(')')) {
+          do {
+            args.push(this.expr())
+          } while (this.acceptOp(','))
+        }
+        this.expectOp(')')
+        source = { kind: 'function', name: name.toLowerCase(), args }
+      } else {
+        source = { kind: 'table', name }
+      }
+    }
+    if (this.acceptKeyword('AS')) {
+      source.alias = this.name()
+    } else if (this.peek.type === 'quoted' || (this.peek.type === 'ident' && !RESERVED.has(this.peek.value.toUpperCase()))) {
+      source.alias = this.name()
+    }
+    return source
+  }
+
+  private orderingTerm(): OrderingTerm {
+    const expr = this.expr()
+    if (this.acceptKeyword('COLLATE')) this.name()
+    const desc = this.acceptKeyword('DESC')
+    if (!desc) this.acceptKeyword('ASC')
+    if (this.acceptKeyword('NULLS')) {
+      if (!this.acceptKeyword('FIRST')) this.expectKeyword('LAST')
+    }
+    return { expr, desc }
+  }
+
+  private insert(): Statement {
+    let conflict: 'replace'|'ignore'|undefined
+    if (this.acceptKeyword('REPLACE')) {
+      conflict = 'replace'
+    } else {
+      this.expectKeyword('INSERT')
+      if (this.acceptKeyword('OR')) {
+        const action = this.next().value.toUpperCase()
+        if (action === 'REPLACE') conflict = 'replace'
+        else if (action === 'IGNORE') conflict = 'ignore'
+      }
+    }
+    this.expectKeyword('INTO')
+    const table = this.qualifiedName()
+    const columns = this.isOp('(') ? this.nameList() : undefined
+    let values: Expr[][]|undefined
+    let select: SelectStatement|undefined
+    if (this.acceptKeyword('VALUES')) {
+      values = []
+      do {
+        this.expectOp('(')
+        const row = [this.expr()]
+        while (this.acceptOp(',')) row.push(this.expr())
+        this.expectOp(')')
+        values.push(row)
+      } while (this.acceptOp(','))
+    } else if (this.isKeyword('SELECT')) {
+      select = this.select()
+    } else {
+      this.fail()
+    }
+    let upsert: UpsertClause|undefined
+    if (this.acceptKeyword('ON', 'CONFLICT')) {
+      upsert = {}
+      if (this.isOp('(')) upsert.target = this.nameList()
+      this.expectKeyword('DO')
+      if (!this.acceptKeyword('NOTHING')) {
+        this.expectKeyword('UPDATE', 'SET')
+        upsert.set = this.assignments()
+        if (this.acceptKeyword('WHERE')) upsert.where = this.expr()
+      }
+    }
+    return { kind: 'insert', conflict, table, columns, values, select, upsert }
+  }
+
+  private assignments(): Array<[string, Expr]> {
+    const set: Array<[string, Expr]> = []
+    do {
+      const column = this.name()
+      this.expectOp('=')
+      set.push([column, this.expr()])
+    } while (this.acceptOp(','))
+    return set
+  }
+
+  private update(): Statement {
+    if (this.acceptKeyword('OR')) this.next()
+    const table = this.qualifiedName()
+    this.expectKeyword('SET')
+    const set = this.assignments()
+    const where = this.acceptKeyword('WHERE') ? this.expr() : undefined
+    return { kind: 'update', table, set, where }
+  }
+
+  private delete(): Statement {
+    this.expectKeyword('FROM')
+    const table = this.qualifiedName()
+    const where = this.acceptKeyword('WHERE') ? this.expr() : undefined
+    return { kind: 'delete', table, where }
+  }
+
+  private create(): Statement {
+    const unique = this.acceptKeyword('UNIQUE')
+    if (this.acceptKeyword('INDEX')) {
+      const ifNotExists = this.acceptKeyword('IF', 'NOT', 'EXISTS')
+      const name = this.qualifiedName()
+      this.expectKeyword('ON')
+      const table = this.qualifiedName()
+      this.expectOp('(')
+      const columns = [this.indexedColumn()]
+      while (this.acceptOp(',')) columns.push(this.indexedColumn())
+      this.expectOp(')')
+      return { kind: 'createIndex', name, table, columns, unique, ifNotExists }
+    }
+    if (unique) this.fail()
+    if (this.acceptKeyword('VIRTUAL')) {
+      this.expectKeyword('TABLE')
+      const ifNotExists = this.acceptKeyword('IF', 'NOT', 'EXISTS')
+      const name = this.qualifiedName()
+      this.expectKeyword('USING')
+      const module = this.name().toLowerCase()
+      const args: string[] = []
+      if (this.acceptOp('(')) {
+        let depth = 0
+        let start = this.peek.start
+        while (depth > 0 || !this.isOp(')')) {
+          if (this.peek.type === 'eof') this.fail()
+          if (this.isOp('(')) depth++
+          if (this.isOp(')')) depth--
+          if (depth === 0 && this.isOp(',')) {
+            args.push(this.sql.slice(start, this.peek.start).trim())
+            this.next()
+            start = this.peek.start
+            continue
+          }
+          this.next()
+        }
+        args.push(this.sql.slice(start, this.peek.start).trim())
+        this.expectOp(')')
+      }
+      return { kind: 'createVirtualTable', name, ifNotExists, module, args: args.filter(a => a.length > 0) }
+    }
+    this.acceptKeyword('TEMP') || this.acceptKeyword('TEMPORARY')
+    this.expectKeyword('TABLE')
+    const ifNotExists = this.acceptKeyword('IF', 'NOT', 'EXISTS')
+    const name = this.qualifiedName()
+    this.expectOp('(')
+    const columns: ColumnDefinition[] = []
+    let primaryKey: string[]|undefined
+    const uniques: string[][] = []
+    do {
+      this.acceptKeyword('CONSTRAINT') && this.name()
+      if (this.acceptKeyword('PRIMARY', 'KEY')) {
+        primaryKey = this.nameList()
+      } else if (this.acceptKeyword('UNIQUE')) {
+        uniques.push(this.nameList())
+      } else {
+        columns.push(this.columnDefinition())
+      }
+    } while (this.acceptOp(','))
+    this.expectOp(')')
+    this.acceptKeyword('WITHOUT') && this.name()
+    return { kind: 'createTable', name, ifNotExists, columns, primaryKey, unique: uniques }
+  }
+
+  private indexedColumn(): string {
+    const name = this.name()
+    if (this.acceptKeyword('COLLATE')) this.name()
+    this.acceptKeyword('ASC') || this.acceptKeyword('DESC')
+    return name
+  }
+
+  private columnDefinition(): ColumnDefinition {
+    const name = this.name()
+    const typeParts: string[] = []
+    while (this.peek.type === 'ident' && !RESERVED.has(this.peek.value.toUpperCase()) && !['AUTOINCREMENT', 'GENERATED'].includes(this.peek.value.toUpperCase())) {
+      typeParts.push(this.next().value)
+    }
+    let type = typeParts.join(' ')
+    if (typeParts.length > 0 && this.acceptOp('(')) {
+      const sizes = [this.next().value]
+      while (this.acceptOp(',')) sizes.push(this.next().value)
+      this.expectOp(')')
+      type += `(${sizes.join(',')})`
+    }
+    const column: ColumnDefinition = { name, type, primaryKey: false, autoincrement: false, notNull: false, unique: false }
+    for (;;) {
+      if (this.acceptKeyword('CONSTRAINT')) {
+        this.name()
+      } else if (this.acceptKeyword('PRIMARY', 'KEY')) {
+        column.primaryKey = true
+        this.acceptKeyword('ASC') || this.acceptKeyword('DESC')
+      } else if (this.acceptKeyword('AUTOINCREMENT')) {
+        column.autoincrement = true
+      } else if (this.acceptKeyword('NOT', 'NULL')) {
+        column.notNull = true
+      } else if (this.acceptKeyword('NULL')) {
+        column.notNull = false
+      } else if (this.acceptKeyword('UNIQUE')) {
+        column.unique = true
+      } else if (this.acceptKeyword('DEFAULT')) {
+        const start = this.peek.start
+        column.defaultValue = this.isOp('(') ? this.primary() : this.unary()
+        column.defaultText = this.sql.slice(start, this.tokens[this.pos - 1].end)
+      } else if (this.acceptKeyword('COLLATE')) {
+        this.name()
+      } else {
+        break
+      }
+    }
+    return column
+  }
+
+  private drop(): Statement {
+    if (this.acceptKeyword('INDEX')) {
+      const ifExists = this.acceptKeyword('IF', 'EXISTS')
+      return { kind: 'dropIndex', name: this.qualifiedName(), ifExists }
+    }
+    this.expectKeyword('TABLE')
+    const ifExists = this.acceptKeyword('IF', 'EXISTS')
+    return { kind: 'dropTable', name: this.qualifiedName(), ifExists }
+  }
+
+  private alter(): Statement {
+    this.expectKeyword('TABLE')
+    const table = this.qualifiedName()
+    if (this.acceptKeyword('ADD')) {
+      this.acceptKeyword('COLUMN')
+      return { kind: 'addColumn', table, column: this.columnDefinition() }
+    }
+    if (this.acceptKeyword('DROP')) {
+      this.acceptKeyword('COLUMN')
+      return { kind: 'dropColumn', table, column: this.name() }
+    }
+    this.expectKeyword('RENAME')
+    this.expectKeyword('TO')
+    return { kind: 'renameTable', table, to: this.name() }
+  }
+
+  private pragma(): Statement {
+    const name = this.qualifiedName().toLowerCase()
+    let arg: string|undefined
+    if (this.acceptOp('(')) {
+      arg = this.next().value
+      this.expectOp(')')
+    } else if (this.acceptOp('=')) {
+      arg = this.next().value
+    }
+    return { kind: 'pragma', name, arg }
+  }
+
+  expr(): Expr {
+    return this.binary(1)
+  }
+
+  private binaryPrecedence(): number {
+    const token = this.peek
+    if (token.type === 'op') {
+      if (COMPARISON.includes(token.value)) return 4
+      if (RELATIONAL.includes(token.value)) return 5
+      if (['&', '|', '<<', '>>'].includes(token.value)) return 6
+      if (['+', '-'].includes(token.value)) return 7
+      if (['*', '/', '%'].includes(token.value)) return 8
+      if (['||', '->', '->>'].includes(token.value)) return 9
+      return 0
+    }
+    if (token.type !== 'ident') return 0
+    switch (token.value.toUpperCase()) {
+      case 'OR': return 1
+      case 'AND': return 2
+      case 'IS': case 'IN': case 'LIKE': case 'GLOB': case 'MATCH': case 'BETWEEN': case 'ISNULL': case 'NOTNULL': return 4
+      case 'NOT': {
+        const after = this.peekAt(1)
+        return ['IN', 'LIKE', 'GLOB', 'MATCH', 'BETWEEN', 'NULL'].some(w => this.isKeyword(w, after)) ? 4 : 0
+      }
+      case 'COLLATE': return 10
+    }
+    return 0
+  }
+
+  private binary(minPrecedence: number): Expr {
+    let left = this.unary()
+    for (;;) {
+      const precedence = this.binaryPrecedence()
+      if (precedence === 0 || precedence < minPrecedence) return left
+      const token = this.next()
+      const word = token.type === 'ident' ? token.value.toUpperCase() : token.value
+      if (word === 'COLLATE') {
+        this.name()
+        continue
+      }
+      if (word === 'ISNULL') {
+        left = { kind: 'binary', op: 'IS', left, right: { kind: 'literal', value: null } }
+        continue
+      }
+      if (word === 'NOTNULL') {
+        left = { kind: 'binary', op: 'IS NOT', left, right: { kind: 'literal', value: null } }
+        continue
+      }
+      let not = false
+      let op = word
+      if (word === 'NOT') {
+        not = true
+        op = this.next().value.toUpperCase()
+        if (op === 'NULL') {
+          left = { kind: 'binary', op: 'IS NOT', left, right: { kind: 'literal', value: null } }
+          continue
+        }
+      }
+      if (op === 'IS') {
+        const negate = this.acceptKeyword('NOT')
+        if (this.acceptKeyword('DISTINCT', 'FROM')) {
+          left = { kind: 'binary', op: negate ? 'IS' : 'IS NOT', left, right: this.binary(precedence + 1) }
+        } else {
+          left = { kind: 'binary', op: negate ? 'IS NOT' : 'IS', left, right: this.binary(precedence + 1) }
+        }
+        continue
+      }
+      if (op === 'IN') {
+        this.expectOp('(')
+        if (this.isKeyword('SELECT')) {
+          left = { kind: 'in', expr: left, not, select: this.select() }
+        } else {
+          const list: Expr[] = []
+          if (!this.isOp(')')) {
+            do {
+              list.push(this.expr())
+            } while (this.acceptOp(','))
+          }
+          left = { kind: 'in', expr: left, not, list }
+        }
+        this.expectOp(')')
+        continue
+      }
+      if (op === 'BETWEEN') {
+        const low = this.binary(precedence + 1)
+        this.expectKeyword('AND')
+        const high = this.binary(precedence + 1)
+        left = { kind: 'between', expr: left, not, low, high }
+        continue
+      }
+      const right = this.binary(precedence + 1)
+      if (op === 'LIKE' && this.acceptKeyword('ESCAPE')) {
+        this.unary()
+      }
+      const normalized = op === '==' ? '=' : op === '<>' ? '!=' : op
+      left = { kind: 'binary', op: normalized, left, right }
+      if (not) left = { kind: 'unary', op: 'NOT', expr: left }
+    }
+  }
+
+  private unary(): Expr {
+    if (this.acceptKeyword('NOT')) {
+      return { kind: 'unary', op: 'NOT', expr: this.binary(3) }
+    }
+    if (this.isOp('-') || this.isOp('+') || this.isOp('~')) {
+      const op = this.next().value
+      return { kind: 'unary', op, expr: this.unary() }
+    }
+    return this.primary()
+  }
+
+  private primary(): Expr {
+    const token = this.peek
+    switch (token.type) {
+      case 'number':
+        this.next()
+        return { kind: 'literal', value: Number(token.value) }
+      case 'string':
+        this.next()
+        return { kind: 'literal', value: token.value }
+      case 'blob':
+        this.next()
+        return { kind: 'literal', value: Uint8Array.from((token.value.match(/../g) || []).map(h => parseInt(h, 16))) }
+      case 'param': {
+        this.next()
+        const explicit = token.value.length > 1 ? Number(token.value.slice(1)) : 0
+        const index = explicit > 0 ? explicit - 1 : this.params
+        this.params = Math.max(this.params, index + 1)
+        return { kind: 'param', index }
+      }
+      case 'quoted':
+        this.next()
+        if (this.acceptOp('.')) {
+          return { kind: 'column', table: token.value, name: this.name() }
+        }
+        return { kind: 'column', name: token.value, quoted: true }
+      case 'op':
+        if (this.acceptOp('(')) {
+          if (this.isKeyword('SELECT')) {
+            const select = this.select()
+            this.expectOp(')')
+            return { kind: 'subquery', select }
+          }
+          const inner = this.expr()
+          this.expectOp(')')
+          return inner
+        }
+        return this.fail()
+      case 'ident':
+        break
+      default:
+        return this.fail()
+    }
+
+    const word = token.value.toUpperCase()
+    if (word === 'NULL') {
+      this.next()
+      return { kind: 'literal', value: null }
+    }
+    if (word === 'TRUE' || word === 'FALSE') {
+      this.next()
+      return { kind: 'literal', value: word === 'TRUE' ? 1 : 0 }
+    }
+    if (word === 'EXISTS') {
+      this.next()
+      this.expectOp('(')
+      const select = this.select()
+      this.expectOp(')')
+      return { kind: 'exists', select }
+    }
+    if (word === 'CASE') {
+      this.next()
+      const operand = this.isKeyword('WHEN') ? undefined : this.expr()
+      const whens: Array<{ when: Expr, then: Expr }> = []
+      while (this.acceptKeyword('WHEN')) {
+        const when = this.expr()
+        this.expectKeyword('THEN')
+        whens.push({ when, then: this.expr() })
+      }
+      const otherwise = this.acceptKeyword('ELSE') ? this.expr() : undefined
+      this.expectKeyword('END')
+      return { kind: 'case', operand, whens, otherwise }
+    }
+    if (word === 'CAST') {
+      this.next()
+      this.expectOp('(')
+      const expr = this.expr()
+      this.expectKeyword('AS')
+      const type = this.next().value
+      this.expectOp(')')
+      return { kind: 'cast', expr, type }
+    }
+    if (RESERVED.has(word)) {
+      return this.fail()
+    }
+    this.next()
+    if (this.acceptOp('(')) {
+      const call: Expr = { kind: 'call', name: token.value.toLowerCase(), args: [], star: false, distinct: false }
+      if (this.acceptOp('*')) {
+        call.star = true
+      } else if (!this.isOp(')')) {
+        call.distinct = this.acceptKeyword('DISTINCT')
+        do {
+          call.args.push(this.expr())
+        } while (this.acceptOp(','))
+      }
+      this.expectOp(')')
+      return call
+    }
+    if (this.acceptOp('.')) {
+      return { kind: 'column', table: token.value, name: this.name() }
+    }
+    return { kind: 'column', name: token.value }
+  }
+}
+
+export default function parse(sql: string): Statement {
+  return new Parser(sql).parse()
+}
\ No newline at end of file
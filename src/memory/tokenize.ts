@@ -0,0 +1,100 @@
+import PSHMemorySQLError from './PSHMemorySQLError'
+
+
+export type TokenType = 'ident'|'quoted'|'string'|'number'|'blob'|'param'|'op'|'eof'
+
+export interface Token {
+  type: TokenType
+  value: string
+  start: number
+  end: number
+}
+
+const OPERATORS = ['<>', '<=', '>=', '==', '!=', '||', '<<', '>>', '->>', '->', '(', ')', ',', ';', '.', '=', '<', '>', '+', '-', '*', '/', '%', '&', '|', '~']
+  .sort((a, b) => b.length - a.length)
+
+const isIdentStart = (c: string) => /[A-Za-z_\u0080-\uffff]/.test(c)
+const isIdentPart = (c: string) => /[A-Za-z0-9_$\u0080-\uffff]/.test(c)
+const isDigit = (c: string) => c >= '0' && c <= '9'
+
+const readQuoted = (sql: string, start: number, quote: string): [string, number] => {
+  let value = ''
+  let i = start + 1
+  while (i < sql.length) {
+    const c = sql[i]
+    if (c === quote) {
+      if (sql[i + 1] === quote) {
+        value += quote
+        i += 2
+        continue
+      }
+      return [value, i + 1]
+    }
+    value += c
+    i++
+  }
+  throw new PSHMemorySQLError(`unrecognized token: "${sql.slice(start)}"`)
+}
+
+export default function tokenize(sql: string): Token[] {
+  const tokens: Token[] = []
+  let i = 0
+  while (i < sql.length) {
+    const c = sql[i]
+    if (/\s/.test(c)) {
+      i++
+      continue
+    }
+    if (c === '-' && sql[i + 1] === '-') {
+      while (i < sql.length && sql[i] !== '\n') i++
+      continue
+    }
+    if (c === '/' && sql[i + 1] === '*') {
+      const close = sql.indexOf('*/', i + 2)
+      i = close < 0 ? sql.length : close + 2
+      continue
+    }
+    const start = i
+    if ((c === 'x' || c === 'X') && sql[i + 1] === '\'') {
+      const [value, end] = readQuoted(sql, i + 1, '\'')
+      tokens.push({ type: 'blob', value, start, end })
+      i = end
+    } else if (isIdentStart(c)) {
+      while (i < sql.length && isIdentPart(sql[i])) i++
+      tokens.push({ type: 'ident', value: sql.slice(start, i), start, end: i })
+    } else if (isDigit(c) || (c === '.' && isDigit(sql[i + 1] || ''))) {
+      while (i < sql.length && (isDigit(sql[i]) || sql[i] === '.')) i++
+      if ((sql[i] === 'e' || sql[i] === 'E') && /[-+0-9]/.test(sql[i + 1] || '')) {
+        i += 2
+        while (i < sql.length && isDigit(sql[i])) i++
+      }
+      tokens.push({ type: 'number', value: sql.slice(start, i), start, end: i })
+    } else if (c === '\'') {
+      const [value, end] = readQuoted(sql, i, '\'')
+      tokens.push({ type: 'string', value, start, end })
+      i = end
+    } else if (c === '"' || c === '`') {
+      const [value, end] = readQuoted(sql, i, c)
+      tokens.push({ type: 'quoted', value, start, end })
+      i = end
+    } else if (c === '[') {
+      const close = sql.indexOf(']', i)
+      if (close < 0) throw new PSHMemorySQLError(`unrecognized token: "${sql.slice(i)}"`)
+      tokens.push({ type: 'quoted', value: sql.slice(i + 1, close), start, end: close + 1 })
+      i = close + 1
+    } else if (c === '?') {
+      i++
+      while (i < sql.length && isDigit(sql[i])) i++
+      tokens.push({ type: 'param', value: sql.slice(start, i), start, end: i })
+    } else {
+      const op = OPERATORS.find(o => sql.startsWith(o, i))
+      if (!op) {
+        throw new PSHMemorySQLError(`unrecognized token: "${c}"`)
+      }
+      i += op.length
+      tokens.push({ type: 'op', value: op, start, end: i })
+    }
+  }
+  tokens.push({ type: 'eof', value: '', start: sql.length, end: sql.length })
+  return tokens
+}
\ No newline at end of file
@@ -0,0 +1,131 @@
+import { Value } from './parse'
+
+
+export type Affinity = 'TEXT'|'NUMERIC'|'INTEGER'|'REAL'|'BLOB'
+
+export const typeAffinity = (type: string): Affinity => {
+  const t = type.toUpperCase()
+  if (t.includes('INT')) return 'INTEGER'
+  if (t.includes('CHAR') || t.includes('CLOB') || t.includes('TEXT')) return 'TEXT'
+  if (t.includes('BLOB') || t.length === 0) return 'BLOB'
+  if (t.includes('REAL') || t.includes('FLOA') || t.includes('DOUB')) return 'REAL'
+  return 'NUMERIC'
+}
+
+const NUMERIC_TEXT = /^\s*[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?\s*$/
+
+export const isNumericText = (value: string) => NUMERIC_TEXT.test(value)
+
+export const toValue = (value: unknown): Value => {
+  if (value === undefined || value === null) return null
+  if (typeof value === 'boolean') return value ? 1 : 0
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null
+  if (typeof value === 'bigint') return Number(value)
+  if (typeof value === 'string' || value instanceof Uint8Array) return value
+  if (value instanceof Date) return value.getTime()
+  return JSON.stringify(value)
+}
+
+export const applyAffinity = (value: Value, affinity: Affinity): Value => {
+  if (value === null || value instanceof Uint8Array) return value
+  switch (affinity) {
+    case 'TEXT':
+      return typeof value === 'number' ? numberToText(value) : value
+    case 'INTEGER':
+    case 'NUMERIC':
+    case 'REAL':
+      if (typeof value === 'string' && isNumericText(value)) return Number(value)
+      return value
+    default:
+      return value
+  }
+}
+
+export const numberToText = (value: number): string => `${value}`
+
+export const toText = (value: Value): string|null => {
+  if (value === null) return null
+  if (typeof value === 'number') return numberToText(value)
+  if (value instanceof Uint8Array) return Array.from(value).map(b => String.fromCharCode(b)).join('')
+  return value
+}
+
+// leading-prefix numeric conversion, the way SQLite casts text in arithmetic
+export const toNumber = (value: Value): number|null => {
+  if (value === null) return null
+  if (typeof value === 'number') return value
+  const text = typeof value === 'string' ? value : toText(value) || ''
+  const match = /^\s*[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?/.exec(text)
+  return match ? Number(match[0]) : 0
+}
+
+export const truthy = (value: Value): boolean|null => {
+  if (value === null) return null
+  const n = toNumber(value)
+  return n !== null && n !== 0
+}
+
+const typeRank = (value: Value) => {
+  if (value === null) return 0
+  if (typeof value === 'number') return 1
+  if (typeof value === 'string') return 2
+  return 3
+}
+
+export const compareValues = (a: Value, b: Value): number => {
+  const ra = typeRank(a)
+  const rb = typeRank(b)
+  if (ra !== rb) return ra - rb
+  if (a === null || b === null) return 0
+  if (typeof a === 'number') return a - (b as number)
+  if (typeof a === 'string') return a < (b as string) ? -1 : a > (b as string) ? 1 : 0
+  const ba = a as Uint8Array
+  const bb = b as Uint8Array
+  for (let i = 0; i < Math.min(ba.length, bb.length); i++) {
+    if (ba[i] !== bb[i]) return ba[i] - bb[i]
+  }
+  return ba.length - bb.length
+}
+
+export const valueKey = (values: Value[]): string => JSON.stringify(values.map(v => v instanceof Uint8Array ? { blob: Array.from(v) } : v))
+
+const patternCache: Record<string, RegExp> = {}
+
+export const likeToRegExp = (pattern: string): RegExp => {
+  const key = `like:${pattern}`
+  if (!patternCache[key]) {
+    let source = ''
+    for (const c of pattern) {
+      if (c === '%') source += '[\\s\\S]*'
+      else if (c === '_') source += '[\\s\\S]'
+      else source += c.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    }
+    patternCache[key] = new RegExp(`^${source}$`, 'i')
+  }
+  return patternCache[key]
+}
+
+export const globToRegExp = (pattern: string): RegExp => {
+  const key = `glob:${pattern}`
+  if (!patternCache[key]) {
+    let source = ''
+    for (let i = 0; i < pattern.length; i++) {
+      const c = pattern[i]
+      if (c === '*') source += '[\\s\\S]*'
+      else if (c === '?') source += '[\\s\\S]'
+      else if (c === '[') {
+        const close = pattern.indexOf(']', i + 1)
+        if (close < 0) {
+          source += '\\['
+        } else {
+          const body = pattern.slice(i + 1, close)
+          source += body.startsWith('^') ? `[^${body.slice(1)}]` : `[${body}]`
+          i = close
+        }
+      }
+      else source += c.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    }
+    patternCache[key] = new RegExp(`^${source}$`)
+  }
+  return patternCache[key]
+}
\ No newline at end of file
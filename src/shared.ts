@@ -1,14 +1,32 @@
-import { isArray } from "underscore"
-import PSHDatabaseQuery, { PSHDatabaseQueryCondition, PSHDatabaseQueryOperator, PSHDatabaseQueryValue } from "./PSHDatabaseQuery"
+import { get, isArray } from "underscore"
+import PSHDatabaseQuery, {
+  PSHDatabaseQueryCondition, PSHDatabaseQueryOperator, PSHDatabaseQueryValue,
+  PSHQueryDirection, PSHQueryOptions, PSHQueryOrder
+} from "./PSHDatabaseQuery"
 import Pea from "./Pea"
+import PSHAggregate, { AGGREGATE_FUNCTIONS, PSHAggregateSpec } from "./PSHAggregate"
+import PSHInvalidIdentifierError from "./PSHInvalidIdentifierError"
 
 export type PSHDataType = 'V8'|'V16'|'V32'|'REAL'|'INT'|'BOOLEAN'|'BLOB'|'TEXT'
 
+export interface PSHLogger {
+  log(...args: unknown[]): void
+  warn(...args: unknown[]): void
+  error(...args: unknown[]): void
+}
+
 let _debug = false
 export const setDebug = (debug: boolean) => _debug = debug
-export const maybeLog = (...args: any[]) => { if (_debug) console.log(...args) }
-export const maybeError = (...args: any[]) => { if (_debug) console.error(...args) }
-export const maybeWarn = (...args: any[]) => { if (_debug) console.warn(...args) }
+export const maybeLog = (...args: unknown[]) => { if (_debug) console.log(...args) }
+export const maybeError = (...args: unknown[]) => { if (_debug) console.error(...args) }
+export const maybeWarn = (...args: unknown[]) => { if (_debug) console.warn(...args) }
+
+// like maybeLog and co, for a database that has its own logger
+export const debugLogger = (logger: PSHLogger = console): PSHLogger => ({
+  log: (...args) => { if (_debug) logger.log(...args) },
+  warn: (...args) => { if (_debug) logger.warn(...args) },
+  error: (...args) => { if (_debug) logger.error(...args) },
+})
 
 export const dataTypeToColumnType = (dt: PSHDataType) => {
   switch (dt) {
@@ -25,34 +43,318 @@ export const dataTypeToColumnType = (dt: PSHDataType) => {
 
 export type PSHSQLQueryable = [string, Array<PSHDatabaseQueryValue>]
 
-export function toSQLQueryable(colName: string, query: PSHDatabaseQuery): PSHSQLQueryable {
-  const pairs = Object.entries(query).map(([k, v]) => ({ k, v }))
-  const clause = ({ k, v }: { k: string, v: unknown }) => isArray(v) ? `${k} ${(v as [string, unknown])[0]} ?` : `${k} = ?`
-  const arg = ({ v }: { k: string, v: PSHDatabaseQueryCondition }) => isArray(v) ? (v as [string, PSHDatabaseQueryValue])[1] : v
-  const args = pairs.map(arg)
-  const sql = `SELECT id, json, date FROM ${colName} WHERE ${pairs.map(clause).join(' AND ')}`
+type Truth = boolean|null
+type QueryNode = PSHDatabaseQueryValue|object|undefined
+
+export const indexPathToField = (path: string) => path.split('.').join('__')
+export const fieldToIndexPath = (field: string) => field.split('__').join('.')
+
+// identifiers are always quoted in generated SQL, so names that happen to be keywords still work
+export const quoteName = (name: string) => `"${name.replace(/"/g, '""')}"`
+
+const RESERVED_PREFIXES = ['_psh_', 'sqlite_']
+
+export const checkCollectionName = (name: string): string => {
+  if (typeof name !== 'string' || !/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) {
+    throw new PSHInvalidIdentifierError('collection', `${name}`, 'expected letters, digits and underscores, not starting with a digit')
+  }
+  if (RESERVED_PREFIXES.some(prefix => name.toLowerCase().startsWith(prefix))) {
+    throw new PSHInvalidIdentifierError('collection', name, 'the prefix is reserved')
+  }
+  return name
+}
+
+// indexed paths become column names, so each segment has to be a plain identifier
+export const checkIndexPath = (path: string, colName?: string): string => {
+  if (typeof path !== 'string' || !path.split('.').every(segment => /^[A-Za-z_][A-Za-z0-9_]*$/.test(segment) && !segment.includes('__'))) {
+    throw new PSHInvalidIdentifierError('index', `${path}`, 'expected dotted identifiers without double underscores', colName)
+  }
+  return path
+}
+
+// queried paths end up in quoted JSON path labels, which SQLite reads up to the next double quote
+export const checkFieldPath = (path: string): string => {
+  if (typeof path !== 'string' || path.split('.').some(segment => segment === '' || segment.includes('"'))) {
+    throw new PSHInvalidIdentifierError('field', `${path}`, 'expected a dotted path without empty segments or double quotes')
+  }
+  if (path.startsWith('$')) {
+    throw new PSHInvalidIdentifierError('field', path, 'unknown query operator')
+  }
+  return path
+}
+
+const MEMBERSHIP_OPERATORS = ['=', '!=', 'in', 'not in']
+
+const sqlString = (value: string) => `'${value.replace(/'/g, "''")}'`
+
+export const toJsonPath = (path: string) => '$' + path.split('.').map(segment => {
+  if (/^\d+$/.test(segment)) return `[${segment}]`
+  if (/^[A-Za-z_$][A-Za-z0-9_$]*$/.test(segment)) return `.${segment}`
+  return `."${segment.replace(/"/g, '\\"')}"`
+}).join('')
+
+interface SQLField {
+  sql: string
+  json?: string
+}
+
+// index columns when the collection has one for the path, otherwise JSON functions over the stored document
+const fieldToSQL = (field: string, indexed: string[]): SQLField => {
+  const path = checkFieldPath(fieldToIndexPath(field))
+  if (path === 'id') return { sql: 'id' }
+  if (path === 'saved') return { sql: 'date' }
+  if (path === 'rev') return { sql: '_rev' }
+  if (indexed.includes(path)) return { sql: quoteName(indexPathToField(path)) }
+  const json = sqlString(toJsonPath(path))
+  return { sql: `json_extract(json, ${json})`, json }
+}
+
+const toArg = (value: PSHDatabaseQueryValue) => typeof value === 'boolean' ? (value ? 1 : 0) : value
+
+export const toOrderTerms = (orderBy?: PSHQueryOrder|PSHQueryOrder[]): Array<[string, PSHQueryDirection]> => {
+  if (!orderBy) return []
+  const terms = isArray(orderBy) && (orderBy.length !== 2 || !['asc', 'desc'].includes(orderBy[1] as string)) ? orderBy as PSHQueryOrder[] : [orderBy as PSHQueryOrder]
+  return terms.map(term => typeof term === 'string' ? [term, 'asc'] : term)
+}
+
+const conditionToSQL = (field: string, condition: PSHDatabaseQueryCondition, indexed: string[], args: PSHDatabaseQueryValue[]): string => {
+  const { sql: column, json } = fieldToSQL(field, indexed)
+  const [operator, operand] = isArray(condition)
+    ? condition as [PSHDatabaseQueryOperator, PSHDatabaseQueryValue|PSHDatabaseQueryValue[]]
+    : ['=', condition as PSHDatabaseQueryValue] as [PSHDatabaseQueryOperator, PSHDatabaseQueryValue]
+  if ((operator === '=' || operator === '!=') && operand === null) {
+    return `${column} IS ${operator === '=' ? '' : 'NOT '}NULL`
+  }
+  const values = (isArray(operand) ? operand as PSHDatabaseQueryValue[] : [operand as PSHDatabaseQueryValue]).map(toArg)
+  if ((operator === 'in' || operator === 'not in') && values.length === 0) {
+    return operator === 'in' ? '0' : `${column} IS NOT NULL`
+  }
+  const test = operator === 'in' || operator === 'not in' ? `IN (${values.map(() => '?').join(', ')})` : '= ?'
+  if (json && MEMBERSHIP_OPERATORS.includes(operator)) {
+    // array-valued paths match when any element does, same as matchesQuery
+    args.push(...values, ...values)
+    const member = `(${column} ${test} OR EXISTS (SELECT 1 FROM json_each(json, ${json}) WHERE value ${test}))`
+    return operator === '=' || operator === 'in' ? member : `NOT ${member}`
+  }
+  args.push(...values)
+  if (operator === 'in' || operator === 'not in') {
+    return `${column} ${operator.toUpperCase()} (${values.map(() => '?').join(', ')})`
+  }
+  return `${column} ${operator.toUpperCase()} ?`
+}
+
+const filterToSQL = (query: PSHDatabaseQuery, indexed: string[], args: PSHDatabaseQueryValue[]): string => {
+  const clauses = Object.entries(query).filter(([, v]) => v !== undefined).map(([k, v]) => {
+    switch (k) {
+      case '$or': {
+        const alternatives = (v as PSHDatabaseQuery[]).map(q => filterToSQL(q, indexed, args))
+        return alternatives.length > 0 ? `(${alternatives.join(' OR ')})` : '0'
+      }
+      case '$and': {
+        const all = (v as PSHDatabaseQuery[]).map(q => filterToSQL(q, indexed, args))
+        return all.length > 0 ? `(${all.join(' AND ')})` : '1'
+      }
+      case '$not':
+        return `NOT (${filterToSQL(v as PSHDatabaseQuery, indexed, args)})`
+      default:
+        return conditionToSQL(k, v as PSHDatabaseQueryCondition, indexed, args)
+    }
+  })
+  return clauses.length > 0 ? clauses.join(' AND ') : '1'
+}
+
+export const queryFields = (query: PSHDatabaseQuery, options?: PSHQueryOptions): string[] => {
+  const fields: string[] = []
+  const visit = (q: PSHDatabaseQuery) => Object.entries(q).forEach(([k, v]) => {
+    if (k === '$or' || k === '$and') (v as PSHDatabaseQuery[]).forEach(visit)
+    else if (k === '$not') visit(v as PSHDatabaseQuery)
+    else if (!fields.includes(k)) fields.push(k)
+  })
+  visit(query)
+  toOrderTerms(options && options.orderBy).forEach(([field]) => { if (!fields.includes(field)) fields.push(field) })
+  return fields
+}
+
+export const fieldColumn = (field: string, indexed: string[]): string|undefined => {
+  const { sql, json } = fieldToSQL(field, indexed)
+  // named as query plans name them, unquoted
+  return json ? undefined : sql.replace(/^"(.*)"$/, '$1')
+}
+
+export const toSQLWhere = (query: PSHDatabaseQuery, indexed: string[] = []): PSHSQLQueryable => {
+  const args: PSHDatabaseQueryValue[] = []
+  return [filterToSQL(query, indexed, args), args]
+}
+
+export function toSQLQueryable(colName: string, query: PSHDatabaseQuery, options?: PSHQueryOptions, indexed: string[] = []): PSHSQLQueryable {
+  const args: PSHDatabaseQueryValue[] = []
+  const where = filterToSQL(query, indexed, args)
+  let sql = `SELECT id, json, date, _version, _rev FROM ${quoteName(colName)}${where === '1' ? '' : ` WHERE ${where}`}`
+  const order = toOrderTerms(options && options.orderBy)
+  if (order.length > 0) {
+    const terms = order.map(([field, direction]) => `${fieldToSQL(field, indexed).sql} ${direction.toUpperCase()}`)
+    if (!order.some(([field]) => field === 'id')) terms.push('id ASC')
+    sql += ` ORDER BY ${terms.join(', ')}`
+  }
+  if (options && (options.limit !== undefined || options.offset !== undefined)) {
+    sql += ' LIMIT ?'
+    args.push(options.limit !== undefined ? options.limit : -1)
+    if (options.offset !== undefined) {
+      sql += ' OFFSET ?'
+      args.push(options.offset)
+    }
+  }
   return [sql, args]
 }
 
+const toSQLFrom = (colName: string, where: string) => `FROM ${quoteName(colName)}${where === '1' ? '' : ` WHERE ${where}`}`
+
+export const toSQLCount = (colName: string, query: PSHDatabaseQuery, indexed: string[] = []): PSHSQLQueryable => {
+  const [where, args] = toSQLWhere(query, indexed)
+  return [`SELECT count(*) AS total ${toSQLFrom(colName, where)}`, args]
+}
+
+// non-null values of a field, in order
+export const toSQLDistinct = (colName: string, field: string, query: PSHDatabaseQuery, indexed: string[] = []): PSHSQLQueryable => {
+  const { sql: column } = fieldToSQL(field, indexed)
+  const [where, args] = toSQLWhere({ $and: [query, { [field]: ['!=', null] }] }, indexed)
+  return [`SELECT DISTINCT ${column} AS value ${toSQLFrom(colName, where)} ORDER BY value`, args]
+}
+
+export const toSQLAggregate = (colName: string, query: PSHDatabaseQuery, spec: PSHAggregateSpec, indexed: string[] = []): PSHSQLQueryable => {
+  const groupBy = PSHAggregate.toGroupBy(spec).map(field => fieldToSQL(field, indexed).sql)
+  const columns = groupBy.map((sql, i) => `${sql} AS g${i}`).concat(['count(*) AS count'])
+  AGGREGATE_FUNCTIONS.forEach(fn => (spec[fn] || []).forEach((field, i) => columns.push(`${fn}(${fieldToSQL(field, indexed).sql}) AS ${fn}${i}`)))
+  const [where, args] = toSQLWhere(query, indexed)
+  const grouping = groupBy.length > 0 ? ` GROUP BY ${groupBy.join(', ')} ORDER BY ${groupBy.join(', ')}` : ''
+  return [`SELECT ${columns.join(', ')} ${toSQLFrom(colName, where)}${grouping}`, args]
+}
+
+export const queryValue = <Object extends Pea=Pea>(object: Object, field: string): QueryNode => {
+  const path = fieldToIndexPath(field)
+  if (path === 'id' || path === 'saved' || path === 'rev') return object[path as keyof Object] as QueryNode
+  return get(object, path.split('.')) as QueryNode
+}
+
+const likeCache: Record<string, RegExp> = {}
+const likeToRegExp = (pattern: string) => {
+  if (!likeCache[pattern]) {
+    const source = pattern.split('').map(c => c === '%' ? '[\\s\\S]*' : c === '_' ? '[\\s\\S]' : c.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('')
+    likeCache[pattern] = new RegExp(`^${source}$`, 'i')
+  }
+  return likeCache[pattern]
+}
+
+// the scalar SQLite sees: booleans as 0/1, nested objects and arrays as JSON text
+const normalize = (value: QueryNode) => {
+  if (typeof value === 'boolean') return value ? 1 : 0
+  if (value !== null && typeof value === 'object') return JSON.stringify(value)
+  return value
+}
+
+// orders like SQLite: NULL, then numbers, then text
+export const compareQueryValues = (a: QueryNode, b: QueryNode): number => {
+  const x = normalize(a)
+  const y = normalize(b)
+  const rank = (v: typeof x) => v === null || v === undefined ? 0 : typeof v === 'number' ? 1 : 2
+  if (rank(x) !== rank(y)) return rank(x) - rank(y)
+  if (x === null || x === undefined) return 0
+  if (typeof x === 'number') return x - (y as number)
+  return x < (y as string) ? -1 : x > (y as string) ? 1 : 0
+}
+
+// three-valued, so `$not` treats missing fields the way SQL treats NULL
+const conditionTruth = (objectValue: QueryNode, condition: PSHDatabaseQueryCondition): Truth => {
+  const missing = objectValue === null || objectValue === undefined
+  const [operator, operand] = isArray(condition)
+    ? condition as [PSHDatabaseQueryOperator, PSHDatabaseQueryValue|PSHDatabaseQueryValue[]]
+    : ['=', condition as PSHDatabaseQueryValue] as [PSHDatabaseQueryOperator, PSHDatabaseQueryValue]
+  if ((operator === '=' || operator === '!=') && operand === null) {
+    return operator === '=' ? missing : !missing
+  }
+  const values = isArray(operand) ? operand as PSHDatabaseQueryValue[] : [operand as PSHDatabaseQueryValue]
+  if ((operator === 'in' || operator === 'not in') && values.length === 0) {
+    return operator === 'not in' ? !missing : false
+  }
+  if (missing) return null
+  if (MEMBERSHIP_OPERATORS.includes(operator)) {
+    const members: QueryNode[] = objectValue !== null && typeof objectValue === 'object'
+      ? Object.values(objectValue as object)
+      : [objectValue]
+    const found = members.some(m => m !== null && m !== undefined && values.some(v => v !== null && compareQueryValues(m, v) === 0))
+    const unknown = !found && members.length === 1 && values.includes(null)
+    const positive = operator === '=' || operator === 'in'
+    if (unknown) return null
+    return positive ? found : !found
+  }
+  if (operand === null) return null
+  const c = compareQueryValues(objectValue, operand as PSHDatabaseQueryValue)
+  switch (operator) {
+    case '>': return c > 0
+    case '<': return c < 0
+    case '>=': return c >= 0
+    case '<=': return c <= 0
+    case 'like': return likeToRegExp(`${operand}`).test(`${normalize(objectValue)}`)
+  }
+  return null
+}
+
+const and = (truths: Truth[]): Truth => truths.includes(false) ? false : truths.includes(null) ? null : true
+const or = (truths: Truth[]): Truth => truths.includes(true) ? true : truths.includes(null) ? null : false
+
+const queryTruth = <Object extends Pea=Pea>(object: Object, query: PSHDatabaseQuery): Truth => and(Object.entries(query).filter(([, v]) => v !== undefined).map(([k, v]) => {
+  switch (k) {
+    case '$or': return or((v as PSHDatabaseQuery[]).map(q => queryTruth(object, q)))
+    case '$and': return and((v as PSHDatabaseQuery[]).map(q => queryTruth(object, q)))
+    case '$not': {
+      const t = queryTruth(object, v as PSHDatabaseQuery)
+      return t === null ? null : !t
+    }
+    default: return conditionTruth(queryValue(object, k), v as PSHDatabaseQueryCondition)
+  }
+}))
+
 export const matchesQuery = <Object extends Pea=Pea>(object: Object|undefined, query: PSHDatabaseQuery): boolean => {
   if (!object) return false
-  return Object.entries(query).every(([queryKey, queryValue]) => {
-    const objectValue = object[queryKey as keyof Object] as PSHDatabaseQueryValue|undefined
-    if (isArray(queryValue)) {
-      const [operator, queryOperand] = queryValue as [PSHDatabaseQueryOperator, PSHDatabaseQueryValue]
-      switch (operator) {
-        case '=': return objectValue === queryOperand
-        case '>': return (objectValue as number) > (queryOperand as number)
-        case '<': return (objectValue as number) < (queryOperand as number)
-        case '>=': return (objectValue as number) >= (queryOperand as number)
-        case '<=': return (objectValue as number) <= (queryOperand as number)
-        case '!=': return objectValue !== queryOperand
-        case 'in': return objectValue && (queryValue as PSHDatabaseQueryValue[]).includes(objectValue)
-        case 'not in': return !objectValue || !(queryValue as PSHDatabaseQueryValue[]).includes(objectValue)
-        case 'like': return typeof objectValue === 'string' && objectValue.includes(queryOperand as string)
-      }
-    } else {
-      return objectValue === queryValue
+  return queryTruth(object, query) === true
+}
+
+export const compareByOrder = <Object extends Pea=Pea>(options?: PSHQueryOptions) => {
+  const order = toOrderTerms(options && options.orderBy)
+  if (!order.some(([field]) => field === 'id')) order.push(['id', 'asc'])
+  return (a: Object, b: Object) => {
+    for (const [field, direction] of order) {
+      const c = compareQueryValues(queryValue(a, field), queryValue(b, field))
+      if (c !== 0) return direction === 'desc' ? -c : c
     }
-  })
+    return 0
+  }
+}
+
+export const project = <Object extends Pea=Pea>(object: Object, fields?: string[]): Object => {
+  if (!fields) return object
+  const projected: Record<string, unknown> = { id: object.id }
+  for (const field of fields) {
+    const path = fieldToIndexPath(field).split('.')
+    const value = get(object, path)
+    if (value === undefined) continue
+    let target = projected
+    path.slice(0, -1).forEach(segment => {
+      if (!target[segment] || typeof target[segment] !== 'object') target[segment] = {}
+      target = target[segment] as Record<string, unknown>
+    })
+    target[path[path.length - 1]] = value
+  }
+  return projected as Object
+}
+
+// the in-memory counterpart of the ORDER BY / LIMIT / OFFSET that toSQLQueryable emits
+export const applyQueryOptions = <Object extends Pea=Pea>(objects: Object[], options?: PSHQueryOptions): Object[] => {
+  if (!options) return objects
+  let results = options.orderBy ? objects.slice().sort(compareByOrder<Object>(options)) : objects
+  if (options.limit !== undefined || options.offset !== undefined) {
+    const offset = options.offset || 0
+    results = results.slice(offset, options.limit !== undefined && options.limit >= 0 ? offset + options.limit : undefined)
+  }
+  return options.fields ? results.map(o => project(o, options.fields)) : results
 }
\ No newline at end of file
@@ -0,0 +1,72 @@
+import PSHSyncTransport, { PSHPullRequest, PSHPullResponse, PSHPushRequest, PSHSyncChange } from './PSHSyncTransport'
+import PSHTransportError from './PSHTransportError'
+import PSHConfigError from '../PSHConfigError'
+
+
+interface PSHFetchResponse {
+  ok: boolean
+  status: number
+  json(): Promise<unknown>
+}
+
+export type PSHFetch = (url: string, init: { method: string, headers: Record<string,string>, body: string }) => Promise<PSHFetchResponse>
+
+export interface PSHHttpTransportOptions {
+  headers?: Record<string,string>
+  fetch?: PSHFetch
+}
+
+const globalFetch = (): PSHFetch|undefined => typeof fetch !== 'undefined' ? fetch : undefined
+
+const isObject = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object'
+
+const isChange = (value: unknown): value is PSHSyncChange => isObject(value)
+  && typeof value.col === 'string' && typeof value.id === 'string' && (value.type === 'write' || value.type === 'delete')
+  && typeof value.date === 'number' && (value.data === undefined || isObject(value.data))
+
+// what the pull endpoint answered, checked before any of it is applied
+const toPullResponse = (body: unknown, status: number): PSHPullResponse => {
+  if (!isObject(body) || !Array.isArray(body.changes) || !body.changes.every(isChange) || !(typeof body.cursor === 'string' || body.cursor === null)) {
+    throw new PSHTransportError('pull', status, 'with a body that isn\'t a pull response')
+  }
+  return { changes: body.changes, cursor: body.cursor, more: body.more === true }
+}
+
+/**
+ * Syncs over HTTP: requests are POSTed as JSON to `${url}/push` and `${url}/pull`, and
+ * the pull endpoint answers with a `PSHPullResponse`.
+ */
+export default class PSHHttpTransport implements PSHSyncTransport {
+  readonly url: string
+  private readonly options: PSHHttpTransportOptions
+
+  constructor(url: string, options?: PSHHttpTransportOptions) {
+    this.url = url.replace(/\/+$/, '')
+    this.options = { ...options }
+  }
+
+  async push(request: PSHPushRequest) {
+    await this.post('push', request)
+  }
+
+  async pull(request: PSHPullRequest): Promise<PSHPullResponse> {
+    const response = await this.post('pull', request)
+    return toPullResponse(await response.json(), response.status)
+  }
+
+  private async post(endpoint: string, body: object) {
+    const fetch = this.options.fetch || globalFetch()
+    if (!fetch) {
+      throw new PSHConfigError('PSHHttpTransport: no fetch here; pass one in the options')
+    }
+    const response = await fetch(`${this.url}/${endpoint}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...this.options.headers },
+      body: JSON.stringify(body)
+    })
+    if (!response.ok) {
+      throw new PSHTransportError(endpoint, response.status)
+    }
+    return response
+  }
+}
\ No newline at end of file
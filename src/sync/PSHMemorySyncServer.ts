@@ -0,0 +1,25 @@
+import PSHSyncTransport, { PSHPullRequest, PSHPullResponse, PSHPushRequest, PSHSyncChange } from './PSHSyncTransport'
+
+
+/**
+ * An in-process stand-in for a sync backend: clients share one instance as their transport
+ * and each sees the others' changes in push order.
+ */
+export default class PSHMemorySyncServer implements PSHSyncTransport {
+  readonly log: Array<PSHSyncChange & { clientId: string }> = []
+
+  async push({ clientId, changes }: PSHPushRequest) {
+    changes.forEach(change => this.log.push({ ...change, clientId }))
+  }
+
+  async pull({ clientId, cursor, limit }: PSHPullRequest): Promise<PSHPullResponse> {
+    const from = cursor ? Number(cursor) : 0
+    const page = this.log.slice(from, from + limit)
+    const next = from + page.length
+    return {
+      changes: page.filter(change => change.clientId !== clientId).map(({ clientId, ...change }) => change),
+      cursor: `${next}`,
+      more: next < this.log.length
+    }
+  }
+}
\ No newline at end of file
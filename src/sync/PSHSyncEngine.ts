@@ -0,0 +1,158 @@
+import uuid from 'react-native-uuid'
+import type PSHDatabase from '../PSHDatabase'
+import PSHSyncTransport, { PSHSyncChange } from './PSHSyncTransport'
+import PSHConfigError from '../PSHConfigError'
+import PSHUniqueViolation from '../PSHUniqueViolation'
+
+
+const CLIENT_ID_KEY = 'sync.clientId'
+const PUSHED_KEY = 'sync.pushed'
+const CURSOR_KEY = 'sync.cursor'
+const DEFAULT_BATCH_SIZE = 200
+
+export interface PSHSyncOptions {
+  // only these collections are pushed and pulled
+  collections?: string[]
+  batchSize?: number
+  // a pulled change that a local unique index refuses; it's skipped, since pulling it again won't help
+  onReject?: (change: PSHSyncChange, error: PSHUniqueViolation) => void
+}
+
+export interface PSHSyncResult {
+  pushed: number
+  pulled: number
+}
+
+/**
+ * Pushes the oplog to a transport and applies what it pulls back, resuming from checkpoints
+ * kept in the metadata table. Pulled changes are written as remote, so they don't land in
+ * the oplog and get pushed back. Pushed oplog entries are truncated, and only those.
+ */
+export default class PSHSyncEngine {
+  readonly db: PSHDatabase
+  readonly transport: PSHSyncTransport
+  private readonly options: PSHSyncOptions
+  private running: Promise<PSHSyncResult>|null = null
+  private timer: ReturnType<typeof setInterval>|null = null
+
+  constructor(db: PSHDatabase, transport: PSHSyncTransport, options?: PSHSyncOptions) {
+    if (!db.oplog) {
+      throw new PSHConfigError(`PSHSyncEngine: ${db.dbName} needs the oplog enabled in its config`)
+    }
+    this.db = db
+    this.transport = transport
+    this.options = { ...options }
+  }
+
+  private get batchSize() {
+    return this.options.batchSize || DEFAULT_BATCH_SIZE
+  }
+
+  async clientId(): Promise<string> {
+    let clientId = await this.db.meta.get<string>(CLIENT_ID_KEY)
+    if (!clientId) {
+      clientId = uuid.v4() as string
+      await this.db.meta.set(CLIENT_ID_KEY, clientId)
+    }
+    return clientId
+  }
+
+  // concurrent calls share the sync already in flight
+  sync(): Promise<PSHSyncResult> {
+    if (!this.running) {
+      this.running = this.pushThenPull().finally(() => this.running = null)
+    }
+    return this.running
+  }
+
+  private async pushThenPull(): Promise<PSHSyncResult> {
+    const pushed = await this.push()
+    const pulled = await this.pull()
+    this.db.logger.log('PSHSyncEngine.sync', this.db.dbName, { pushed, pulled })
+    return { pushed, pulled }
+  }
+
+  start(intervalMs: number) {
+    this.stop()
+    const sync = () => { this.sync().catch(e => this.db.logger.error('PSHSyncEngine.sync', this.db.dbName, e)) }
+    this.timer = setInterval(sync, intervalMs)
+    sync()
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+  }
+
+  // an engine limited to some collections keeps its own checkpoints, leaving the others' changes for later
+  private checkpoint(key: string) {
+    const collections = this.options.collections
+    return collections ? `${key}.${[...collections].sort().join(',')}` : key
+  }
+
+  async push(): Promise<number> {
+    const oplog = this.db.oplog!
+    const clientId = await this.clientId()
+    let pushed = 0
+    for (;;) {
+      const since = await this.db.meta.get<number>(this.checkpoint(PUSHED_KEY)) || 0
+      const changes = await oplog.changesSince(since, this.batchSize, this.options.collections)
+      if (changes.length === 0) break
+      await this.transport.push({ clientId, changes: changes.map(({ seq, ...change }) => change) })
+      const last = changes[changes.length - 1].seq
+      await this.db.meta.set(this.checkpoint(PUSHED_KEY), last)
+      await oplog.truncate(last, this.options.collections)
+      pushed += changes.length
+      if (changes.length < this.batchSize) break
+    }
+    return pushed
+  }
+
+  async pull(): Promise<number> {
+    const clientId = await this.clientId()
+    const collections = this.options.collections
+    let pulled = 0
+    for (;;) {
+      const cursor = await this.db.meta.get<string>(this.checkpoint(CURSOR_KEY)) || null
+      const response = await this.transport.pull({ clientId, cursor, limit: this.batchSize })
+      const changes = collections ? response.changes.filter(c => collections.includes(c.col)) : response.changes
+      await this.apply(changes)
+      await this.db.meta.set(this.checkpoint(CURSOR_KEY), response.cursor)
+      pulled += changes.length
+      if (!response.more) break
+    }
+    return pulled
+  }
+
+  // a batch that breaks a unique index is applied again one change at a time, leaving out the ones that do
+  private async apply(changes: PSHSyncChange[]) {
+    if (changes.length === 0) return
+    try {
+      await this.write(changes)
+    } catch (e) {
+      if (!(e instanceof PSHUniqueViolation)) throw e
+      for (const change of changes) {
+        await this.write([change]).catch(e => {
+          if (!(e instanceof PSHUniqueViolation)) throw e
+          this.db.logger.warn('PSHSyncEngine.pull rejected', change.col, change.id, e.message)
+          if (this.options.onReject) this.options.onReject(change, e)
+        })
+      }
+    }
+  }
+
+  private async write(changes: PSHSyncChange[]) {
+    const tx = this.db.transaction({ remote: true })
+    changes.forEach(change => {
+      const col = this.db.col(change.col)
+      if (change.type === 'delete') {
+        tx.delete(col, change.id)
+      } else if (change.data) {
+        tx.save(col, { ...change.data, id: change.id })
+      }
+    })
+    await tx.execute()
+  }
+}
\ No newline at end of file
@@ -0,0 +1,39 @@
+import { PSHEventType } from '../events/PSHEvent'
+import Pea from '../Pea'
+
+
+// a change as it travels between clients; oplog sequence numbers stay local
+export interface PSHSyncChange<Data extends Pea=Pea> {
+  col: string
+  id: string
+  type: PSHEventType
+  date: number
+  data?: Data
+}
+
+export interface PSHPushRequest {
+  clientId: string
+  changes: PSHSyncChange[]
+}
+
+export interface PSHPullRequest {
+  clientId: string
+  cursor: string|null
+  limit: number
+}
+
+// `cursor` is opaque to the client and handed back on the next pull; `more` asks for another pull right away
+export interface PSHPullResponse {
+  changes: PSHSyncChange[]
+  cursor: string|null
+  more?: boolean
+}
+
+/**
+ * Moves changes between a client and whatever it syncs with. A pull shouldn't return
+ * changes that the same client pushed.
+ */
+export default interface PSHSyncTransport {
+  push(request: PSHPushRequest): Promise<void>
+  pull(request: PSHPullRequest): Promise<PSHPullResponse>
+}
\ No newline at end of file
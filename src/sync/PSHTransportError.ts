@@ -0,0 +1,15 @@
+import PSHError from '../PSHError'
+
+
+// a sync endpoint that answered with something other than success, or with a body that makes no sense
+export default class PSHTransportError extends PSHError {
+  readonly endpoint: string
+  readonly status: number
+
+  constructor(endpoint: string, status: number, problem = `with status ${status}`) {
+    super(`PSHHttpTransport: ${endpoint} failed ${problem}`)
+    this.name = 'PSHTransportError'
+    this.endpoint = endpoint
+    this.status = status
+  }
+}
\ No newline at end of file
@@ -0,0 +1,69 @@
+import { PSHIndexing } from '../src'
+import Pea from '../src/Pea'
+import { toSQLWhere } from '../src/shared'
+import { connect, tick } from './helpers'
+
+interface Message extends Pea {
+  thread: string
+  unread: boolean
+  size?: number
+  meta?: { kind: string }
+}
+
+const message = (id: string, thread: string, unread: boolean, size?: number, kind?: string): Message =>
+  ({ collection: 'messages', id, thread, unread, ...size !== undefined && { size }, ...kind && { meta: { kind } } })
+
+const setUp = async () => {
+  const db = await connect({ indices: { messages: [PSHIndexing.make('thread')] } })
+  const messages = db.col<Message>('messages')
+  await messages.saveMany([
+    message('1', 'a', true, 10, 'x'),
+    message('2', 'a', false, 20, 'y'),
+    message('3', 'b', true, 5, 'x'),
+    message('4', 'b', true, 7),
+  ])
+  return messages
+}
+
+describe('PSHAggregate', () => {
+  it('counts, lists distinct values and aggregates groups of matches', async () => {
+    const messages = await setUp()
+    expect(await messages.count()).toBe(4)
+    expect(await messages.count({ unread: true })).toBe(3)
+    expect(await messages.distinct('thread')).toEqual(['a', 'b'])
+    expect(await messages.distinct('meta.kind', { unread: true })).toEqual(['x'])
+    expect(await messages.aggregate({ groupBy: 'thread', sum: ['size'], max: ['size'], avg: ['size'], min: ['meta.kind'] }, { unread: true })).toEqual([
+      { group: { thread: 'a' }, count: 1, sum: { size: 10 }, min: { 'meta.kind': 'x' }, max: { size: 10 }, avg: { size: 10 } },
+      { group: { thread: 'b' }, count: 2, sum: { size: 12 }, min: { 'meta.kind': 'x' }, max: { size: 7 }, avg: { size: 6 } },
+    ])
+    expect((await messages.aggregate({ sum: ['size'] }))[0]).toMatchObject({ count: 4, sum: { size: 42 } })
+  })
+
+  it('re-runs live counts and aggregates as matches change', async () => {
+    const messages = await setUp()
+    const counts: number[] = []
+    const groups: Array<Array<[unknown, number]>> = []
+    const stopCount = messages.onCount({ unread: true }, total => { counts.push(total) })
+    const stopGroups = messages.onAggregate({ groupBy: 'thread' }, rows => { groups.push(rows.map(row => [row.group.thread, row.count])) }, { unread: true })
+    await tick()
+    await messages.update('2', { unread: true })
+    await tick()
+    await messages.save(message('5', 'c', false))
+    await tick()
+    await messages.delete('1')
+    await tick()
+    expect(counts).toEqual([3, 4, 3])
+    expect(groups).toEqual([[['a', 1], ['b', 2]], [['a', 2], ['b', 2]], [['a', 1], ['b', 2]]])
+
+    stopCount()
+    stopGroups()
+    await messages.delete('2')
+    await tick()
+    expect(counts).toHaveLength(3)
+  })
+
+  it('compiles a query to a WHERE clause on its own', () => {
+    expect(toSQLWhere({ $or: [{ thread: 'a' }, { size: ['>', 5] }] }, ['thread', 'size'])).toEqual(['("thread" = ? OR "size" > ?)', ['a', 5]])
+    expect(toSQLWhere({})).toEqual(['1', []])
+  })
+})
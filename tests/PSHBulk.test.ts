@@ -0,0 +1,56 @@
+import { PSHEventBatch } from '../src'
+import Pea from '../src/Pea'
+import { connect, tick } from './helpers'
+
+interface Item extends Pea {
+  n: number
+  tags: string[]
+}
+
+const items = Array.from({ length: 10 }, (_, i): Item => ({ collection: 'items', id: `d${i}`, n: i, tags: [i % 2 ? 'odd' : 'even'] }))
+
+const setUp = async () => {
+  const db = await connect()
+  const col = db.col<Item>('items')
+  expect(await col.saveMany(items)).toEqual({ count: 10, ids: items.map(item => item.id) })
+  return { db, col }
+}
+
+describe('bulk operations', () => {
+  it('updates and deletes every match in one batch of events', async () => {
+    const { db, col } = await setUp()
+    const batches: PSHEventBatch[] = []
+    db.events.onBatch('items', batch => { batches.push(batch) })
+
+    const updated = await col.updateMany({ n: ['>=', 7] }, item => ({ ...item, tags: ['odd'] }))
+    expect(updated.ids.sort()).toEqual(['d7', 'd8', 'd9'])
+    const deleted = await col.deleteMany({ tags: 'odd', n: ['<', 5] })
+    expect(deleted).toEqual({ count: 2, ids: expect.arrayContaining(['d1', 'd3']) })
+    expect(batches.map(batch => batch.events.map(event => `${event.type}:${event.id}`).sort())).toEqual([
+      ['write:d7', 'write:d8', 'write:d9'],
+      ['delete:d1', 'delete:d3'],
+    ])
+    expect(await col.count()).toBe(8)
+  })
+
+  it('keeps live queries in step with bulk changes', async () => {
+    const { col } = await setUp()
+    const results: string[][] = []
+    const stop = col.onQuery({ tags: 'odd' }, docs => { results.push(docs.map(doc => doc.id)) }, { orderBy: 'n' })
+    await tick()
+    await col.updateMany({ n: ['>=', 7] }, item => ({ ...item, tags: ['odd'] }))
+    await tick()
+    expect(results.pop()).toEqual(['d1', 'd3', 'd5', 'd7', 'd8', 'd9'])
+    await col.deleteMany({ tags: 'odd', n: ['<', 5] })
+    await tick()
+    expect(results.pop()).toEqual(['d5', 'd7', 'd8', 'd9'])
+    stop()
+  })
+
+  it('deletes one match at most', async () => {
+    const { col } = await setUp()
+    expect(await col.deleteOne({ tags: 'odd' })).toMatch(/^d[13579]$/)
+    expect(await col.count()).toBe(9)
+    expect(await col.deleteOne({ n: 100 })).toBeNull()
+  })
+})
@@ -0,0 +1,68 @@
+import { PSHConflictError, PSHConflicts } from '../src'
+import Pea from '../src/Pea'
+import { connect } from './helpers'
+
+interface Counter extends Pea {
+  n: number
+  m: number
+  x?: number
+}
+
+const counter = (id: string, n: number, m: number): Counter => ({ collection: 'counters', id, n, m })
+
+describe('PSHConflicts', () => {
+  it('counts revisions and rejects saves over a changed row', async () => {
+    const db = await connect()
+    const counters = db.col<Counter>('counters')
+    const a = await counters.save(counter('a', 1, 1))
+    expect(a.rev).toBe(1)
+    expect((await counters.save({ ...a, n: 2 }, { expectedRev: 1 })).rev).toBe(2)
+
+    const error = await counters.save({ ...a, n: 3 }, { expectedRev: 1 }).catch(e => e)
+    expect(error).toBeInstanceOf(PSHConflictError)
+    expect(error.actualRev).toBe(2)
+    expect(error.current.n).toBe(2)
+    expect((await counters.get('a'))!.n).toBe(2)
+
+    await expect(counters.save(counter('a', 0, 0), { expectedRev: 0 })).rejects.toBeInstanceOf(PSHConflictError)
+    expect((await counters.save(counter('b', 0, 0), { expectedRev: 0 })).rev).toBe(1)
+  })
+
+  it('merges the fields a save changed from its base over the stored document', async () => {
+    const db = await connect()
+    const counters = db.col<Counter>('counters')
+    const base = await counters.save(counter('a', 1, 1))
+    await counters.save({ ...base, n: 2 })
+
+    const merged = await counters.save({ ...base, m: 5 }, { expectedRev: 1, base, resolve: PSHConflicts.mergeFields })
+    expect(merged.rev).toBe(3)
+    const { n, m, rev } = (await counters.get('a'))!
+    expect([n, m, rev]).toEqual([2, 5, 3])
+  })
+
+  it('drops fields removed since the base, and lets the last write win when configured', async () => {
+    const db = await connect()
+    const base = await db.col<Counter>('counters').save({ ...counter('a', 1, 1), x: 1 })
+    const { x, ...withoutX } = base
+    await db.col<Counter>('counters').save({ ...base, n: 2 })
+    const merged = await db.col<Counter>('counters').save<Counter>(withoutX, { expectedRev: 1, base, resolve: PSHConflicts.mergeFields })
+    expect(merged.x).toBeUndefined()
+    expect(merged.n).toBe(2)
+
+    const counters = db.col<Counter>('counters', { resolve: PSHConflicts.lastWriteWins })
+    expect((await counters.save(counter('a', 9, 9), { expectedRev: 1 })).rev).toBe(4)
+    expect((await counters.get('a'))!.n).toBe(9)
+  })
+
+  it('retries concurrent updates without losing either', async () => {
+    const db = await connect()
+    const counters = db.col<Counter>('counters')
+    await counters.save(counter('a', 0, 0))
+    await Promise.all([
+      counters.update('a', doc => ({ ...doc, n: doc.n + 1 })),
+      counters.update('a', doc => ({ ...doc, n: doc.n + 1 })),
+    ])
+    const { n, rev } = (await counters.get('a'))!
+    expect([n, rev]).toEqual([2, 3])
+  })
+})
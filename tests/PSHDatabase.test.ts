@@ -0,0 +1,65 @@
+import { PSHDatabase, PSHError, PSHIndexing, PSHMemoryAdapter, PSHStorageAdapterFactory } from '../src'
+import Pea from '../src/Pea'
+
+interface Note extends Pea {
+  text?: string
+}
+
+const note = (id: string, text?: string): Note => ({ collection: 'notes', id, text })
+const config = { adapter: PSHMemoryAdapter.connect, writeBehind: { delay: 1000 } }
+
+describe('PSHDatabase lifecycle', () => {
+  it('writes queued saves on close and invalidates the collections bound to it', async () => {
+    const db = await PSHDatabase.connect({ name: 'user-1', config })
+    expect(PSHDatabase.listDatabases()).toContain('user-1')
+    const notes = db.col<Note>('notes')
+    const heard: string[] = []
+    notes.on('write', event => heard.push(event.id))
+    const saved = notes.save(note('a'))
+
+    await db.close()
+    expect((await saved).rev).toBe(1)
+    expect(db.closed).toBe(true)
+    expect(PSHDatabase.listDatabases()).not.toContain('user-1')
+    await expect(notes.get('a')).rejects.toThrow('user-1.db is closed')
+    expect(() => db.col('drafts')).toThrow(PSHError)
+
+    const again = await PSHDatabase.connect({ name: 'user-1', config })
+    expect(again).not.toBe(db)
+    expect(await again.col<Note>('notes').get('a')).toMatchObject({ id: 'a' })
+    const more = again.col<Note>('notes').save(note('b'))
+    await again.close()
+    await more
+    expect(heard).toEqual(['a'])
+  })
+
+  it('deletes a database, closing it first', async () => {
+    const db = await PSHDatabase.connect({ name: 'user-2', config })
+    const saved = db.col<Note>('notes').save(note('a'))
+    await PSHDatabase.deleteDatabase('user-2')
+    expect((await saved).rev).toBe(1)
+    expect(db.closed).toBe(true)
+
+    const fresh = await PSHDatabase.connect({ name: 'user-2', config })
+    expect(await fresh.col<Note>('notes').get('a')).toBeNull()
+    await fresh.close()
+  })
+
+  it('drops the tables of an adapter that cannot delete its file', async () => {
+    const adapter: PSHStorageAdapterFactory = async options => Object.assign(await PSHMemoryAdapter.connect(options), { drop: undefined })
+    const db = await PSHDatabase.connect({ name: 'no-drop', config: { adapter, indices: { notes: [PSHIndexing.fulltext('text')] } } })
+    await db.col<Note>('notes').save(note('a', 'hi'))
+    await PSHDatabase.deleteDatabase('no-drop')
+
+    const raw = await PSHMemoryAdapter.connect({ name: 'no-drop.db' })
+    expect((await raw.tables()).filter(table => table !== 'sqlite_sequence')).toEqual([])
+  })
+
+  it('retries a connect that failed', async () => {
+    let attempts = 0
+    const adapter: PSHStorageAdapterFactory = options => ++attempts === 1 ? Promise.reject(new Error('nope')) : PSHMemoryAdapter.connect(options)
+    await expect(PSHDatabase.connect({ name: 'flaky', config: { adapter } })).rejects.toThrow('nope')
+    expect(await PSHDatabase.connect({ name: 'flaky', config: { adapter } })).toBeInstanceOf(PSHDatabase)
+    expect(attempts).toBe(2)
+  })
+})
@@ -0,0 +1,55 @@
+import { applyQueryOptions, matchesQuery, PSHIndexing, PSHQueryFor, PSHQueryOptions } from '../src'
+import Pea from '../src/Pea'
+import { connect } from './helpers'
+
+interface Ticket extends Pea {
+  status: string|null
+  rank: number
+  owner?: string
+}
+
+const tickets = Array.from({ length: 30 }, (_, i): Ticket => {
+  const ticket: Ticket = { collection: 'tickets', id: `d${i}`, status: ['open', 'closed', null][i % 3], rank: i % 7 }
+  if (i % 4 !== 0) ticket.owner = `u${i % 5}`
+  return ticket
+})
+
+const setUp = async () => {
+  const db = await connect({ indices: { tickets: [PSHIndexing.make('status'), PSHIndexing.make({ path: 'rank', type: 'INT' }), PSHIndexing.make('owner')] } })
+  const col = db.col<Ticket>('tickets')
+  await col.saveMany(tickets)
+  return col
+}
+
+const comparable = (docs: Ticket[]) => docs.map(({ saved, rev, collection, ...rest }) => rest)
+
+const cases: Array<[string, PSHQueryFor<Ticket>, PSHQueryOptions]> = [
+  ['$or with ordering and a page', { $or: [{ status: 'open' }, { rank: ['>', 4] }] }, { orderBy: [['rank', 'desc'], 'status'], limit: 5, offset: 2 }],
+  ['$not', { $not: { status: 'open' } }, { orderBy: 'owner' }],
+  ['not in', { owner: ['not in', ['u1', 'u2']] }, { orderBy: 'rank' }],
+  ['in and an $and range', { owner: ['in', ['u1', 'u2']], $and: [{ rank: ['>=', 2] }, { rank: ['<', 6] }] }, { orderBy: ['rank', 'desc'] }],
+  ['null with an offset', { status: null }, { orderBy: 'id', offset: 5 }],
+  ['like with a projection', { owner: ['like', 'U%'] }, { orderBy: 'owner', fields: ['owner'] }],
+  ['!=', { status: ['!=', 'open'] }, { orderBy: 'status' }],
+  ['everything, limited', {}, { orderBy: ['rank', 'desc'], limit: 3 }],
+]
+
+describe('PSHDatabaseQuery', () => {
+  it.each(cases)('finds in SQL what matches in memory: %s', async (_, query, options) => {
+    const col = await setUp()
+    const expected = applyQueryOptions(tickets.filter(ticket => matchesQuery(ticket, query)), options)
+    expect(comparable(await col.find(query, options))).toEqual(comparable(expected))
+  })
+
+  it('breaks ties in the order by id', async () => {
+    const col = await setUp()
+    const found = await col.find({ rank: 3 }, { orderBy: 'rank' })
+    expect(found.map(ticket => ticket.id)).toEqual(['d10', 'd17', 'd24', 'd3'])
+  })
+
+  it('projects only the listed fields, keeping the id', async () => {
+    const col = await setUp()
+    const [first] = await col.find({ id: 'd1' }, { fields: ['rank'] })
+    expect(Object.keys(first).filter(key => !['saved', 'rev', 'collection'].includes(key)).sort()).toEqual(['id', 'rank'])
+  })
+})
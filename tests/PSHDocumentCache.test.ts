@@ -0,0 +1,70 @@
+import { PSHDatabase, PSHMemoryAdapter, PSHQueryEvent } from '../src'
+import Pea from '../src/Pea'
+import { connect } from './helpers'
+
+interface Note extends Pea {
+  n?: number
+  tags?: string[]
+}
+
+const note = (id: string, fields: Omit<Note, 'collection'|'id'> = {}): Note => ({ collection: 'notes', id, ...fields })
+
+describe('PSHDocumentCache', () => {
+  it('hands out one frozen copy per revision, shared by get and find', async () => {
+    const reads: PSHQueryEvent[] = []
+    const db = await connect({ cache: { notes: { maxSize: 2 } }, instrumentation: { onQuery: event => { if (/^SELECT id, json/.test(event.sql)) reads.push(event) } } })
+    const notes = db.col<Note>('notes')
+    await notes.save(note('a', { n: 1, tags: ['x'] }))
+    reads.length = 0
+
+    const first = await notes.get('a')
+    expect(await notes.get('a')).toBe(first)
+    expect(reads).toHaveLength(1)
+    expect(Object.isFrozen(first!.tags)).toBe(true)
+    expect(() => { first!.n = 5 }).toThrow(TypeError)
+    expect((await notes.find({}))[0]).toBe(first)
+
+    await notes.save({ ...first!, n: 2 })
+    expect(await notes.get('a')).toMatchObject({ n: 2, rev: 2 })
+  })
+
+  it('evicts the least recently read past its size, and forgets deleted and wiped documents', async () => {
+    const db = await connect({ cache: { notes: { maxSize: 2 } } })
+    const notes = db.col<Note>('notes')
+    await notes.saveMany([note('a'), note('b'), note('c')])
+    await notes.get('a')
+    await notes.get('b')
+    await notes.get('c')
+    await notes.get('a')
+    expect(db.cacheStats().notes).toMatchObject({ size: 2, evictions: 2 })
+
+    await notes.delete('a')
+    expect(await notes.get('a')).toBeNull()
+    await notes.wipe()
+    expect(await notes.get('c')).toBeNull()
+    expect(db.cacheStats().notes.hits).toBe(0)
+  })
+
+  it('forgets every document on a reset, even of collections never opened', async () => {
+    const config = { adapter: PSHMemoryAdapter.connect, cache: { notes: {} } }
+    const earlier = await PSHDatabase.connect({ name: 'cache-reset', config })
+    await earlier.col<Note>('notes').save(note('a'))
+    await earlier.close()
+
+    const db = await PSHDatabase.connect({ name: 'cache-reset', config })
+    expect(await db.get('notes', 'a')).toMatchObject({ id: 'a' })
+    await db.reset()
+    expect(await db.col<Note>('notes').get('a')).toBeNull()
+  })
+
+  it('counts hits and misses until the stats are reset', async () => {
+    const db = await connect({ cache: { notes: {} } })
+    const notes = db.col<Note>('notes')
+    await notes.save(note('a'))
+    await notes.get('a')
+    await notes.get('a')
+    expect(db.cacheStats().notes).toMatchObject({ hits: 1, misses: 1 })
+    db.resetStats()
+    expect(db.cacheStats().notes).toMatchObject({ hits: 0, misses: 0 })
+  })
+})
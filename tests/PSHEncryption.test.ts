@@ -0,0 +1,95 @@
+import { PSHCipher, PSHConfigError, PSHDatabaseConfig, PSHError, PSHIndexing, PSHKey, PSHUniqueViolation } from '../src'
+import Pea from '../src/Pea'
+import { connect } from './helpers'
+
+interface Person extends Pea {
+  name: string
+  ssn?: string
+  contact?: { phone?: string, email?: string }
+}
+
+interface Secret extends Pea {
+  pin: number
+}
+
+interface Row {
+  json: string
+  ssn?: string
+}
+
+// reversible, and keyed so a wrong key is noticed
+const cipher: PSHCipher = {
+  encrypt: (text, key) => Buffer.from(`${key.material}|${text}`).toString('base64'),
+  decrypt: (text, key) => {
+    const [material, ...rest] = Buffer.from(text, 'base64').toString().split('|')
+    if (Number(material) !== key.material) throw new Error('wrong key')
+    return rest.join('|')
+  },
+  hash: (value, key) => `${key.material}:${value}`.split('').reverse().join(''),
+}
+
+const open = (config: PSHDatabaseConfig = {}) => {
+  const keys: Record<string, PSHKey> = { k1: { id: 'k1', material: 1 }, k2: { id: 'k2', material: 2 } }
+  const provider = { current: keys.k1, keys }
+  const keyProvider = { current: () => provider.current, key: (id: string) => keys[id], hashKey: () => ({ id: 'h', material: 9 }) }
+  const collections = { people: { fields: ['ssn', 'contact.phone'] }, secrets: {} }
+  return { provider, connecting: connect({ oplog: true, history: { people: {} }, encryption: { keys: keyProvider, cipher, collections }, ...config }) }
+}
+
+const person = (id: string, name: string, ssn?: string, contact?: Person['contact']): Person => ({ collection: 'people', id, name, ...ssn && { ssn }, ...contact && { contact } })
+
+describe('PSHEncryption', () => {
+  it('stores encrypted fields sealed and matches them through blind indexes', async () => {
+    const db = await open({ indices: { people: [PSHIndexing.make({ path: 'ssn', unique: true, blind: true }), PSHIndexing.make('name')] } }).connecting
+    const people = db.col<Person>('people')
+    await people.save(person('a', 'Ann', '123', { phone: '555', email: 'a@x' }))
+    await people.save(person('b', 'Bob', '456'))
+
+    const [row] = await db.sqlDb.query<Row>('SELECT json, ssn FROM people WHERE id = ?', ['a'])
+    expect(row.json).not.toContain('123')
+    expect(row.json).not.toContain('555')
+    expect(row.json).toContain('a@x')
+    expect(row.ssn).not.toBe('123')
+    expect(await people.get('a')).toMatchObject({ ssn: '123', contact: { phone: '555', email: 'a@x' } })
+
+    expect((await people.find({ ssn: '456' })).map(doc => doc.id)).toEqual(['b'])
+    expect((await people.find({ ssn: ['in', ['123', '456']] })).map(doc => doc.id)).toEqual(['a', 'b'])
+    await expect(people.find({ ssn: ['like', '1%'] })).rejects.toBeInstanceOf(PSHError)
+    await expect(people.find({ 'contact.phone': '555' })).rejects.toBeInstanceOf(PSHError)
+    await expect(people.save(person('c', 'Cy', '123'))).rejects.toBeInstanceOf(PSHUniqueViolation)
+
+    const [logged] = await db.sqlDb.query<Row>('SELECT json FROM _psh_oplog LIMIT 1')
+    expect(logged.json).not.toContain('123')
+    expect((await db.oplog!.changesSince(0))[0].data).toMatchObject({ ssn: '123' })
+  })
+
+  it('re-encrypts rows under the current key', async () => {
+    const { provider, connecting } = open()
+    const db = await connecting
+    const secrets = db.col<Secret>('secrets')
+    await secrets.save({ collection: 'secrets', id: 's', pin: 42 })
+    const [row] = await db.sqlDb.query<Row>('SELECT json FROM secrets')
+    expect(JSON.parse(row.json)).toMatchObject({ id: 's', key: 'k1' })
+    expect(await secrets.get('s')).toMatchObject({ id: 's', pin: 42, rev: 1 })
+
+    provider.current = provider.keys.k2
+    expect(await secrets.rotateKeys()).toBe(2)
+    const [rotated] = await db.sqlDb.query<Row>('SELECT json FROM secrets')
+    expect(JSON.parse(rotated.json).key).toBe('k2')
+    delete provider.keys.k1
+    expect(await secrets.get('s')).toMatchObject({ pin: 42 })
+    expect(await secrets.rotateKeys()).toBe(0)
+  })
+
+  it('refuses indexes, expiry and references that would read ciphertext', async () => {
+    await expect(open({ indices: { people: [PSHIndexing.make('ssn')] } }).connecting).rejects.toThrow(/blind index/)
+    await expect(open({ indices: { people: [PSHIndexing.make({ path: 'name', blind: true })] } }).connecting).rejects.toThrow(/can't be blind/)
+    await expect(open({ ttl: { secrets: 1000 } }).connecting).rejects.toBeInstanceOf(PSHConfigError)
+    await expect(open({ refs: { secrets: { owner: { to: 'people' } } } }).connecting).rejects.toThrow(/secrets.owner.id is encrypted/)
+
+    // only the listed fields of people are sealed, so the rest still work in SQL
+    const db = await open({ ttl: { people: 0 }, refs: { people: { friend: { to: 'people' } } } }).connecting
+    await db.col<Person>('people').save({ ...person('a', 'Ann'), expiresAt: Date.now() - 1 })
+    expect(await db.col<Person>('people').all()).toEqual([])
+  })
+})
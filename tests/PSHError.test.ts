@@ -0,0 +1,67 @@
+import {
+  PSHConfigError, PSHError, PSHHttpTransport, PSHImportError, PSHIndexing, PSHInvalidIdentifierError,
+  PSHNotFoundError, PSHStorageFailure, PSHSyncEngine, PSHTransportError, PSHUniqueViolation
+} from '../src'
+import Pea from '../src/Pea'
+import { connect } from './helpers'
+
+interface Row extends Pea {
+  [field: string]: unknown
+}
+
+const row = (id: string, fields: Record<string, unknown> = {}): Row => ({ collection: 'rows', id, ...fields })
+
+describe('PSHError', () => {
+  it('quotes keyword collection and index names', async () => {
+    const db = await connect({ indices: { order: [PSHIndexing.make({ path: 'select', unique: true }), PSHIndexing.make('group.by')] } })
+    const order = db.col<Row>('order')
+    await order.save(row('a', { select: 1, group: { by: 'x' } }))
+    await order.save(row('b', { select: 2, group: { by: 'y' } }))
+    expect((await order.find({ select: 2 })).map(doc => doc.id)).toEqual(['b'])
+    expect((await order.find({ 'group.by': 'x' })).map(doc => doc.id)).toEqual(['a'])
+    await expect(order.save(row('c', { select: 1 }))).rejects.toBeInstanceOf(PSHUniqueViolation)
+    await order.wipe()
+    expect(await order.count()).toBe(0)
+  })
+
+  it('rejects identifiers that SQL can\'t hold', async () => {
+    const db = await connect()
+    expect(() => db.col('x; DROP TABLE y')).toThrow(PSHInvalidIdentifierError)
+    expect(() => db.col('_psh_meta')).toThrow(PSHInvalidIdentifierError)
+    await expect(connect({ indices: { 'bad-name': [] } })).rejects.toBeInstanceOf(PSHInvalidIdentifierError)
+    await expect(connect({ indices: { ok: [PSHIndexing.make('a..b')] } })).rejects.toBeInstanceOf(PSHInvalidIdentifierError)
+    const rows = db.col<Row>('rows')
+    await rows.save(row('a', { 'we ird': 1 }))
+    expect(await rows.find({ 'we ird': 1 })).toHaveLength(1)
+    await expect(rows.find({ 'we"ird': 1 })).rejects.toBeInstanceOf(PSHInvalidIdentifierError)
+  })
+
+  it('reports missing documents and refused statements', async () => {
+    const db = await connect()
+    const rows = db.col<Row>('rows')
+    const missing = await rows.update('missing', { a: 1 }).catch(e => e)
+    expect(missing).toBeInstanceOf(PSHNotFoundError)
+    expect(missing.id).toBe('missing')
+    const refused = await db.sqlDb.run('SELECT * FROM nowhere').catch(e => e)
+    expect(refused).toBeInstanceOf(PSHStorageFailure)
+    expect(refused.sql).toBe('SELECT * FROM nowhere')
+  })
+
+  it('types configuration, import and transport failures', async () => {
+    const upgrades = { rows: { version: 2, upgrades: [(doc: Row) => doc] } }
+    await expect(connect({ migrations: upgrades })).rejects.toBeInstanceOf(PSHConfigError)
+    const target = await connect()
+    expect(() => new PSHSyncEngine(target, new PSHHttpTransport('http://sync'))).toThrow(PSHConfigError)
+
+    const notJson = await target.import('{"kind":"header","format":"p-shooter","version":1}\nnope\n').catch(e => e)
+    expect(notJson).toBeInstanceOf(PSHImportError)
+    expect(notJson.line).toBe(2)
+    await expect(target.import('{"kind":"header","format":"other","version":1}\n')).rejects.toBeInstanceOf(PSHImportError)
+
+    const transport = new PSHHttpTransport('http://sync', { fetch: async () => ({ ok: false, status: 503, json: async () => ({}) }) })
+    const failed = await transport.pull({ clientId: 'c', cursor: null, limit: 10 }).catch(e => e)
+    expect(failed).toBeInstanceOf(PSHTransportError)
+    expect(failed).toBeInstanceOf(PSHError)
+    expect(failed.status).toBe(503)
+  })
+})
@@ -0,0 +1,59 @@
+import Pea from '../src/Pea'
+import { connect, tick } from './helpers'
+
+const entry = (collection: string, id: string, expiresAt?: number): Pea => expiresAt === undefined ? { collection, id } : { collection, id, expiresAt }
+const ids = (docs: Pea[]) => docs.map(doc => doc.id).sort()
+
+describe('document expiry', () => {
+  let now = 1_000_000
+
+  beforeEach(() => {
+    now = 1_000_000
+    jest.spyOn(Date, 'now').mockImplementation(() => now)
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('hides documents past their ttl or expiresAt from every read', async () => {
+    const db = await connect({ ttl: { cache: 1000, keep: 0 } })
+    const cache = db.col('cache')
+    const keep = db.col('keep')
+    await cache.save(entry('cache', 'a'))
+    await cache.save(entry('cache', 'b', now + 5000))
+    await cache.save(entry('cache', 'x', now + 100))
+    await keep.save(entry('keep', 'k'))
+    await keep.save(entry('keep', 'k2', now + 10))
+
+    now += 500
+    expect(ids(await cache.find({}))).toEqual(['a', 'b'])
+    expect(await cache.get('x')).toBeNull()
+    expect(await cache.count()).toBe(2)
+
+    now += 600
+    expect(ids(await cache.all())).toEqual(['b'])
+    expect(ids(await keep.all())).toEqual(['k'])
+  })
+
+  it('purges expired documents as deletes that live queries follow', async () => {
+    const db = await connect({ ttl: { cache: 1000 } })
+    const cache = db.col('cache')
+    await cache.save(entry('cache', 'a'))
+    await cache.save(entry('cache', 'b', now + 5000))
+    const seen: string[][] = []
+    const stop = cache.onQuery({}, docs => { seen.push(ids(docs)) })
+    await tick()
+    expect(seen.pop()).toEqual(['a', 'b'])
+
+    now += 1100
+    const deleted: string[] = []
+    cache.on('delete', event => { deleted.push(event.id) })
+    expect(await db.purgeExpired()).toBe(1)
+    expect(deleted).toEqual(['a'])
+    await tick()
+    expect(seen.pop()).toEqual(['b'])
+    expect(await db.sqlDb.count('SELECT count(*) FROM cache')).toBe(1)
+    stop()
+  })
+})
@@ -0,0 +1,71 @@
+import { PSHImportError, PSHImportProgress, PSHIndexing, PSHUniqueViolation } from '../src'
+import Pea from '../src/Pea'
+import { connect } from './helpers'
+
+interface Numbered extends Pea {
+  n: number
+}
+
+const numbered = (collection: string, id: string, n: number): Numbered => ({ collection, id, n })
+
+const collect = async (lines: AsyncGenerator<string>) => {
+  let text = ''
+  for await (const line of lines) text += line
+  return text
+}
+
+const exported = async () => {
+  const db = await connect({ indices: { t: [PSHIndexing.make('n')] } })
+  await db.col<Numbered>('t').saveMany(Array.from({ length: 7 }, (_, i) => numbered('t', `d${i}`, i)))
+  await db.col<Numbered>('u').save(numbered('u', 'u1', 1))
+  return { db, dump: await collect(db.export()) }
+}
+
+describe('PSHExport', () => {
+  it('round-trips a database in chunks, keeping saved dates', async () => {
+    const { db, dump } = await exported()
+    expect(dump.trim().split('\n')).toHaveLength(1 + 2 + 8)
+
+    const into = await connect()
+    await into.col<Numbered>('t').save(numbered('t', 'zz', 100))
+    const progress: PSHImportProgress[] = []
+    const chunks = dump.match(/[\s\S]{1,13}/g)!
+    expect(await into.import(chunks, { batchSize: 3, onProgress: p => progress.push(p) })).toEqual({ count: 8, collections: ['t', 'u'] })
+    expect(progress).toEqual([{ collection: 't', done: 3 }, { collection: 't', done: 6 }, { collection: 't', done: 7 }, { collection: 'u', done: 1 }])
+    expect(await into.col('t').count()).toBe(8)
+    expect((await into.col('t').get('d3'))!.saved).toBe((await db.col('t').get('d3'))!.saved)
+
+    expect((await into.import(dump, { mode: 'replace', collections: ['t'] })).count).toBe(7)
+    expect(await into.col('t').count()).toBe(7)
+  })
+
+  it('imports a collection\'s export into another collection', async () => {
+    const { db } = await exported()
+    const part = await collect(db.col<Numbered>('t').export({ n: ['>=', 5] }))
+    expect(await db.col('v').import(part)).toEqual({ count: 2, collections: ['v'] })
+    expect(await db.col('v').count()).toBe(2)
+  })
+
+  it('reports progress only for batches that were saved', async () => {
+    const { dump } = await exported()
+    const into = await connect({ indices: { t: [PSHIndexing.make({ path: 'n', unique: true })] } })
+    await into.col<Numbered>('t').save(numbered('t', 'taken', 4))
+    const progress: PSHImportProgress[] = []
+    await expect(into.import(dump, { batchSize: 3, onProgress: p => progress.push(p) })).rejects.toBeInstanceOf(PSHUniqueViolation)
+    expect(progress).toEqual([{ collection: 't', done: 3 }])
+    expect(await into.col('t').count()).toBe(4)
+  })
+
+  it('rejects lines that aren\'t records', async () => {
+    const db = await connect()
+    const error = await db.import('{"kind":"header","format":"p-shooter","version":1}\n{"kind":"doc"\n').catch(e => e)
+    expect(error).toBeInstanceOf(PSHImportError)
+    expect(error.message).toMatch(/not JSON/)
+
+    for (const line of ['null', '3', '[]']) {
+      const notObject = await db.import(`{"kind":"header","format":"p-shooter","version":1}\n${line}\n`).catch(e => e)
+      expect(notObject).toBeInstanceOf(PSHImportError)
+      expect(notObject).toMatchObject({ line: 2, message: expect.stringMatching(/line 2 is not a JSON object/) })
+    }
+  })
+})
@@ -0,0 +1,54 @@
+import { PSHDatabase, PSHIndexing, PSHIndexSpec, PSHMemoryAdapter } from '../src'
+import Pea from '../src/Pea'
+
+interface Row extends Pea {
+  a: string
+  b: number
+  c: { d: boolean }
+}
+
+let opened = 0
+
+// reopening by name, with the index config the app now declares
+const opener = () => {
+  const name = `indexing-${++opened}`
+  let db: PSHDatabase|undefined
+  return async (indices: PSHIndexSpec[]) => {
+    if (db) await db.close()
+    return db = await PSHDatabase.connect({ name, config: { adapter: PSHMemoryAdapter.connect, indices: { rows: indices } } })
+  }
+}
+
+const columns = async (db: PSHDatabase) => (await db.describe('rows')).columns.map(column => column.name)
+
+describe('PSHIndexing', () => {
+  it('backfills columns added to the index config and drops removed ones', async () => {
+    const open = opener()
+    let db = await open([PSHIndexing.make('a')])
+    const rows = Array.from({ length: 1200 }, (_, i): Row => ({ collection: 'rows', id: `d${String(i).padStart(4, '0')}`, a: `a${i % 3}`, b: i % 5, c: { d: i % 2 === 0 } }))
+    await db.col<Row>('rows').saveMany(rows)
+
+    db = await open([PSHIndexing.make('a'), PSHIndexing.make({ path: 'b', type: 'INT' }), PSHIndexing.make({ path: 'c.d', type: 'BOOLEAN' })])
+    expect(await columns(db)).toEqual(['id', 'json', 'date', '_version', '_rev', 'a', 'b', 'c__d'])
+    expect(await db.sqlDb.count('SELECT count(*) FROM rows WHERE b = 3')).toBe(240)
+    expect(await db.sqlDb.count('SELECT count(*) FROM rows WHERE c__d = 1')).toBe(600)
+    expect((await db.explain('rows', { b: 3 })).indexed).toEqual(['b'])
+
+    db = await open([PSHIndexing.make({ path: 'b', type: 'INT' })])
+    expect(await columns(db)).toEqual(['id', 'json', 'date', '_version', '_rev', 'b'])
+    const indexes = await db.sqlDb.query<{ name: string }>('PRAGMA index_list(rows)')
+    expect(indexes.map(index => index.name).sort()).toEqual(['rows__b', 'sqlite_autoindex_rows_1'])
+    expect(await db.meta.get('indices.rows')).toEqual([PSHIndexing.make({ path: 'b', type: 'INT' })])
+  })
+
+  it('leaves an unchanged config alone, and forgets it when the collection is dropped', async () => {
+    const open = opener()
+    let db = await open([PSHIndexing.make({ path: 'b', type: 'INT' })])
+    await db.col<Row>('rows').saveMany([{ collection: 'rows', id: 'x', a: 'a', b: 1, c: { d: true } }])
+    db = await open([PSHIndexing.make({ path: 'b', type: 'INT' })])
+    expect(await db.find('rows', { b: 1 })).toHaveLength(1)
+
+    await db.drop('rows')
+    expect(await db.meta.get('indices.rows')).toBeUndefined()
+  })
+})
@@ -0,0 +1,77 @@
+import { PSHIndexing, PSHQueryEvent, setDebug } from '../src'
+import Pea from '../src/Pea'
+import { connect, tick } from './helpers'
+
+interface Note extends Pea {
+  kind?: string
+}
+
+const setUp = async () => {
+  const queries: PSHQueryEvent[] = []
+  const slow: PSHQueryEvent[] = []
+  const db = await connect({
+    indices: { notes: [PSHIndexing.make('kind')] },
+    instrumentation: { onQuery: event => { queries.push(event) }, slowQueryMs: 0, onSlowQuery: event => { slow.push(event) } },
+  })
+  return { db, notes: db.col<Note>('notes'), queries, slow }
+}
+
+describe('PSHInstrumentedAdapter', () => {
+  it('reports every statement with its collection, and slow ones with their plan', async () => {
+    const { notes, queries, slow } = await setUp()
+    await notes.save({ collection: 'notes', id: 'a', kind: 'x' })
+    await notes.find({ kind: 'x' })
+    const find = queries.find(event => event.operation === 'query' && /kind/.test(event.sql))!
+    expect(find).toMatchObject({ collection: 'notes', rows: 1 })
+    expect(queries.some(event => event.operation === 'transaction' && event.collection === 'notes' && /INSERT/.test(event.sql))).toBe(true)
+
+    await tick()
+    const planned = slow.find(event => event.sql === find.sql)!
+    expect(planned.plan![0]).toMatchObject({ operation: 'search', index: 'notes__kind', constraints: ['kind'] })
+  })
+
+  it('keeps per-collection stats, including errors, until reset', async () => {
+    const { db, notes } = await setUp()
+    await notes.save({ collection: 'notes', id: 'a', kind: 'x' })
+    expect(db.stats().notes.statements).toBeGreaterThan(1)
+    await expect(db.sqlDb.query('SELECT * FROM "notes" WHERE nope = 1')).rejects.toBeTruthy()
+    expect(db.stats().notes.errors).toBe(1)
+    db.resetStats()
+    expect(db.stats()).toEqual({})
+  })
+
+  it('explains a query as typed plan steps', async () => {
+    const { db } = await setUp()
+    const explained = await db.explain('notes', { kind: 'x' })
+    expect(explained.steps[0]).toMatchObject({ operation: 'search', table: 'notes' })
+  })
+
+  it('logs to each database\'s own logger while debugging', async () => {
+    const recorder = (lines: unknown[][]) => {
+      const record = (...args: unknown[]) => { lines.push(args) }
+      return { log: record, warn: record, error: record }
+    }
+    const lines: unknown[][] = []
+    const otherLines: unknown[][] = []
+    const logged = await connect({ logger: recorder(lines) })
+    const other = await connect({ logger: recorder(otherLines) })
+    setDebug(true)
+    try {
+      await other.col<Note>('notes').save({ collection: 'notes', id: 'a' })
+      expect(otherLines.length).toBeGreaterThan(0)
+      expect(lines).toEqual([])
+      await logged.col<Note>('notes').save({ collection: 'notes', id: 'b' })
+      await logged.sqlDb.tables()
+    } finally {
+      setDebug(false)
+    }
+    expect(lines.length).toBeGreaterThan(0)
+  })
+
+  it('times listing tables like any other statement', async () => {
+    const { db, queries } = await setUp()
+    queries.length = 0
+    expect(await db.sqlDb.tables()).toContain('notes')
+    expect(queries.filter(event => /sqlite_schema/.test(event.sql))).toMatchObject([{ operation: 'query' }])
+  })
+})
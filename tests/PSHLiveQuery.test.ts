@@ -0,0 +1,97 @@
+import { PSHIndexing, PSHQueryDelta } from '../src'
+import Pea from '../src/Pea'
+import { connect, tick } from './helpers'
+
+interface Item extends Pea {
+  s: string
+  n: number
+}
+
+const item = (id: string, s: string, n: number): Item => ({ collection: 'items', id, s, n })
+const ids = (docs: Pea[]) => docs.map(doc => doc.id)
+
+describe('PSHLiveQuery', () => {
+  it('applies writes and deletes incrementally, with deltas', async () => {
+    const db = await connect({ indices: { items: [PSHIndexing.make('s')] } })
+    const items = db.col<Item>('items')
+    for (let n = 0; n < 5; n++) await items.save(item(`d${n}`, n % 2 ? 'a' : 'b', n))
+    const calls: Array<[string[], PSHQueryDelta<Item>]> = []
+    const stop = items.onQuery({ s: 'a' }, (results, delta) => { calls.push([ids(results), delta]) }, { orderBy: 'n' })
+    await tick()
+    expect(calls.pop()![0]).toEqual(['d1', 'd3'])
+
+    await items.save(item('d1', 'b', 1))
+    await tick()
+    const [left, leaving] = calls.pop()!
+    expect(left).toEqual(['d3'])
+    expect(ids(leaving.removed)).toEqual(['d1'])
+
+    await items.delete('d3')
+    await tick()
+    expect(calls.pop()![0]).toEqual([])
+
+    const tx = db.transaction()
+    tx.add(items, item('x1', 'a', 9))
+    tx.add(items, item('x2', 'a', 8))
+    await tx.execute()
+    await tick()
+    expect(calls).toHaveLength(1)
+    expect(calls.pop()![0]).toEqual(['x2', 'x1'])
+
+    await items.save(item('x1', 'a', 1))
+    await tick()
+    const [moved, delta] = calls.pop()!
+    expect(moved).toEqual(['x1', 'x2'])
+    expect(ids(delta.changed)).toEqual(['x1'])
+    expect(delta.moved.map(move => move.id)).toEqual(['x1', 'x2'])
+
+    await items.wipe()
+    await tick()
+    expect(calls.pop()![0]).toEqual([])
+
+    stop()
+    await items.save(item('z', 'a', 0))
+    await tick()
+    expect(calls).toHaveLength(0)
+  })
+
+  it('re-runs windowed queries when a change touches the window', async () => {
+    const db = await connect()
+    const items = db.col<Item>('items')
+    for (let n = 0; n < 6; n++) await items.save(item(`w${n}`, 'a', n))
+    const calls: string[][] = []
+    const stop = items.onQuery({ s: 'a' }, results => { calls.push(ids(results)) }, { orderBy: 'n', limit: 2 })
+    await tick()
+    expect(calls.pop()).toEqual(['w0', 'w1'])
+    await items.delete('w0')
+    await tick()
+    expect(calls.pop()).toEqual(['w1', 'w2'])
+    stop()
+  })
+
+  it('gives written documents their saved date, for queries on it', async () => {
+    const db = await connect()
+    const items = db.col<Item>('items')
+    const since = Date.now() - 1
+    await items.save(item('old', 'a', 0))
+    const calls: string[][] = []
+    const stop = items.onQuery({ saved: ['>', since] }, results => { calls.push(ids(results)) }, { orderBy: 'saved' })
+    await tick()
+    expect(calls.pop()).toEqual(['old'])
+    await tick(5)
+    await items.save(item('new', 'a', 1))
+    await tick()
+    expect(calls.pop()).toEqual(['old', 'new'])
+    stop()
+  })
+
+  it('reports errors of the initial read', async () => {
+    const db = await connect()
+    const errors: Error[] = []
+    db.col('missing').onQuery({ x: 1 }, () => undefined, undefined, error => { errors.push(error) })
+    await tick()
+    await db.drop('missing')
+    await tick()
+    expect(errors).toHaveLength(1)
+  })
+})
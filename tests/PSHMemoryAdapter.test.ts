@@ -0,0 +1,103 @@
+import { PSHIndexing, PSHMemoryAdapter } from '../src'
+import Pea from '../src/Pea'
+import { connect } from './helpers'
+
+interface Thing extends Pea {
+  status: string
+  meta: { rank: number }
+}
+
+let opened = 0
+const open = () => PSHMemoryAdapter.connect({ name: `memory-${++opened}` })
+
+describe('PSHMemoryAdapter', () => {
+  it('runs the SQLite dialect the database emits', async () => {
+    const adapter = await open()
+    const create = 'CREATE TABLE IF NOT EXISTS t (id VARCHAR(32) PRIMARY KEY, json TEXT NOT NULL, date INTEGER NOT NULL)'
+    await adapter.run(create)
+    await adapter.run(create)
+    expect(await adapter.try('ALTER TABLE t ADD COLUMN status')).toBe(true)
+    expect(await adapter.try('ALTER TABLE t ADD COLUMN status')).toBe(false)
+    await adapter.run('CREATE UNIQUE INDEX IF NOT EXISTS status ON t (status)')
+
+    const upsert = 'INSERT INTO t (id, json, date, status) VALUES (?, ?, ?, ?) ON CONFLICT DO UPDATE SET json = ?, date = ?, status = ?'
+    await adapter.run(upsert, ['a', '{"n":1}', 1, 'open', '{"n":1}', 1, 'open'])
+    await adapter.run(upsert, ['a', '{"n":2}', 2, 'closed', '{"n":2}', 2, 'closed'])
+    await adapter.run(upsert, ['b', '{"n":3}', 3, 'open', '{"n":3}', 3, 'open'])
+    expect(await adapter.query('SELECT id FROM t WHERE status = ?', ['open'])).toEqual([{ id: 'b' }])
+    await expect(adapter.run('INSERT INTO t (id, json, date, status) VALUES (?, ?, ?, ?)', ['d', '{}', 1, 'open']))
+      .rejects.toMatchObject({ message: 'UNIQUE constraint failed: t.status' })
+
+    expect(await adapter.count('SELECT count(*) FROM t')).toBe(2)
+    expect(await adapter.tables()).toEqual(['t'])
+    expect((await adapter.describe('t')).columns.map(column => column.name)).toEqual(['id', 'json', 'date', 'status'])
+    expect(await adapter.query("SELECT json_extract(json, '$.n') AS n FROM t ORDER BY n DESC")).toEqual([{ n: 3 }, { n: 2 }])
+    expect(await adapter.query("SELECT id FROM t WHERE EXISTS (SELECT 1 FROM json_each(t.json, '$.n') WHERE value = ?)", [3])).toEqual([{ id: 'b' }])
+    expect(await adapter.query('EXPLAIN QUERY PLAN SELECT id FROM t WHERE status = ?', ['x']))
+      .toEqual([expect.objectContaining({ detail: 'SEARCH t USING INDEX status (status=?)' })])
+  })
+
+  it('runs statements queued from callbacks and rolls a failed transaction back', async () => {
+    const adapter = await open()
+    await adapter.run('CREATE TABLE t (id INTEGER PRIMARY KEY AUTOINCREMENT, v TEXT UNIQUE)')
+    await expect(adapter.transaction(tx => {
+      tx.executeSql('INSERT INTO t (v) VALUES (?)', ['a'])
+      tx.executeSql('INSERT INTO t (v) VALUES (?)', ['a'])
+    })).rejects.toBeTruthy()
+    expect(await adapter.count('SELECT count(*) FROM t')).toBe(0)
+
+    await adapter.transaction(tx => {
+      tx.executeSql('INSERT INTO t (v) VALUES (?)', ['a'], (tx, results) => {
+        tx.executeSql('INSERT INTO t (v) VALUES (?)', [`b${results.insertId}`])
+      })
+    })
+    expect(await adapter.query('SELECT * FROM t ORDER BY id')).toEqual([{ id: 1, v: 'a' }, { id: 2, v: 'b1' }])
+  })
+
+  it('restores only what a failed transaction changed, after earlier ones committed', async () => {
+    const adapter = await open()
+    await adapter.run('CREATE TABLE a (id TEXT PRIMARY KEY, v INTEGER)')
+    await adapter.run('CREATE TABLE b (id TEXT PRIMARY KEY, v INTEGER)')
+    await adapter.transaction(tx => {
+      tx.executeSql('INSERT INTO a (id, v) VALUES (?, ?)', ['x', 1])
+      tx.executeSql('INSERT INTO b (id, v) VALUES (?, ?)', ['x', 1])
+    })
+    await adapter.run('UPDATE a SET v = ? WHERE id = ?', [2, 'x'])
+
+    await expect(adapter.transaction(tx => {
+      tx.executeSql('UPDATE a SET v = ? WHERE id = ?', [3, 'x'])
+      tx.executeSql('DELETE FROM b')
+      tx.executeSql('ALTER TABLE b RENAME TO c')
+      tx.executeSql('INSERT INTO a (id, v) VALUES (?, ?)', ['x', 4])
+    })).rejects.toBeTruthy()
+    expect(await adapter.query('SELECT id, v FROM a')).toEqual([{ id: 'x', v: 2 }])
+    expect(await adapter.query('SELECT id, v FROM b')).toEqual([{ id: 'x', v: 1 }])
+    expect(await adapter.tables()).toEqual(['a', 'b'])
+
+    await adapter.run('INSERT INTO b (id, v) VALUES (?, ?)', ['y', 2])
+    expect(await adapter.query('SELECT id FROM b WHERE id = ?', ['y'])).toEqual([{ id: 'y' }])
+  })
+
+  it('keeps databases by name until they are dropped', async () => {
+    const name = `memory-${++opened}`
+    const first = await PSHMemoryAdapter.connect({ name })
+    await first.run('CREATE TABLE t (id TEXT PRIMARY KEY)')
+    expect(await (await PSHMemoryAdapter.connect({ name })).tables()).toEqual(['t'])
+    await first.drop()
+    expect(await (await PSHMemoryAdapter.connect({ name })).tables()).toEqual([])
+  })
+
+  it('backs a database with indexes on nested paths', async () => {
+    const db = await connect({ indices: { things: [PSHIndexing.make('status'), PSHIndexing.make({ path: 'meta.rank', type: 'INT' })] } })
+    const things = db.col<Thing>('things')
+    await things.save({ collection: 'things', id: 'a', status: 'open', meta: { rank: 2 } })
+    await things.save({ collection: 'things', id: 'b', status: 'closed', meta: { rank: 1 } })
+    expect((await things.find({ status: 'open' })).map(thing => thing.id)).toEqual(['a'])
+    expect((await things.find({ 'meta.rank': ['>', 1] })).map(thing => thing.id)).toEqual(['a'])
+    await things.update('a', { status: 'closed' })
+    expect(await things.count({ status: 'closed' })).toBe(2)
+    await things.delete('a')
+    expect(await things.get('a')).toBeNull()
+    expect(db.dbName).toMatch(/\.db$/)
+  })
+})
@@ -0,0 +1,60 @@
+import { PSHConfigError, PSHDatabase, PSHDatabaseConfig, PSHMemoryAdapter, PSHMigrationProgress, PSHUpgrade } from '../src'
+import Pea from '../src/Pea'
+
+interface Book extends Pea {
+  name?: string
+  title?: string
+}
+
+let opened = 0
+
+// reopening by name, as an app update would with new migrations
+const opener = () => {
+  const name = `migrations-${++opened}`
+  let db: PSHDatabase|undefined
+  return async (config: PSHDatabaseConfig = {}) => {
+    if (db) await db.close()
+    return db = await PSHDatabase.connect({ name, config: { adapter: PSHMemoryAdapter.connect, ...config } })
+  }
+}
+
+const upgrades: PSHUpgrade[] = [
+  ({ name, ...book }: Book): Book => ({ ...book, title: name }),
+  (book: Book): Book => ({ ...book, title: book.title!.toUpperCase() }),
+]
+
+const books = (count: number) => Array.from({ length: count }, (_, i): Book => ({ collection: 'books', id: `d${String(i).padStart(4, '0')}`, name: `n${i}` }))
+
+describe('PSHMigrations', () => {
+  it('upgrades lazily as documents are read, then eagerly in batches with progress', async () => {
+    const open = opener()
+    let db = await open()
+    await db.col<Book>('books').saveMany(books(1100))
+
+    db = await open({ migrations: { books: { version: 1, upgrades, strategy: 'lazy' } } })
+    expect(await db.get('books', 'd0005')).toMatchObject({ id: 'd0005', title: 'n5' })
+    expect(await db.sqlDb.count('SELECT count(*) FROM books WHERE _version = 1')).toBe(0)
+    await db.col<Book>('books').save({ collection: 'books', id: 'x', title: 'fresh' })
+
+    const progress: PSHMigrationProgress[] = []
+    const { saved } = (await db.get('books', 'd0005'))!
+    db = await open({ migrations: { books: { version: 2, upgrades } }, onMigrationProgress: p => progress.push(p), oplog: true })
+    expect(progress.map(p => p.done)).toEqual([0, 500, 1000, 1101])
+    expect(progress[0]).toMatchObject({ collection: 'books', version: 2, total: 1101 })
+    expect(await db.get('books', 'd0005')).toMatchObject({ title: 'N5', rev: 1, saved })
+    expect(await db.oplog!.changesSince(0)).toEqual([])
+    expect(await db.get<Book>('books', 'd0005')).not.toHaveProperty('name')
+    expect(await db.get('books', 'x')).toMatchObject({ title: 'FRESH' })
+    expect(await db.sqlDb.count('SELECT count(*) FROM books WHERE _version = 2')).toBe(1101)
+    expect(await db.meta.get('version.books')).toBe(2)
+
+    progress.length = 0
+    db = await open({ migrations: { books: { version: 2, upgrades } }, onMigrationProgress: p => progress.push(p) })
+    expect(progress).toEqual([])
+  })
+
+  it('refuses a version without an upgrade to reach it', async () => {
+    const open = opener()
+    await expect(open({ migrations: { books: { version: 3, upgrades } } })).rejects.toBeInstanceOf(PSHConfigError)
+  })
+})
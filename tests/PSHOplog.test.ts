@@ -0,0 +1,64 @@
+import { PSHChange, PSHConflictError } from '../src'
+import Pea from '../src/Pea'
+import { connect } from './helpers'
+
+interface Note extends Pea {
+  text: string
+}
+
+const note = (collection: string, id: string, text: string): Note => ({ collection, id, text })
+const summary = (changes: PSHChange[]) => changes.map(({ col, id, type }) => `${type} ${col}/${id}`)
+
+describe('PSHOplog', () => {
+  it('records local writes and deletes in commit order', async () => {
+    const db = await connect({ oplog: true })
+    const notes = db.col<Note>('notes')
+    await notes.save(note('notes', 'a', 'one'))
+    await notes.save(note('notes', 'b', 'two'))
+    await db.col<Note>('drafts').save(note('drafts', 'd', 'draft'))
+    await notes.delete('a')
+
+    const changes = await db.oplog!.changesSince(0)
+    expect(summary(changes)).toEqual(['write notes/a', 'write notes/b', 'write drafts/d', 'delete notes/a'])
+    expect(changes[0].data).toMatchObject({ id: 'a', text: 'one' })
+    expect(changes[3].data).toBeUndefined()
+    expect(summary(await db.oplog!.changesSince(changes[0].seq, 2, ['notes']))).toEqual(['write notes/b', 'delete notes/a'])
+  })
+
+  it('leaves out failed transactions and remote writes', async () => {
+    const db = await connect({ oplog: true })
+    const notes = db.col<Note>('notes')
+    await notes.save(note('notes', 'a', 'one'))
+    await expect(notes.save(note('notes', 'a', 'stale'), { expectedRev: 0 })).rejects.toBeInstanceOf(PSHConflictError)
+
+    const remote = db.transaction({ remote: true })
+    remote.save(notes, note('notes', 'r', 'pulled'))
+    await remote.execute()
+    expect(await notes.get('r')).toMatchObject({ text: 'pulled' })
+    expect(summary(await db.oplog!.changesSince(0))).toEqual(['write notes/a'])
+  })
+
+  it('records a delete for each document of a wiped collection', async () => {
+    const db = await connect({ oplog: true })
+    const notes = db.col<Note>('notes')
+    await notes.saveMany([note('notes', 'a', 'one'), note('notes', 'b', 'two')])
+    const last = await db.oplog!.lastSeq()
+    await notes.wipe()
+    expect(summary(await db.oplog!.changesSince(last)).sort()).toEqual(['delete notes/a', 'delete notes/b'])
+  })
+
+  it('never reuses sequence numbers after truncating', async () => {
+    const db = await connect({ oplog: true })
+    const notes = db.col<Note>('notes')
+    await notes.save(note('notes', 'a', 'one'))
+    await notes.save(note('notes', 'b', 'two'))
+    const last = await db.oplog!.lastSeq()
+    await db.oplog!.truncate(last)
+    expect(await db.oplog!.changesSince(0)).toEqual([])
+
+    await notes.save(note('notes', 'c', 'three'))
+    const [next] = await db.oplog!.changesSince(0)
+    expect(next.seq).toBe(last + 1)
+    expect(await db.oplog!.lastSeq()).toBe(last + 1)
+  })
+})
@@ -0,0 +1,55 @@
+import { applyQueryOptions, matchesQuery, PSHDatabaseQuery, PSHIndexing, PSHQueryOptions } from '../src'
+import Pea from '../src/Pea'
+import { connect } from './helpers'
+
+interface Entry extends Pea {
+  rank: number
+  meta: { kind: string, depth: number, flag: boolean }
+  tags?: string[]
+  title: string
+}
+
+const entries = Array.from({ length: 30 }, (_, i): Entry => {
+  const entry: Entry = { collection: 'entries', id: `d${i}`, rank: i % 7, meta: { kind: ['a', 'b', 'c'][i % 3], depth: i % 4, flag: i % 2 === 0 }, title: `Title ${i}` }
+  if (i % 5 !== 0) entry.tags = [`t${i % 3}`, `t${i % 4}`]
+  return entry
+})
+
+const setUp = async () => {
+  const db = await connect({ indices: { entries: [PSHIndexing.make('meta.kind'), PSHIndexing.make({ path: 'rank', type: 'INT' })] } })
+  await db.col<Entry>('entries').saveMany(entries)
+  return db
+}
+
+const comparable = (docs: Entry[]) => docs.map(({ saved, rev, collection, ...rest }) => rest)
+
+// queries are untyped here, since some reach into array elements by index
+const cases: Array<[string, PSHDatabaseQuery, PSHQueryOptions]> = [
+  ['an indexed nested path', { 'meta.kind': 'a' }, { orderBy: 'id' }],
+  ['a nested path, also to order by', { 'meta.depth': ['>', 1] }, { orderBy: 'meta.depth' }],
+  ['an array containing a value', { tags: 't1' }, { orderBy: ['title', 'desc'] }],
+  ['an array containing one of the values', { tags: ['in', ['t0', 't3']] }, { orderBy: 'rank' }],
+  ['an array containing none of the values', { tags: ['not in', ['t0', 't3']] }, { orderBy: 'rank' }],
+  ['an array without a value', { tags: ['!=', 't2'] }, { orderBy: 'rank' }],
+  ['a boolean alongside an indexed range', { 'meta.flag': true, rank: ['<', 4] }, { orderBy: [['meta.depth', 'desc']] }],
+  ['a negated nested path', { $not: { 'meta.depth': 2 } }, { orderBy: 'id' }],
+  ['like, projecting nested paths', { title: ['like', 'title 1%'] }, { orderBy: 'title', fields: ['meta.kind', 'title'] }],
+  ['an array element', { 'tags.0': 't0' }, { orderBy: 'id' }],
+  ['a path no document has', { missing: null }, { orderBy: 'id', limit: 4 }],
+]
+
+describe('queries on JSON paths', () => {
+  it.each(cases)('finds in SQL what matches in memory: %s', async (_, query, options) => {
+    const db = await setUp()
+    const expected = applyQueryOptions(entries.filter(entry => matchesQuery(entry, query)), options)
+    expect(comparable(await db.find<Entry>('entries', query, options))).toEqual(comparable(expected))
+  })
+
+  it('explains which fields an index serves and which are scanned', async () => {
+    const db = await setUp()
+    const mixed = await db.explain('entries', { 'meta.kind': 'a', title: 'x' })
+    expect(mixed.indexed).toEqual(['meta.kind'])
+    expect(mixed.scanned).toEqual(['title'])
+    expect((await db.explain('entries', { rank: 3 })).indexed).toEqual(['rank'])
+  })
+})
@@ -0,0 +1,123 @@
+import { PSHQueryEvent, PSHRef, PSHRefData, PSHUndoStack } from '../src'
+import Pea from '../src/Pea'
+import { connect } from './helpers'
+
+interface User extends Pea {
+  name: string
+}
+
+interface Folder extends Pea {
+  owner?: PSHRef|PSHRefData
+}
+
+interface Note extends Pea {
+  author?: PSHRef|PSHRefData|User|null
+  folder?: PSHRef|PSHRefData|Folder|null
+  also?: Array<PSHRef|PSHRefData|User|null>
+}
+
+interface Comment extends Pea {
+  note: PSHRef|PSHRefData
+}
+
+const refs = {
+  notes: { author: { to: 'users', onDelete: 'cascade' as const }, folder: { to: 'folders', onDelete: 'restrict' as const } },
+  comments: { note: { to: 'notes', onDelete: 'cascade' as const } },
+  folders: { owner: { to: 'users' } },
+}
+
+const setUp = async () => {
+  const db = await connect({ refs })
+  const [users, folders, notes, comments] = [db.col<User>('users'), db.col<Folder>('folders'), db.col<Note>('notes'), db.col<Comment>('comments')]
+  await users.save({ collection: 'users', id: 'u1', name: 'Ann' })
+  await folders.save({ collection: 'folders', id: 'f1', owner: users.ref('u1') })
+  await notes.save({ collection: 'notes', id: 'n1', author: users.ref('u1'), folder: folders.ref('f1'), also: [users.ref('u1'), users.ref('gone')] })
+  await notes.save({ collection: 'notes', id: 'n2', author: { collection: 'users', id: 'u2' } })
+  await comments.save({ collection: 'comments', id: 'c1', note: notes.ref('n1') })
+  return { db, users, folders, notes, comments }
+}
+
+describe('PSHRefs', () => {
+  it('stores references and populates them to the requested depth', async () => {
+    const { notes } = await setUp()
+    expect((await notes.get('n1'))!.author).toEqual({ collection: 'users', id: 'u1' })
+
+    const populated = await notes.get('n1', { populate: true })
+    expect(populated!.author).toMatchObject({ name: 'Ann' })
+    expect(populated!.folder).toMatchObject({ owner: { collection: 'users', id: 'u1' } })
+    expect((await notes.get('n1', { populate: { depth: 2 } }))!.folder).toMatchObject({ owner: { name: 'Ann' } })
+
+    const [withAlso] = await notes.find({ id: 'n1' }, { populate: ['also'] })
+    expect(withAlso.also).toEqual([expect.objectContaining({ name: 'Ann' }), null])
+    expect((await notes.find({ id: 'n2' }, { populate: { missing: 'keep' } }))[0].author).toEqual({ collection: 'users', id: 'u2' })
+    await expect(notes.find({ id: 'n2' }, { populate: { missing: 'error' } })).rejects.toThrow(/missing users\/u2/)
+  })
+
+  it('loads many referenced documents in batches of bound parameters', async () => {
+    const queries: PSHQueryEvent[] = []
+    const db = await connect({ refs, instrumentation: { onQuery: event => queries.push(event) } })
+    const users = db.col<User>('users')
+    const tx = db.transaction()
+    for (let i = 0; i < 1200; i++) {
+      tx.save(users, { collection: 'users', id: `u${i}`, name: `${i}` })
+    }
+    await tx.execute()
+    const notes = Array.from({ length: 1200 }, (_, i): Note => ({ collection: 'notes', id: `n${i}`, author: { collection: 'users', id: `u${i}` } }))
+
+    queries.length = 0
+    const populated = await db.populate('notes', notes, true)
+    expect(populated.map(note => (note.author as User).name)).toEqual(notes.map((_, i) => `${i}`))
+    const lookups = queries.filter(event => event.collection === 'users')
+    expect(lookups).toHaveLength(3)
+    lookups.forEach(event => expect(event.args.length).toBeLessThan(999))
+  })
+
+  it('finds referring documents, restricts and cascades deletes, and undoes a cascade', async () => {
+    const { db, users, folders, notes, comments } = await setUp()
+    const back = await db.refsTo(users.ref('u1'))
+    expect(back.map(({ collection, path, doc }) => `${collection}:${path}:${doc.id}`).sort()).toEqual(['folders:owner:f1', 'notes:author:n1'])
+    expect((await notes.refsTo({ collection: 'users', id: 'u1' })).map(doc => doc.id)).toEqual(['n1'])
+    expect((await db.explain('notes', { 'author.id': 'u1' })).indexed).toEqual(['author.id'])
+
+    await expect(folders.delete('f1')).rejects.toThrow(/still refers/)
+    expect(await folders.get('f1')).not.toBeNull()
+
+    const stack = new PSHUndoStack(db)
+    const tx = stack.transaction()
+    tx.delete(users, 'u1')
+    await tx.execute()
+    expect(await notes.get('n1')).toBeNull()
+    expect(await comments.get('c1')).toBeNull()
+    expect(await folders.get('f1')).not.toBeNull()
+
+    await stack.undo()
+    expect(await notes.get('n1')).not.toBeNull()
+    expect(await comments.get('c1')).not.toBeNull()
+    expect(await users.get('u1')).not.toBeNull()
+  })
+
+  it('refuses to wipe or drop a collection that restricting references still point into', async () => {
+    const { db, folders, notes } = await setUp()
+    await expect(folders.wipe()).rejects.toThrow(/notes\/n1 still refers to .*folders by folder/)
+    await expect(folders.drop()).rejects.toThrow(/still refers/)
+    expect(await folders.get('f1')).not.toBeNull()
+
+    await notes.update('n1', { folder: null })
+    await folders.wipe()
+    expect(await db.find('folders', {})).toEqual([])
+  })
+})
+
+describe('PSHDelete', () => {
+  it('leaves a delete of a missing document out of events and the oplog', async () => {
+    const db = await connect({ oplog: true })
+    const users = db.col<User>('users')
+    await users.save({ collection: 'users', id: 'u1', name: 'Ann' })
+    const deleted: string[] = []
+    users.on('delete', event => deleted.push(event.id))
+    await users.delete('nobody')
+    await users.delete('u1')
+    expect(deleted).toEqual(['u1'])
+    expect((await db.oplog!.changesSince(0)).map(({ type, id }) => `${type} ${id}`)).toEqual(['write u1', 'delete u1'])
+  })
+})
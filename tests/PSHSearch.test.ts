@@ -0,0 +1,73 @@
+import { PSHDatabase, PSHIndexing, PSHMemoryAdapter } from '../src'
+import Pea from '../src/Pea'
+import { connect, tick } from './helpers'
+
+interface Note extends Pea {
+  title: string
+  body?: string
+  n: number
+}
+
+const note = (id: string, title: string, body: string|undefined, n: number): Note => body === undefined ? { collection: 'notes', id, title, n } : { collection: 'notes', id, title, body, n }
+
+const setUp = async () => {
+  const db = await connect({ indices: { notes: [PSHIndexing.fulltext('title', 'body'), PSHIndexing.make('n')] } })
+  const notes = db.col<Note>('notes')
+  await notes.save(note('a', 'Grocery list', 'buy apples and pears', 1))
+  await notes.save(note('b', 'Apples', 'apple pie recipe with apples', 2))
+  await notes.save(note('c', 'Meeting', 'discuss the roadmap', 3))
+  return notes
+}
+
+describe('PSHSearch', () => {
+  it('ranks matches, with snippets, by prefix and within fields', async () => {
+    const notes = await setUp()
+    const results = await notes.search('apples')
+    expect(results.map(result => result.doc.id)).toEqual(['b', 'a'])
+    expect(results[0].score).toBeGreaterThan(results[1].score)
+    expect(results[1].snippet).toContain('<b>apples</b>')
+
+    expect(await notes.search('app')).toHaveLength(2)
+    expect(await notes.search('app ')).toHaveLength(0)
+    expect((await notes.search('apples', { fields: ['title'] })).map(result => result.doc.id)).toEqual(['b'])
+    expect(await notes.search('  "" ')).toEqual([])
+    await expect(notes.search('x', { fields: ['nope'] })).rejects.toThrow()
+  })
+
+  it('keeps the index and live searches in step with writes', async () => {
+    const notes = await setUp()
+    const seen: string[][] = []
+    const stop = notes.onSearch('roadmap', results => { seen.push(results.map(result => result.doc.id).sort()) })
+    await tick()
+    expect(seen).toEqual([['c']])
+
+    await notes.save(note('a', 'Roadmap', 'q3', 1))
+    await tick()
+    expect(seen.pop()).toEqual(['a', 'c'])
+    await notes.delete('c')
+    await tick()
+    expect(seen.pop()).toEqual(['a'])
+    expect((await notes.search('apples')).map(result => result.doc.id)).toEqual(['b'])
+
+    // scores depend on the whole collection, so any write re-ranks
+    await notes.save(note('z', 'unrelated', undefined, 9))
+    await tick()
+    expect(seen.pop()).toEqual(['a'])
+    stop()
+    await notes.save(note('y', 'roadmap', undefined, 8))
+    await tick()
+    expect(seen).toEqual([['c']])
+
+    await notes.wipe()
+    expect(await notes.search('apples')).toEqual([])
+  })
+
+  it('indexes documents saved before the full-text index was declared', async () => {
+    const name = 'search-backfill'
+    const before = await PSHDatabase.connect({ name, config: { adapter: PSHMemoryAdapter.connect } })
+    await before.col('tagged').save({ collection: 'tagged', id: 'a', tags: ['red', 'blue'] } as Pea)
+    await before.close()
+    const after = await PSHDatabase.connect({ name, config: { adapter: PSHMemoryAdapter.connect, indices: { tagged: [PSHIndexing.fulltext('tags')] } } })
+    expect((await after.col('tagged').search('blue')).map(result => result.doc.id)).toEqual(['a'])
+  })
+})
@@ -0,0 +1,119 @@
+import { PSHConfigError, PSHHttpTransport, PSHIndexing, PSHMemorySyncServer, PSHSyncChange, PSHSyncEngine, PSHTransportError, PSHUniqueViolation } from '../src'
+import Pea from '../src/Pea'
+import { connect } from './helpers'
+
+interface User extends Pea {
+  email: string
+  n?: number
+}
+
+const user = (id: string, email: string, n?: number): User => n === undefined ? { collection: 'users', id, email } : { collection: 'users', id, email, n }
+const ids = (docs: Pea[]) => docs.map(doc => doc.id).sort()
+
+describe('PSHSyncEngine', () => {
+  it('pushes the oplog and pulls the other clients\' changes as remote writes', async () => {
+    const server = new PSHMemorySyncServer()
+    const a = await connect({ oplog: true })
+    const b = await connect({ oplog: true })
+    const syncA = new PSHSyncEngine(a, server, { batchSize: 2 })
+    const syncB = new PSHSyncEngine(b, server, { batchSize: 2 })
+    await a.col<User>('users').save(user('x', 'x@p', 1))
+    await a.col<User>('users').save(user('y', 'y@p', 2))
+    await a.col<User>('users').save(user('z', 'z@p', 3))
+    await a.col<User>('users').delete('z')
+
+    expect(await syncA.sync()).toEqual({ pushed: 4, pulled: 0 })
+    expect(await a.oplog!.changesSince(0)).toEqual([])
+
+    const remote: Array<boolean|undefined> = []
+    b.col<User>('users').on('write', event => { remote.push(event.remote) })
+    expect(await syncB.sync()).toEqual({ pushed: 0, pulled: 4 })
+    expect(ids(await b.col<User>('users').all())).toEqual(['x', 'y'])
+    expect(remote).toEqual([true, true, true])
+    expect(await b.oplog!.changesSince(0)).toEqual([])
+
+    await b.col<User>('users').update('x', { n: 10 })
+    await syncB.sync()
+    await syncA.sync()
+    expect((await a.col<User>('users').get('x'))!.n).toBe(10)
+    expect(await syncA.sync()).toEqual({ pushed: 0, pulled: 0 })
+  })
+
+  it('skips pulled changes that break a local unique index and moves past them', async () => {
+    const indices = { users: [PSHIndexing.make({ path: 'email', unique: true })] }
+    const server = new PSHMemorySyncServer()
+    const a = await connect({ oplog: true, indices })
+    const b = await connect({ oplog: true, indices })
+    await a.col<User>('users').save(user('a1', 'same@p'))
+    await a.col<User>('users').save(user('a2', 'a2@p'))
+    await b.col<User>('users').save(user('b1', 'same@p'))
+    await new PSHSyncEngine(a, server).sync()
+
+    const rejected: Array<[PSHSyncChange, PSHUniqueViolation]> = []
+    const syncB = new PSHSyncEngine(b, server, { onReject: (change, error) => rejected.push([change, error]) })
+    expect(await syncB.sync()).toEqual({ pushed: 1, pulled: 2 })
+    expect(ids(await b.col<User>('users').all())).toEqual(['a2', 'b1'])
+    expect(rejected.map(([change, error]) => [change.id, error.conflictingId])).toEqual([['a1', 'b1']])
+
+    await a.col<User>('users').save(user('a3', 'a3@p'))
+    await new PSHSyncEngine(a, server).sync()
+    expect(await syncB.sync()).toEqual({ pushed: 0, pulled: 1 })
+    expect(ids(await b.col<User>('users').all())).toEqual(['a2', 'a3', 'b1'])
+    expect(rejected).toHaveLength(1)
+  })
+
+  it('leaves the changes of collections it doesn\'t sync for an engine that does', async () => {
+    const server = new PSHMemorySyncServer()
+    const a = await connect({ oplog: true })
+    const b = await connect({ oplog: true })
+    await a.save('notes', { collection: 'notes', id: 'n1' })
+    await a.save('tasks', { collection: 'tasks', id: 't1' })
+    await a.save('notes', { collection: 'notes', id: 'n2' })
+
+    expect(await new PSHSyncEngine(a, server, { collections: ['notes'] }).sync()).toEqual({ pushed: 2, pulled: 0 })
+    expect((await a.oplog!.changesSince(0)).map(change => change.id)).toEqual(['t1'])
+    expect(await new PSHSyncEngine(a, server, { collections: ['tasks'] }).sync()).toEqual({ pushed: 1, pulled: 0 })
+    expect(await a.oplog!.changesSince(0)).toEqual([])
+
+    expect(await new PSHSyncEngine(b, server, { collections: ['tasks'] }).sync()).toEqual({ pushed: 0, pulled: 1 })
+    expect(await new PSHSyncEngine(b, server, { collections: ['notes'] }).sync()).toEqual({ pushed: 0, pulled: 2 })
+    expect(ids(await b.find('notes', {}))).toEqual(['n1', 'n2'])
+  })
+
+  it('needs the oplog', async () => {
+    const db = await connect()
+    expect(() => new PSHSyncEngine(db, new PSHMemorySyncServer())).toThrow(PSHConfigError)
+  })
+})
+
+describe('PSHHttpTransport', () => {
+  it('posts requests as JSON to the endpoint under its url', async () => {
+    const posted: Array<[string, string]> = []
+    const fetch = async (url: string, init: { body: string }) => {
+      posted.push([url, init.body])
+      return { ok: true, status: 200, json: async () => ({ changes: [], cursor: '1' }) }
+    }
+    const transport = new PSHHttpTransport('https://sync.test/', { fetch })
+    await transport.push({ clientId: 'c', changes: [] })
+    expect(await transport.pull({ clientId: 'c', cursor: null, limit: 10 })).toEqual({ changes: [], cursor: '1', more: false })
+    expect(posted).toEqual([
+      ['https://sync.test/push', '{"clientId":"c","changes":[]}'],
+      ['https://sync.test/pull', '{"clientId":"c","cursor":null,"limit":10}'],
+    ])
+  })
+
+  it('refuses a pull response of the wrong shape', async () => {
+    const fetch = async () => ({ ok: true, status: 200, json: async () => ({ changes: [{ col: 'users' }], cursor: null }) })
+    await expect(new PSHHttpTransport('https://sync.test', { fetch }).pull({ clientId: 'c', cursor: null, limit: 10 })).rejects.toBeInstanceOf(PSHTransportError)
+  })
+
+  it('fails with a config error without a fetch', async () => {
+    const { fetch } = globalThis
+    Reflect.deleteProperty(globalThis, 'fetch')
+    try {
+      await expect(new PSHHttpTransport('https://sync.test').push({ clientId: 'c', changes: [] })).rejects.toBeInstanceOf(PSHConfigError)
+    } finally {
+      globalThis.fetch = fetch
+    }
+  })
+})
@@ -0,0 +1,56 @@
+import Pea from '../src/Pea'
+import { connect } from './helpers'
+
+interface Counter extends Pea {
+  n?: number
+}
+
+const counter = (collection: string, id: string, n?: number): Counter => n === undefined ? { collection, id } : { collection, id, n }
+
+const setUp = async () => {
+  const db = await connect()
+  const [a, b] = [db.col<Counter>('a'), db.col<Counter>('b')]
+  await a.save(counter('a', 'a1', 1))
+  const batches: Array<[string, string[]]> = []
+  db.events.onBatch('a', batch => { batches.push(['a', batch.events.map(event => `${event.type}:${event.id}`)]) })
+  db.events.onBatch('b', batch => { batches.push(['b', batch.events.map(event => `${event.type}:${event.id}`)]) })
+  return { db, a, b, batches }
+}
+
+describe('PSHTransaction', () => {
+  it('applies saves, updates and deletes in order and emits one batch per collection after commit', async () => {
+    const { db, a, b, batches } = await setUp()
+    const tx = db.transaction()
+    tx.update(a, 'a1', doc => ({ ...doc, n: doc.n! + 1 }))
+    tx.save(b, counter('b', 'b1', 5))
+    tx.save(a, counter('a', 'a2', 7))
+    tx.update(a, 'a2', { n: 8 })
+    tx.deleteMany(a, { n: ['>', 7] })
+    tx.delete(b, 'nope')
+    expect(batches).toEqual([])
+
+    await tx.execute()
+    expect(batches).toEqual([['a', ['write:a1', 'write:a2', 'write:a2', 'delete:a2']], ['b', ['write:b1']]])
+    expect(await a.get('a1')).toMatchObject({ n: 2 })
+    expect(await a.get('a2')).toBeNull()
+    expect(await b.get('b1')).toMatchObject({ n: 5 })
+  })
+
+  it('rolls every operation back when one fails, without events', async () => {
+    const { db, a, b, batches } = await setUp()
+    const tx = db.transaction()
+    tx.save(b, counter('b', 'b2'))
+    tx.update(a, 'missing', { n: 1 })
+    await expect(tx.execute()).rejects.toThrow(/missing/)
+    expect(await b.get('b2')).toBeNull()
+    expect(batches).toEqual([])
+  })
+
+  it('executes large batches in several transactions', async () => {
+    const { db, b } = await setUp()
+    const tx = db.transaction()
+    const count = await tx.executeBatch(Array.from({ length: 2500 }, (_, i) => i), i => tx.save(b, counter('b', `x${i}`)), 1200)
+    expect(count).toBe(2500)
+    expect(await b.count()).toBe(2500)
+  })
+})
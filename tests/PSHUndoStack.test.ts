@@ -0,0 +1,103 @@
+import { PSHConflictError, PSHRefData, PSHUndoStack } from '../src'
+import Pea from '../src/Pea'
+import { connect } from './helpers'
+
+interface Note extends Pea {
+  v: number
+  post?: PSHRefData
+}
+
+const note = (id: string, v: number, post?: PSHRefData): Note => post ? { collection: 'notes', id, v, post } : { collection: 'notes', id, v }
+
+describe('PSHUndoStack', () => {
+  it('undoes and redoes whole transactions', async () => {
+    const db = await connect()
+    const notes = db.col<Note>('notes')
+    await notes.save(note('a', 1))
+    const stack = new PSHUndoStack(db)
+    let notified = 0
+    stack.onChange(() => { notified++ })
+    const tx = stack.transaction()
+    tx.save(notes, note('a', 2))
+    tx.save(notes, note('b', 1))
+    await tx.execute()
+    const deleting = stack.transaction()
+    deleting.delete(notes, 'a')
+    await deleting.execute()
+    expect(await notes.get('a')).toBeNull()
+
+    expect(await stack.undo()).toBe(true)
+    expect(await notes.get('a')).toMatchObject({ v: 2 })
+    expect(await stack.undo()).toBe(true)
+    expect(await notes.get('a')).toMatchObject({ v: 1 })
+    expect(await notes.get('b')).toBeNull()
+    expect(await stack.undo()).toBe(false)
+
+    expect(await stack.redo()).toBe(true)
+    expect(await notes.get('a')).toMatchObject({ v: 2 })
+    expect(await notes.get('b')).toMatchObject({ v: 1 })
+    expect(notified).toBe(5)
+  })
+
+  it('fails a step over a document changed since, leaving the stacks alone', async () => {
+    const db = await connect()
+    const notes = db.col<Note>('notes')
+    const stack = new PSHUndoStack(db)
+    const tx = stack.transaction()
+    tx.save(notes, note('a', 1))
+    await tx.execute()
+    await notes.save(note('a', 9))
+    await expect(stack.undo()).rejects.toBeInstanceOf(PSHConflictError)
+    expect(stack.canUndo).toBe(true)
+    expect(stack.canRedo).toBe(false)
+  })
+
+  it('keeps restored revisions in the steps that follow, up to its limit', async () => {
+    const db = await connect()
+    const notes = db.col<Note>('notes')
+    const stack = new PSHUndoStack(db, { limit: 2 })
+    for (let v = 1; v <= 3; v++) {
+      const tx = stack.transaction()
+      tx.save(notes, note('a', v))
+      await tx.execute()
+    }
+    const v = async () => (await notes.get('a'))!.v
+    await stack.undo()
+    expect(await v()).toBe(2)
+    await stack.undo()
+    expect(await v()).toBe(1)
+    expect(stack.canUndo).toBe(false)
+    await stack.redo()
+    await stack.redo()
+    expect(await v()).toBe(3)
+    await stack.undo()
+    expect(await v()).toBe(2)
+    await stack.redo()
+    expect(await v()).toBe(3)
+  })
+
+  it('matches reverted changes to their documents when a delete cascades', async () => {
+    const db = await connect({ refs: { notes: { post: { to: 'posts', onDelete: 'cascade' } } } })
+    const notes = db.col<Note>('notes')
+    const posts = db.col<Note>('posts')
+    await notes.save(note('comment', 1, posts.ref('p').toJSON()))
+    await notes.save(note('other', 1))
+    const stack = new PSHUndoStack(db)
+    const tx = stack.transaction()
+    tx.save(notes, note('other', 2))
+    tx.add(posts, { ...note('p', 1), collection: 'posts' })
+    await tx.execute()
+
+    // undoing deletes the new post, which deletes the comment referring to it
+    await stack.undo()
+    expect(await posts.get('p')).toBeNull()
+    expect(await notes.get('comment')).toBeNull()
+    expect(await notes.get('other')).toMatchObject({ v: 1 })
+
+    await stack.redo()
+    expect(await notes.get('other')).toMatchObject({ v: 2 })
+    expect(await posts.get('p')).toMatchObject({ v: 1 })
+    await stack.undo()
+    expect(await notes.get('other')).toMatchObject({ v: 1 })
+  })
+})
@@ -0,0 +1,70 @@
+import { PSHDuplicates, PSHIndexing, PSHUniqueViolation } from '../src'
+import Pea from '../src/Pea'
+import { connect } from './helpers'
+
+interface User extends Pea {
+  email?: string
+  org?: string
+  handle?: string
+  name?: string
+  v?: number
+}
+
+interface Plain extends Pea {
+  k: number
+}
+
+const user = (fields: Omit<User, 'collection'>): User => ({ collection: 'users', ...fields })
+
+const setUp = async () => {
+  const duplicates: PSHDuplicates[] = []
+  const db = await connect({
+    onDuplicates: found => { duplicates.push(found) },
+    indices: { users: [PSHIndexing.make({ path: 'email', unique: true }), PSHIndexing.make({ fields: [{ path: 'org' }, { path: 'handle' }], unique: true })] },
+  })
+  const users = db.col<User>('users')
+  await users.save(user({ id: 'a', email: 'a@x', org: 'o', handle: 'h' }))
+  return { db, users, duplicates }
+}
+
+describe('unique indexes', () => {
+  it('refuses a duplicate key, naming the document that has it', async () => {
+    const { users } = await setUp()
+    const error = await users.save(user({ id: 'b', email: 'a@x' })).catch(e => e)
+    expect(error).toBeInstanceOf(PSHUniqueViolation)
+    expect(error).toMatchObject({ index: 'users__email', fields: ['email'], values: ['a@x'], id: 'b', conflictingId: 'a' })
+    await expect(users.save(user({ id: 'c', email: 'c@x', org: 'o', handle: 'h' }))).rejects.toMatchObject({ index: 'users__org___handle', conflictingId: 'a' })
+
+    await users.save(user({ id: 'a', email: 'a@x', org: 'o', handle: 'h', v: 2 }))
+    await users.save(user({ id: 'n1' }))
+    await users.save(user({ id: 'n2' }))
+    expect(await users.count()).toBe(3)
+  })
+
+  it('upserts by natural key, merging into the document that has it', async () => {
+    const { users } = await setUp()
+    await users.save(user({ id: 'a', email: 'a@x', org: 'o', handle: 'h', v: 2 }))
+    expect(await users.upsertBy('email', { collection: 'users', email: 'a@x', name: 'Ann' })).toMatchObject({ id: 'a', name: 'Ann', v: 2, rev: 3 })
+    const fresh = await users.upsertBy(['email'], { collection: 'users', email: 'new@x' })
+    expect(fresh.id).toBeTruthy()
+    expect(fresh.rev).toBe(1)
+    expect((await users.upsertBy(['handle', 'org'], { collection: 'users', org: 'o', handle: 'h', name: 'Anna' })).id).toBe('a')
+
+    await users.save(user({ id: 'n1' }))
+    expect(await users.upsertBy('email', { collection: 'users', id: 'n1', email: 'n1@x' })).toMatchObject({ id: 'n1', rev: 2 })
+    await expect(users.upsertBy('email', { collection: 'users', id: 'zz', email: 'b@x', org: 'o', handle: 'h' })).rejects.toBeInstanceOf(PSHUniqueViolation)
+    await expect(users.upsertBy('name', { collection: 'users', name: 'x' })).rejects.toThrow(/no unique index/)
+  })
+
+  it('reports findOne matching several documents', async () => {
+    const { db, users, duplicates } = await setUp()
+    await users.save(user({ id: 'n2' }))
+    expect((await users.findOne({ email: null }))!.id).toBe('n2')
+    expect(duplicates).toEqual([])
+
+    const plain = db.col<Plain>('plain')
+    await plain.saveMany([{ collection: 'plain', id: '1', k: 1 }, { collection: 'plain', id: '2', k: 1 }])
+    expect((await plain.findOne({ k: 1 }))!.id).toBe('1')
+    expect(duplicates).toEqual([{ collection: 'plain', query: { k: 1 }, ids: ['1', '2'] }])
+  })
+})
@@ -0,0 +1,43 @@
+import { PSHValidationError } from '../src'
+import Pea from '../src/Pea'
+import { connect } from './helpers'
+
+interface Thing extends Pea {
+  name: string
+  meta?: { n: number }
+}
+
+const schema = {
+  fields: { name: 'string', 'meta.n': 'number?' } as const,
+  validate: (thing: Thing) => thing.name === 'bad' ? [{ path: 'name', message: 'is bad' }] : [],
+}
+
+const thing = (id: string, name: string, meta?: Thing['meta']): Thing => meta ? { collection: 'things', id, name, meta } : { collection: 'things', id, name }
+
+describe('PSHValidation', () => {
+  it('checks field types and custom rules before saving', async () => {
+    const db = await connect()
+    const things = db.col<Thing>('things', { schema })
+    await things.save(thing('a', 'ok'))
+    await things.save(thing('b', 'ok', { n: 1 }))
+
+    const custom = await things.save(thing('c', 'bad')).catch(e => e)
+    expect(custom).toBeInstanceOf(PSHValidationError)
+    expect(custom.issues).toEqual([{ path: 'name', message: 'is bad' }])
+
+    const typed = await things.save({ collection: 'things', id: 'd', name: 3, meta: { n: 'x' } } as unknown as Thing).catch(e => e)
+    expect(typed.issues).toEqual([{ path: 'name', message: 'expected string, got number' }, { path: 'meta.n', message: 'expected number, got string' }])
+    expect(await things.count()).toBe(2)
+  })
+
+  it('validates updates and transactions, leaving the stored document as it was', async () => {
+    const db = await connect()
+    const things = db.col<Thing>('things', { schema })
+    await things.save(thing('a', 'ok'))
+    await expect(things.update('a', { name: 'bad' })).rejects.toBeInstanceOf(PSHValidationError)
+
+    const tx = db.transaction()
+    expect(() => tx.save(things, thing('b', 'bad'))).toThrow(PSHValidationError)
+    expect(await things.get('a')).toMatchObject({ name: 'ok' })
+  })
+})
@@ -0,0 +1,58 @@
+import { PSHIndexing, PSHQueryEvent, PSHUniqueViolation } from '../src'
+import Pea from '../src/Pea'
+import { connect } from './helpers'
+
+interface Note extends Pea {
+  n?: number
+  email?: string
+}
+
+const note = (id: string, fields: Omit<Note, 'collection'|'id'> = {}): Note => ({ collection: 'notes', id, ...fields })
+
+describe('PSHWriteQueue', () => {
+  it('coalesces rapid saves into one batch and reads its own writes meanwhile', async () => {
+    const inserts: PSHQueryEvent[] = []
+    const db = await connect({ writeBehind: { delay: 10 }, instrumentation: { onQuery: event => { if (/INSERT INTO "notes"/.test(event.sql)) inserts.push(event) } } })
+    const notes = db.col<Note>('notes')
+    await notes.initialize()
+    const saving = [notes.save(note('a', { n: 1 })), notes.save(note('a', { n: 2 })), notes.save(note('b', { n: 3 }))]
+    expect(await db.get('notes', 'a')).toMatchObject({ n: 2 })
+    expect(inserts).toHaveLength(0)
+
+    const [first, second, third] = await Promise.all(saving)
+    expect(first).toMatchObject({ n: 2, rev: 1 })
+    expect(second.rev).toBe(1)
+    expect(third.rev).toBe(1)
+    expect(inserts).toHaveLength(2)
+  })
+
+  it('counts queued writes and writes them all on flush', async () => {
+    const db = await connect({ writeBehind: { delay: 1000 } })
+    const notes = db.col<Note>('notes')
+    await notes.save(note('a'))
+    const queued = [notes.save(note('c', { n: 4 })), notes.save(note('d'))]
+    expect(await db.count('notes')).toBe(3)
+    await db.flush()
+    expect(await db.sqlDb.count('SELECT count(*) FROM notes')).toBe(3)
+    await Promise.all(queued)
+  })
+
+  it('writes queued saves before an update, so it compares against a real revision', async () => {
+    const db = await connect({ writeBehind: { delay: 1000 } })
+    const notes = db.col<Note>('notes')
+    const saved = notes.save(note('a', { n: 1 }))
+    expect(await notes.update('a', doc => ({ ...doc, n: doc.n! + 1 }))).toMatchObject({ n: 2, rev: 2 })
+    expect((await saved).rev).toBe(1)
+  })
+
+  it('retries a failed batch one write at a time, failing only the bad one', async () => {
+    const db = await connect({ writeBehind: { events: 'immediate' }, indices: { notes: [PSHIndexing.make({ path: 'email', unique: true })] } })
+    const notes = db.col<Note>('notes')
+    await notes.save(note('a', { email: 'a@x' }))
+    const ok = notes.save(note('b', { email: 'b@x' }))
+    const taken = notes.save(note('c', { email: 'a@x' }))
+    await expect(taken).rejects.toBeInstanceOf(PSHUniqueViolation)
+    expect((await ok).rev).toBe(1)
+    expect(await db.get('notes', 'c')).toBeNull()
+  })
+})
@@ -0,0 +1,10 @@
+import { PSHDatabase, PSHDatabaseConfig, PSHMemoryAdapter } from '../src'
+
+let connected = 0
+
+// a fresh in-memory database for each test
+export const connect = (config: PSHDatabaseConfig = {}) =>
+  PSHDatabase.connect({ name: `test-${++connected}`, config: { adapter: PSHMemoryAdapter.connect, ...config } })
+
+// lets events, live queries and queued writes settle
+export const tick = (ms = 10) => new Promise(resolve => setTimeout(resolve, ms))
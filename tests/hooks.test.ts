@@ -0,0 +1,86 @@
+import { act, renderHook, waitFor } from '@testing-library/react-native'
+import { useAll, useCount, useDoc, useQuery } from '../src'
+import Pea from '../src/Pea'
+import { connect } from './helpers'
+
+interface Task extends Pea {
+  title: string
+  done: boolean
+  rank: number
+}
+
+const task = (id: string, title: string, done: boolean, rank: number): Task => ({ collection: 'tasks', id, title, done, rank })
+
+const setUp = async () => {
+  const db = await connect()
+  const tasks = db.col<Task>('tasks')
+  await tasks.saveMany([task('t1', 'write', false, 2), task('t2', 'review', true, 1), task('t3', 'ship', false, 3)])
+  return { db, tasks }
+}
+
+describe('hooks', () => {
+  it('useQuery loads matches in order and follows writes', async () => {
+    const { tasks } = await setUp()
+    const { result } = renderHook(() => useQuery(tasks, { done: false }, { orderBy: 'rank' }))
+    expect(result.current.loading).toBe(true)
+    await waitFor(() => expect(result.current.loading).toBe(false))
+    expect(result.current.data.map(doc => doc.id)).toEqual(['t1', 't3'])
+    expect(result.current.error).toBeNull()
+
+    await act(async () => { await tasks.save(task('t4', 'plan', false, 0)) })
+    await waitFor(() => expect(result.current.data.map(doc => doc.id)).toEqual(['t4', 't1', 't3']))
+    await act(async () => { await tasks.update('t1', { done: true }) })
+    await waitFor(() => expect(result.current.data.map(doc => doc.id)).toEqual(['t4', 't3']))
+  })
+
+  it('useQuery re-subscribes when the query changes, but not for an equal one', async () => {
+    const { tasks } = await setUp()
+    const onQuery = jest.spyOn(tasks, 'onQuery')
+    const { result, rerender } = renderHook(({ done }: { done: boolean }) => useQuery(tasks, { done }), { initialProps: { done: false } })
+    await waitFor(() => expect(result.current.data).toHaveLength(2))
+    rerender({ done: false })
+    expect(onQuery).toHaveBeenCalledTimes(1)
+    rerender({ done: true })
+    await waitFor(() => expect(result.current.data.map(doc => doc.id)).toEqual(['t2']))
+    expect(onQuery).toHaveBeenCalledTimes(2)
+  })
+
+  it('useQuery surfaces a failing query as its error', async () => {
+    const { db, tasks } = await setUp()
+    await db.close()
+    const { result } = renderHook(() => useQuery(tasks, { done: false }))
+    await waitFor(() => expect(result.current.error).toBeInstanceOf(Error))
+    expect(result.current.loading).toBe(false)
+    expect(result.current.data).toEqual([])
+  })
+
+  it('useAll lists the whole collection', async () => {
+    const { tasks } = await setUp()
+    const { result } = renderHook(() => useAll(tasks, { orderBy: 'title' }))
+    await waitFor(() => expect(result.current.loading).toBe(false))
+    expect(result.current.data.map(doc => doc.title)).toEqual(['review', 'ship', 'write'])
+  })
+
+  it('useCount counts matches as they change', async () => {
+    const { tasks } = await setUp()
+    const { result } = renderHook(() => useCount(tasks, { done: false }))
+    await waitFor(() => expect(result.current.loading).toBe(false))
+    expect(result.current.data).toBe(2)
+    await act(async () => { await tasks.delete('t3') })
+    await waitFor(() => expect(result.current.data).toBe(1))
+  })
+
+  it('useDoc follows one document, and waits for an id', async () => {
+    const { tasks } = await setUp()
+    const { result, rerender } = renderHook(({ id }: { id?: string }) => useDoc(tasks, id), { initialProps: { id: undefined as string|undefined } })
+    expect(result.current).toEqual({ data: undefined, loading: false, error: null })
+
+    rerender({ id: 't1' })
+    await waitFor(() => expect(result.current.data).toMatchObject({ title: 'write' }))
+    await act(async () => { await tasks.update('t1', { title: 'rewrite' }) })
+    await waitFor(() => expect(result.current.data).toMatchObject({ title: 'rewrite' }))
+    await act(async () => { await tasks.delete('t1') })
+    await waitFor(() => expect(result.current.data).toBeUndefined())
+    expect(result.current.loading).toBe(false)
+  })
+})